@@ -6,12 +6,27 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/Dashboard";
 import Collection from "@/pages/Collection";
+import Analytics from "@/pages/Analytics";
+import Locations from "@/pages/Locations";
+import TaxReport from "@/pages/TaxReport";
+import Lots from "@/pages/Lots";
+import CardDetail from "@/pages/CardDetail";
+import AuthPage from "@/pages/AuthPage";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/collection" component={Collection} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/collection" component={Collection} />
+      <ProtectedRoute path="/cards/:id" component={CardDetail} />
+      <ProtectedRoute path="/analytics" component={Analytics} />
+      <ProtectedRoute path="/locations" component={Locations} />
+      <ProtectedRoute path="/locations/:id" component={Locations} />
+      <ProtectedRoute path="/reports/tax" component={TaxReport} />
+      <ProtectedRoute path="/lots" component={Lots} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -20,10 +35,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -2,12 +2,11 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { apiRequest } from "@/lib/queryClient";
-import { getRandomCardImage } from "@/lib/cardImages";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { cleanCardNotes } from "@/lib/utils";
-import { Card } from "@shared/schema";
+import { Card, ImageRole } from "@shared/schema";
 import { insertCardSchema } from "@shared/schema";
-import { sportOptions, conditionOptions } from "@shared/schema";
+import { sportOptions, conditionOptions, acquisitionSources, cardImageInputSchema } from "@shared/schema";
 import { 
   Dialog, 
   DialogContent, 
@@ -19,6 +18,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -30,6 +30,13 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ImageIcon, Camera } from "lucide-react";
 import CardRecognitionModal from "@/components/CardRecognitionModal";
+import TagInput from "@/components/TagInput";
+import CardImagesEditor from "@/components/CardImagesEditor";
+import { locationChoices } from "@shared/locations";
+import { acquisitionSourceLabels } from "@shared/costBasis";
+import { invalidateStorageLocations, useStorageLocations } from "@/hooks/use-locations";
+import { usePortfolios } from "@/hooks/use-portfolios";
+import { useCard } from "@/hooks/use-card";
 
 // Extended schema for the form with validation
 const formSchema = z.object({
@@ -40,10 +47,20 @@ const formSchema = z.object({
   cardSet: z.string().optional(),
   condition: z.string().min(1, "Condition is required"),
   purchasePrice: z.coerce.number().min(0, "Price must be a positive number"),
+  purchaseFees: z.coerce.number().min(0, "Fees must be a positive number"),
+  purchaseShipping: z.coerce.number().min(0, "Shipping must be a positive number"),
+  purchaseTax: z.coerce.number().min(0, "Tax must be a positive number"),
+  purchaseDate: z.string(), // YYYY-MM-DD, or blank when unknown
+  purchaseSource: z.string(), // "none" or one of acquisitionSources
+  purchaseSeller: z.string(),
   currentValue: z.coerce.number().min(0, "Value must be a positive number").optional(),
   notes: z.string().optional(),
-  imageUrl: z.string().optional(),
+  images: z.array(cardImageInputSchema),
   cardNumber: z.string().optional(),
+  tags: z.array(z.string()),
+  locationId: z.string(), // "none" or a storage location id
+  portfolioId: z.string(), // "none" or a portfolio id
+  locationSlot: z.string().regex(/^\d*$/, "Slot must be a whole number"),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -53,11 +70,15 @@ interface AddEditCardModalProps {
   onOpenChange: (open: boolean) => void;
   card: Card | null;
   onSuccess: () => void;
+  // Portfolio new cards go into, e.g. the one being viewed
+  defaultPortfolioId?: number | null;
 }
 
-export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }: AddEditCardModalProps) {
+export default function AddEditCardModal({ open, onOpenChange, card, onSuccess, defaultPortfolioId }: AddEditCardModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [recognitionModalOpen, setRecognitionModalOpen] = useState(false);
+  const { data: locations = [] } = useStorageLocations();
+  const { data: portfolios = [] } = usePortfolios();
   
   // Default values
   const defaultValues: FormValues = {
@@ -68,10 +89,20 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
     cardSet: "",
     condition: "raw",
     purchasePrice: 0,
+    purchaseFees: 0,
+    purchaseShipping: 0,
+    purchaseTax: 0,
+    purchaseDate: "",
+    purchaseSource: "none",
+    purchaseSeller: "",
     currentValue: 0,
     notes: "",
-    imageUrl: getRandomCardImage(), // Use a real card image as default
+    images: [],
     cardNumber: "",
+    tags: [],
+    locationId: "none",
+    locationSlot: "",
+    portfolioId: defaultPortfolioId != null ? String(defaultPortfolioId) : "none",
   };
   
   // Initialize the form
@@ -95,20 +126,51 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
         cardSet: card.cardSet || "",
         condition: card.condition,
         purchasePrice,
+        purchaseFees: card.purchaseFees ?? 0,
+        purchaseShipping: card.purchaseShipping ?? 0,
+        purchaseTax: card.purchaseTax ?? 0,
+        purchaseDate: card.purchaseDate ?? "",
+        purchaseSource: card.purchaseSource ?? "none",
+        purchaseSeller: card.purchaseSeller ?? "",
         currentValue,
         notes: cleanCardNotes(card.notes || ""),
-        imageUrl: card.imageUrl || getRandomCardImage(),
+        images: [], // filled in once the card's images load
         cardNumber: card.cardNumber || "",
+        tags: card.tags ?? [],
+        locationId: card.locationId != null ? String(card.locationId) : "none",
+        locationSlot: card.locationSlot != null ? String(card.locationSlot) : "",
+        portfolioId: card.portfolioId != null ? String(card.portfolioId) : "none",
       });
     } else {
       form.reset(defaultValues);
     }
-  }, [card, form]);
+  }, [card, form, defaultPortfolioId]);
   
-  const onSubmit = async (data: FormValues) => {
+  // The card lists leave out images, so load them for the card being edited
+  const { data: cardDetail } = useCard(card?.id);
+  const imagesLoaded = !card || cardDetail?.id === card.id;
+  useEffect(() => {
+    if (card && cardDetail?.id === card.id) {
+      form.setValue("images", (cardDetail.images ?? []).map(({ url, role }) => ({ url, role: role as ImageRole })));
+    }
+  }, [card, cardDetail, form]);
+  
+  const onSubmit = async (values: FormValues) => {
     try {
       setIsSubmitting(true);
       
+      const inStorage = values.locationId !== "none";
+      const data = {
+        ...values,
+        locationId: inStorage ? Number(values.locationId) : null,
+        locationSlot: inStorage && values.locationSlot ? Number(values.locationSlot) : null,
+        portfolioId: values.portfolioId !== "none" ? Number(values.portfolioId) : null,
+        purchaseDate: values.purchaseDate || null,
+        purchaseSource: values.purchaseSource !== "none" ? values.purchaseSource : null,
+        // Saving before the images load would otherwise remove them
+        images: imagesLoaded ? values.images : undefined,
+      };
+      
       if (card) {
         // Update existing card
         await apiRequest("PATCH", `/api/cards/${card.id}`, data);
@@ -116,6 +178,14 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
         // Create new card
         await apiRequest("POST", "/api/cards", data);
       }
+      if (card) {
+        queryClient.invalidateQueries({ queryKey: ["/api/cards", card.id] });
+        queryClient.invalidateQueries({ queryKey: [`/api/cards/${card.id}/valuations`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/cards/${card.id}/edits`] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      invalidateStorageLocations();
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
       
       // Close modal and notify success
       onOpenChange(false);
@@ -145,6 +215,15 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
     if (recognizedCard.notes) {
       form.setValue('notes', cleanCardNotes(recognizedCard.notes));
     }
+    
+    // The photo that was recognized becomes the card's front
+    if (recognizedCard.imageUrl) {
+      const others = form.getValues('images').filter(image => image.url !== recognizedCard.imageUrl);
+      form.setValue('images', [
+        { url: recognizedCard.imageUrl, role: 'front' },
+        ...others.map(image => image.role === 'front' ? { ...image, role: 'detail' as const } : image),
+      ]);
+    }
   };
 
   return (
@@ -293,6 +372,146 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
                 />
               </div>
               
+              {card?.lotId != null && (
+                <p className="text-sm text-gray-500">
+                  This card's costs were allocated from a lot. Changing the lot reallocates them.
+                </p>
+              )}
+              
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="purchaseFees"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fees</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <span className="text-gray-500">$</span>
+                          </div>
+                          <Input 
+                            type="number" 
+                            step="0.01" 
+                            placeholder="0.00" 
+                            className="pl-7" 
+                            {...field} 
+                          />
+                        </div>
+                      </FormControl>
+                      <FormDescription>Buyer's premium, grading</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="purchaseShipping"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shipping</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <span className="text-gray-500">$</span>
+                          </div>
+                          <Input 
+                            type="number" 
+                            step="0.01" 
+                            placeholder="0.00" 
+                            className="pl-7" 
+                            {...field} 
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="purchaseTax"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sales Tax</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <span className="text-gray-500">$</span>
+                          </div>
+                          <Input 
+                            type="number" 
+                            step="0.01" 
+                            placeholder="0.00" 
+                            className="pl-7" 
+                            {...field} 
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="purchaseDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Purchase Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="purchaseSource"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Source</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Unknown</SelectItem>
+                          {acquisitionSources.map(source => (
+                            <SelectItem key={source} value={source}>
+                              {acquisitionSourceLabels[source]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="purchaseSeller"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Seller</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. eBay username" maxLength={100} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -325,13 +544,14 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
               
               <FormField
                 control={form.control}
-                name="imageUrl"
+                name="images"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Card Image URL (Optional)</FormLabel>
-                    <FormControl>
-                      <Input placeholder="https://example.com/card-image.jpg" {...field} />
-                    </FormControl>
+                    {imagesLoaded ? (
+                      <CardImagesEditor value={field.value} onChange={field.onChange} />
+                    ) : (
+                      <div className="h-28 bg-gray-100 rounded animate-pulse" />
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -355,6 +575,95 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
                 )}
               />
               
+              {portfolios.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="portfolioId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Portfolio</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not in a portfolio</SelectItem>
+                          {portfolios.map(portfolio => (
+                            <SelectItem key={portfolio.id} value={String(portfolio.id)}>
+                              {portfolio.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="locationId"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Storage Location (Optional)</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Not in storage" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not in storage</SelectItem>
+                          {locationChoices(locations).map(choice => (
+                            <SelectItem key={choice.id} value={String(choice.id)}>
+                              {choice.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="locationSlot"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Slot</FormLabel>
+                      <FormControl>
+                        <Input
+                          inputMode="numeric"
+                          placeholder="e.g. 14"
+                          disabled={form.watch("locationId") === "none"}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (Optional)</FormLabel>
+                    <FormControl>
+                      <TagInput value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <DialogFooter className="flex gap-2">
                 {!card && (
                   <Button
@@ -391,6 +700,9 @@ export default function AddEditCardModal({ open, onOpenChange, card, onSuccess }
         open={recognitionModalOpen}
         onOpenChange={setRecognitionModalOpen}
         onRecognitionSuccess={handleRecognitionSuccess}
+        // Cards from a scan are created straight away, so this form isn't needed
+        onCardsCreated={() => onOpenChange(false)}
+        defaultPortfolioId={defaultPortfolioId}
       />
     </>
   );
@@ -2,34 +2,53 @@ import { Card } from "@shared/schema";
 import CardItem from "./CardItem";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
-import { useState, useMemo } from "react";
+import { Loader2 } from "lucide-react";
+import { useEffect, useRef } from "react";
 
 interface CardGridProps {
   cards: Card[];
+  // Number of matching cards on the server; more than cards.length until every page is loaded
+  total: number;
   isLoading: boolean;
   viewMode: "grid" | "list";
   onEdit: (card: Card) => void;
   onDelete: (card: Card) => void;
   onResearch?: (card: Card) => void;
+  onMarkSold?: (card: Card) => void;
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  onLoadMore?: () => void;
 }
 
-export default function CardGrid({ cards, isLoading, viewMode, onEdit, onDelete, onResearch }: CardGridProps) {
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = 15;
+export default function CardGrid({
+  cards,
+  total,
+  isLoading,
+  viewMode,
+  onEdit,
+  onDelete,
+  onResearch,
+  onMarkSold,
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+}: CardGridProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
   
-  // Calculate pagination
-  const totalPages = Math.ceil(cards.length / itemsPerPage);
-  
-  // Get current page items
-  const currentItems = useMemo(() => {
-    const indexOfLastItem = currentPage * itemsPerPage;
-    const indexOfFirstItem = indexOfLastItem - itemsPerPage;
-    return cards.slice(indexOfFirstItem, indexOfLastItem);
-  }, [cards, currentPage, itemsPerPage]);
-  
-  // Change page
-  const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || !onLoadMore) return;
+    
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        onLoadMore();
+      }
+    }, { rootMargin: "400px" });
+    
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, onLoadMore]);
   
   if (isLoading) {
     return (
@@ -91,10 +110,9 @@ export default function CardGrid({ cards, isLoading, viewMode, onEdit, onDelete,
   return (
     <div className="bg-white rounded-lg shadow-sm overflow-hidden">
       <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b border-gray-200">
-        <h3 className="font-semibold text-gray-900">Your Cards ({cards.length})</h3>
+        <h3 className="font-semibold text-gray-900">Your Cards ({total})</h3>
         <span className="text-sm text-gray-600">
-          Showing {Math.min((currentPage - 1) * itemsPerPage + 1, cards.length)}-
-          {Math.min(currentPage * itemsPerPage, cards.length)} of {cards.length} cards
+          Showing {cards.length} of {total} cards
         </span>
       </div>
       
@@ -103,7 +121,7 @@ export default function CardGrid({ cards, isLoading, viewMode, onEdit, onDelete,
         ? "grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 p-4"
         : "divide-y divide-gray-200"
       }>
-        {currentItems.map(card => (
+        {cards.map(card => (
           <CardItem 
             key={card.id} 
             card={card} 
@@ -111,116 +129,24 @@ export default function CardGrid({ cards, isLoading, viewMode, onEdit, onDelete,
             onEdit={() => onEdit(card)}
             onDelete={() => onDelete(card)}
             onResearch={() => onResearch?.(card)}
+            onMarkSold={onMarkSold && !card.sale ? () => onMarkSold(card) : undefined}
           />
         ))}
       </div>
       
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
-          <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-            <div>
-              <p className="text-sm text-gray-700">
-                Showing <span className="font-medium">{Math.min((currentPage - 1) * itemsPerPage + 1, cards.length)}</span> to{" "}
-                <span className="font-medium">{Math.min(currentPage * itemsPerPage, cards.length)}</span> of{" "}
-                <span className="font-medium">{cards.length}</span> results
-              </p>
-            </div>
-            <div>
-              <nav className="relative z-0 inline-flex rounded-md shadow-sm -space-x-px" aria-label="Pagination">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="relative inline-flex items-center px-2 py-2 rounded-l-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
-                  onClick={() => setCurrentPage(p => Math.max(p - 1, 1))}
-                  disabled={currentPage === 1}
-                >
-                  <span className="sr-only">Previous</span>
-                  <ChevronLeftIcon className="h-5 w-5" />
-                </Button>
-                
-                {/* Page buttons */}
-                {Array.from({ length: Math.min(5, totalPages) }).map((_, i) => {
-                  let pageNum;
-                  if (totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (currentPage <= 3) {
-                    pageNum = i + 1;
-                  } else if (currentPage >= totalPages - 2) {
-                    pageNum = totalPages - 4 + i;
-                  } else {
-                    pageNum = currentPage - 2 + i;
-                  }
-                  
-                  if (pageNum > totalPages) return null;
-                  
-                  return (
-                    <Button
-                      key={pageNum}
-                      variant={currentPage === pageNum ? "secondary" : "outline"}
-                      size="sm"
-                      className={`relative inline-flex items-center px-4 py-2 border ${
-                        currentPage === pageNum 
-                          ? "bg-blue-50 text-blue-600" 
-                          : "bg-white text-gray-700"
-                      }`}
-                      onClick={() => paginate(pageNum)}
-                    >
-                      {pageNum}
-                    </Button>
-                  );
-                })}
-                
-                {/* Show ellipsis if there are more pages */}
-                {totalPages > 5 && currentPage < totalPages - 2 && (
-                  <span className="relative inline-flex items-center px-4 py-2 border border-gray-300 bg-white text-sm font-medium text-gray-700">
-                    ...
-                  </span>
-                )}
-                
-                {/* Always show last page if not already included */}
-                {totalPages > 5 && currentPage < totalPages - 2 && (
-                  <Button
-                    variant={currentPage === totalPages ? "secondary" : "outline"}
-                    size="sm"
-                    className="relative inline-flex items-center px-4 py-2 border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
-                    onClick={() => paginate(totalPages)}
-                  >
-                    {totalPages}
-                  </Button>
-                )}
-                
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50"
-                  onClick={() => setCurrentPage(p => Math.min(p + 1, totalPages))}
-                  disabled={currentPage === totalPages}
-                >
-                  <span className="sr-only">Next</span>
-                  <ChevronRightIcon className="h-5 w-5" />
-                </Button>
-              </nav>
-            </div>
-          </div>
-          <div className="flex sm:hidden justify-between w-full">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(p => Math.max(p - 1, 1))}
-              disabled={currentPage === 1}
-            >
-              Previous
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(p => Math.min(p + 1, totalPages))}
-              disabled={currentPage === totalPages}
-            >
-              Next
+      {/* Infinite scroll */}
+      {hasNextPage && (
+        <div ref={sentinelRef} className="px-4 py-4 flex justify-center border-t border-gray-200">
+          {isFetchingNextPage ? (
+            <span className="flex items-center text-sm text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading more cards...
+            </span>
+          ) : (
+            <Button variant="outline" size="sm" onClick={onLoadMore}>
+              Load more
             </Button>
-          </div>
+          )}
         </div>
       )}
     </div>
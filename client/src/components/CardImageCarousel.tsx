@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { CardImage, ImageRole } from "@shared/schema";
+import { imageRoleLabels, thumbnailFor } from "@shared/cardImages";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+import CardPhoto from "@/components/CardPhoto";
+
+interface CardImageCarouselProps {
+  images: CardImage[];
+  alt: string;
+  className?: string;
+}
+
+/**
+ * A card's photos at full size, one at a time, with a strip of thumbnails to
+ * jump between them
+ */
+export default function CardImageCarousel({ images, alt, className }: CardImageCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  if (images.length === 0) {
+    return (
+      <div className={cn("h-80 bg-gray-100 rounded-lg", className)}>
+        <CardPhoto src={null} alt={alt} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Carousel setApi={setApi} className="mx-10">
+        <CarouselContent>
+          {images.map(image => (
+            <CarouselItem key={image.id}>
+              <div className="h-80 bg-gray-100 rounded-lg overflow-hidden">
+                <CardPhoto src={image.url} alt={`${alt}, ${imageRoleLabels[image.role as ImageRole] ?? image.role}`} />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious type="button" />
+            <CarouselNext type="button" />
+          </>
+        )}
+      </Carousel>
+
+      <p className="text-center text-sm text-gray-600 mt-2">
+        {imageRoleLabels[images[current]?.role as ImageRole] ?? images[current]?.role}
+        {images.length > 1 && <span className="text-gray-400"> · {current + 1} of {images.length}</span>}
+      </p>
+
+      {images.length > 1 && (
+        <div className="flex justify-center gap-2 mt-2">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              className={cn(
+                "w-12 h-16 bg-gray-100 rounded overflow-hidden border-2",
+                index === current ? "border-blue-500" : "border-transparent"
+              )}
+              onClick={() => api?.scrollTo(index)}
+              aria-label={`Show photo ${index + 1}`}
+            >
+              <CardPhoto src={thumbnailFor(image.url)} alt="" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import { CardImageInput, ImageRole, StoredImage, imageRoles } from "@shared/schema";
+import { imageRoleLabels, thumbnailFor } from "@shared/cardImages";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CardPhoto from "@/components/CardPhoto";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ImagePlus, Loader2, X } from "lucide-react";
+
+interface CardImagesEditorProps {
+  value: CardImageInput[];
+  onChange: (images: CardImageInput[]) => void;
+}
+
+// The role a new photo most likely has, given the ones the card already has
+function nextRole(images: CardImageInput[]): ImageRole {
+  const taken = new Set(images.map(image => image.role));
+  return (["front", "back"] as const).find(role => !taken.has(role)) ?? "detail";
+}
+
+/**
+ * A card's photos: upload more, label what each shows, reorder and remove
+ */
+export default function CardImagesEditor({ value, onChange }: CardImagesEditorProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    let images = value;
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("image", file);
+
+        // Use fetch directly for FormData since apiRequest assumes JSON
+        const response = await fetch("/api/images", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.message || response.statusText);
+        }
+
+        const uploaded: StoredImage = await response.json();
+        images = [...images, { url: uploaded.url, role: nextRole(images) }];
+        onChange(images);
+      }
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload the photo. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const setRole = (index: number, role: ImageRole) => {
+    onChange(value.map((image, i) => (i === index ? { ...image, role } : image)));
+  };
+
+  const moveEarlier = (index: number) => {
+    const images = [...value];
+    [images[index - 1], images[index]] = [images[index], images[index - 1]];
+    onChange(images);
+  };
+
+  const remove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-700 mb-1">Photos</div>
+      <div className="grid grid-cols-3 gap-3">
+        {value.map((image, index) => (
+          <div key={`${image.url}-${index}`}>
+            <div className="relative h-28 bg-gray-100 rounded border border-gray-200 overflow-hidden">
+              <CardPhoto src={thumbnailFor(image.url)} alt={imageRoleLabels[image.role]} />
+              <button
+                type="button"
+                className="absolute top-1 right-1 rounded-full bg-white/90 p-0.5 text-gray-500 hover:text-red-600"
+                onClick={() => remove(index)}
+                title="Remove photo"
+                aria-label="Remove photo"
+              >
+                <X className="h-4 w-4" />
+              </button>
+              {index > 0 && (
+                <button
+                  type="button"
+                  className="absolute top-1 left-1 rounded-full bg-white/90 p-0.5 text-gray-500 hover:text-blue-600"
+                  onClick={() => moveEarlier(index)}
+                  title="Move earlier"
+                  aria-label="Move earlier"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <Select value={image.role} onValueChange={(role) => setRole(index, role as ImageRole)}>
+              <SelectTrigger className="h-8 mt-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {imageRoles.map(role => (
+                  <SelectItem key={role} value={role}>{imageRoleLabels[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="h-28 rounded border-2 border-dashed border-gray-300 flex flex-col items-center justify-center text-gray-500 hover:border-blue-400 hover:text-blue-600 disabled:opacity-50"
+          disabled={isUploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {isUploading ? <Loader2 className="h-6 w-6 animate-spin" /> : <ImagePlus className="h-6 w-6" />}
+          <span className="text-xs mt-1">{isUploading ? "Uploading..." : "Add photos"}</span>
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp"
+        multiple
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+}
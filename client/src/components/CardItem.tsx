@@ -1,9 +1,15 @@
 import { Card } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { formatPrice, getSportBadgeColor, cleanCardNotes } from "@/lib/utils";
-import { getRandomCardImage, getSportSpecificImage } from "@/lib/cardImages";
-import { PencilIcon, TrashIcon, BarChart2Icon } from "lucide-react";
+import { thumbnailFor } from "@shared/cardImages";
+import { formatLocationPath, locationPath } from "@shared/locations";
+import { cardCostBasis } from "@shared/costBasis";
+import { useStorageLocations } from "@/hooks/use-locations";
+import { PencilIcon, TrashIcon, BarChart2Icon, MapPinIcon, BadgeDollarSignIcon } from "lucide-react";
 import { useState } from "react";
+import { Link } from "wouter";
+import CardPhoto from "@/components/CardPhoto";
+import CardPhotosDialog from "@/components/CardPhotosDialog";
 
 interface CardItemProps {
   card: Card;
@@ -11,23 +17,13 @@ interface CardItemProps {
   onEdit: () => void;
   onDelete: () => void;
   onResearch: () => void;
+  onMarkSold?: () => void; // left out for cards already sold
 }
 
-export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch }: CardItemProps) {
+export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch, onMarkSold }: CardItemProps) {
   const sportBadgeColor = getSportBadgeColor(card.sport);
-  const [imageError, setImageError] = useState(false);
+  const { data: locations = [] } = useStorageLocations();
   
-  // Process image URL - handle multiple URLs separated by |
-  const processImageUrl = (url: string) => {
-    if (!url) return "";
-    // If the URL contains a separator |, take the first URL
-    if (url.includes("|")) {
-      return url.split("|")[0].trim();
-    }
-    return url;
-  };
-  
-  // Get appropriate card image - prefer imageUrl, fallback to sport-specific image, then random
   // Process player name to remove any card suffixes like "Topps cardSoccer"
   const cleanPlayerName = card.playerName
     .replace(/\s+(Topps|Panini)\s+card(Soccer|Basketball|Baseball|Football|Hockey)?$/i, "")
@@ -38,32 +34,84 @@ export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch
     .replace(/^(Topps|Panini)\s+\1$/i, "$1")
     .replace(/^\d{4}\s+(Topps|Panini)\s+\d{4}\s+\1$/i, "$1");
   
-  const fallbackImage = getSportSpecificImage(card.sport) || getRandomCardImage();
-  const processedImageUrl = card.imageUrl ? processImageUrl(card.imageUrl) : "";
-  const cardImage = !imageError && processedImageUrl ? processedImageUrl : fallbackImage;
+  // The card's cover photo, small; CardPhoto shows a placeholder without one
+  const cardImage = thumbnailFor(card.imageUrl ?? "");
+  const [photosOpen, setPhotosOpen] = useState(false);
+  const photosDialog = card.imageUrl && (
+    <CardPhotosDialog open={photosOpen} onOpenChange={setPhotosOpen} card={card} />
+  );
+
+  // Where the physical card is kept, linking to the location's contents
+  const storagePath = locationPath(locations, card.locationId);
+  const whereIsIt = storagePath.length > 0 && (
+    <Link
+      href={`/locations/${card.locationId}`}
+      className={`flex items-center text-xs text-gray-500 hover:text-blue-600 mt-1 ${viewMode === "grid" ? "justify-center" : ""}`}
+    >
+      <MapPinIcon className="h-3 w-3 mr-1 flex-shrink-0" />
+      <span className="truncate">{formatLocationPath(storagePath, card.locationSlot)}</span>
+    </Link>
+  );
+
+  const saleNote = card.sale && (
+    <p className={`text-xs font-medium text-amber-700 mt-1 ${viewMode === "grid" ? "text-center" : ""}`}>
+      Sold for {formatPrice(card.sale.salePrice)} on {card.sale.soldAt}
+      {card.sale.venue && ` · ${card.sale.venue}`}
+    </p>
+  );
+
+  const markSoldButton = onMarkSold && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onMarkSold}
+      className="text-amber-600 border-amber-200 hover:bg-amber-50 hover:text-amber-700"
+      title="Mark as sold"
+      aria-label="Mark as sold"
+    >
+      <BadgeDollarSignIcon className="h-4 w-4" />
+    </Button>
+  );
+
+  const tagChips = card.tags && card.tags.length > 0 && (
+    <div className={`flex flex-wrap gap-1 mt-2 ${viewMode === "grid" ? "justify-center" : ""}`}>
+      {card.tags.map(tag => (
+        <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs">
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
   
   if (viewMode === "list") {
     return (
       <div className="py-4 px-6 flex items-center">
-        <div className="w-20 h-28 bg-gray-100 rounded overflow-hidden flex-shrink-0">
-          <img 
-            src={cardImage} 
-            alt={`${card.playerName} ${card.brand} card`} 
-            className="w-full h-full object-contain"
-            onError={() => setImageError(true)}
-          />
-        </div>
+        <button
+          type="button"
+          className="w-20 h-28 bg-gray-100 rounded overflow-hidden flex-shrink-0"
+          onClick={() => setPhotosOpen(true)}
+          disabled={!card.imageUrl}
+          aria-label="View photos"
+        >
+          <CardPhoto src={cardImage} alt={`${card.playerName} ${card.brand} card`} />
+        </button>
+        {photosDialog}
         <div className="ml-4 flex-1">
           <div>
-            <h3 className="font-semibold text-gray-900">{cleanPlayerName}</h3>
+            <h3 className="font-semibold text-gray-900">
+              <Link href={`/cards/${card.id}`} className="hover:text-blue-600 hover:underline">{cleanPlayerName}</Link>
+            </h3>
             <p className="text-sm text-gray-600">{card.year} {cleanBrand} {card.cardSet}</p>
             {card.notes && <p className="text-sm font-medium text-blue-600 mt-1">{cleanCardNotes(card.notes)}</p>}
+            {saleNote}
+            {whereIsIt}
+            {tagChips}
           </div>
           
           <div className="grid grid-cols-4 gap-4 mt-2">
             <div>
               <span className="text-xs text-gray-500">Cost:</span>
-              <div className="text-sm font-medium text-gray-700">{formatPrice(card.purchasePrice)}</div>
+              <div className="text-sm font-medium text-gray-700">{formatPrice(cardCostBasis(card))}</div>
             </div>
             
             {(card.currentValue || 0) > 0 && (
@@ -89,7 +137,7 @@ export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch
           {card.sport}
         </div>
         
-        <div className="flex items-center space-x-2 min-w-[240px]">
+        <div className={`flex items-center space-x-2 ${onMarkSold ? "min-w-[280px]" : "min-w-[240px]"}`}>
           <Button variant="outline" size="sm" onClick={onResearch} className="flex-1 text-purple-600 border-purple-200 hover:bg-purple-50 hover:text-purple-700">
             <BarChart2Icon className="h-4 w-4 mr-1" />
             Price
@@ -102,6 +150,7 @@ export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch
             <TrashIcon className="h-4 w-4 mr-1" />
             Delete
           </Button>
+          {markSoldButton}
         </div>
       </div>
     );
@@ -110,19 +159,30 @@ export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch
   return (
     <div className="border border-gray-200 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow duration-200">
       <div className="bg-gray-100 relative h-56 overflow-hidden">
-        <img 
-          src={cardImage} 
-          alt={`${card.playerName} ${card.brand} card`} 
-          className="object-contain w-full h-full"
-          onError={() => setImageError(true)}
-        />
+        <button
+          type="button"
+          className="w-full h-full"
+          onClick={() => setPhotosOpen(true)}
+          disabled={!card.imageUrl}
+          aria-label="View photos"
+        >
+          <CardPhoto src={cardImage} alt={`${card.playerName} ${card.brand} card`} />
+        </button>
+        {photosDialog}
         <div className={`absolute top-2 right-2 ${sportBadgeColor} text-white text-xs px-2 py-1 rounded`}>
           {card.sport}
         </div>
+        {card.sale && (
+          <div className="absolute top-2 left-2 bg-amber-500 text-white text-xs px-2 py-1 rounded">
+            Sold
+          </div>
+        )}
       </div>
       <div className="p-3">
         <div>
-          <h3 className="font-semibold text-gray-900 text-center">{cleanPlayerName}</h3>
+          <h3 className="font-semibold text-gray-900 text-center">
+            <Link href={`/cards/${card.id}`} className="hover:text-blue-600 hover:underline">{cleanPlayerName}</Link>
+          </h3>
           <p className="text-sm text-gray-600 text-center">{card.year} {cleanBrand} {card.cardSet}</p>
           
           {/* Display cleaned up notes as card name */}
@@ -130,12 +190,15 @@ export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch
             <p className="text-sm font-medium text-blue-600 mt-1 mb-2 text-center">
               {cleanCardNotes(card.notes)}
             </p>}
+          {saleNote}
+          {whereIsIt}
+          {tagChips}
         </div>
         
         <div className="flex justify-between mt-2 items-center">
           <div className="flex flex-col">
             <span className="text-xs text-gray-500">Cost:</span>
-            <span className="text-sm font-medium text-gray-700">{formatPrice(card.purchasePrice)}</span>
+            <span className="text-sm font-medium text-gray-700">{formatPrice(cardCostBasis(card))}</span>
           </div>
           
           {(card.currentValue || 0) > 0 && (
@@ -169,6 +232,7 @@ export default function CardItem({ card, viewMode, onEdit, onDelete, onResearch
             <TrashIcon className="h-4 w-4 mr-1" />
             Delete
           </Button>
+          {markSoldButton}
         </div>
       </div>
     </div>
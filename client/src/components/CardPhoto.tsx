@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { ImageIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isCardPhoto } from "@shared/cardImages";
+
+interface CardPhotoProps {
+  src: string | null | undefined;
+  alt: string;
+  className?: string;
+}
+
+/**
+ * A card photo, or a neutral placeholder when there is none or it fails to load
+ */
+export default function CardPhoto({ src, alt, className }: CardPhotoProps) {
+  const [failed, setFailed] = useState(false);
+
+  // Try again when the photo changes
+  useEffect(() => setFailed(false), [src]);
+
+  if (!isCardPhoto(src) || failed) {
+    return (
+      <div className={cn("flex flex-col items-center justify-center w-full h-full text-gray-400", className)}>
+        <ImageIcon className="h-8 w-8" />
+        <span className="text-xs mt-1">No photo</span>
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      className={cn("object-contain w-full h-full", className)}
+      loading="lazy"
+      onError={() => setFailed(true)}
+    />
+  );
+}
@@ -0,0 +1,42 @@
+import { Card } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import CardImageCarousel from "@/components/CardImageCarousel";
+import { useCard } from "@/hooks/use-card";
+
+interface CardPhotosDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card: Card;
+}
+
+export default function CardPhotosDialog({ open, onOpenChange, card }: CardPhotosDialogProps) {
+  // Only fetch the card's images once they're asked for
+  const { data: detail, isLoading } = useCard(open ? card.id : null);
+  const alt = `${card.playerName} ${card.brand} card`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{card.playerName}</DialogTitle>
+          <DialogDescription>
+            {card.year} {card.brand} {card.cardSet}
+            {card.cardNumber && ` #${card.cardNumber}`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : (
+          <CardImageCarousel images={detail?.images ?? []} alt={alt} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,19 +23,26 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
-import { Card } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
-import { getSportSpecificImage } from '@/lib/cardImages';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BatchRecognitionResult, Card } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, Upload, FileImage, ImagePlus, Undo2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import ScanReview, { ReviewedDetection, isReadyToCreate, toNewCard, toReviewedDetections } from '@/components/ScanReview';
 
 interface CardRecognitionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onRecognitionSuccess: (cardData: Partial<Card>) => void;
+  // Offers scanning several cards at once, which creates them directly
+  onCardsCreated?: (count: number) => void;
+  defaultPortfolioId?: number | null; // for cards created from a scan
 }
 
+// One card at a time fills in the card form; a scan of several is reviewed here
+type RecognitionMode = 'single' | 'batch';
+
 type FormValues = {
   image: FileList | null;
 };
@@ -49,10 +56,15 @@ export default function CardRecognitionModal({
   open,
   onOpenChange,
   onRecognitionSuccess,
+  onCardsCreated,
+  defaultPortfolioId,
 }: CardRecognitionModalProps) {
   const { toast } = useToast();
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [recognitionError, setRecognitionError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RecognitionMode>('single');
+  // The cards found in a scan, once there is one to review
+  const [detections, setDetections] = useState<ReviewedDetection[] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const form = useForm<FormValues>({
@@ -122,6 +134,64 @@ export default function CardRecognitionModal({
     },
   });
 
+  const recognizeCardsMutation = useMutation({
+    mutationFn: async (formData: FormData) => {
+      // Use fetch directly for FormData since apiRequest assumes JSON
+      const response = await fetch('/api/recognize-card/batch', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw { status: response.status, data: errorData };
+      }
+      
+      return await response.json() as BatchRecognitionResult;
+    },
+    onSuccess: (data) => {
+      setDetections(toReviewedDetections(data.detections));
+    },
+    onError: (error: any) => {
+      console.error('Error recognizing cards:', error);
+      setRecognitionError(
+        error.data?.message || 'Failed to recognize the cards. Please try another scan or add them one at a time.'
+      );
+    },
+  });
+
+  const createCardsMutation = useMutation({
+    mutationFn: async (items: ReviewedDetection[]) => {
+      const cards = items.map(item => toNewCard(item, defaultPortfolioId ?? null));
+      const response = await apiRequest('POST', '/api/cards/batch', { cards });
+      return await response.json() as Card[];
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cards/facets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolios'] });
+      toast({
+        title: `${created.length} ${created.length === 1 ? 'card' : 'cards'} added`,
+        description: 'The cards from the scan have been added to your inventory.',
+      });
+      onOpenChange(false);
+      resetForm();
+      onCardsCreated?.(created.length);
+    },
+    onError: (error: any) => {
+      console.error('Error creating cards:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add the cards. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const accepted = detections?.filter(item => item.accepted) ?? [];
+  const canCreate = accepted.length > 0 && accepted.every(isReadyToCreate);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) {
@@ -145,6 +215,7 @@ export default function CardRecognitionModal({
     }
     setPreviewUrl(null);
     setRecognitionError(null);
+    setDetections(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -156,116 +227,164 @@ export default function CardRecognitionModal({
     const formData = new FormData();
     formData.append('image', data.image[0]);
 
-    recognizeCardMutation.mutate(formData);
+    if (mode === 'batch') {
+      recognizeCardsMutation.mutate(formData);
+    } else {
+      recognizeCardMutation.mutate(formData);
+    }
   };
 
+  const isRecognizing = recognizeCardMutation.isPending || recognizeCardsMutation.isPending;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={detections ? "sm:max-w-2xl" : "sm:max-w-md"}>
         <DialogHeader>
           <DialogTitle className="text-xl font-bold">Card Recognition</DialogTitle>
           <DialogDescription>
-            Upload a card image to automatically identify and fill in the details.
+            {detections
+              ? `Found ${detections.length} ${detections.length === 1 ? 'card' : 'cards'}. Reject any that aren't right and fix up details before adding them.`
+              : mode === 'batch'
+                ? 'Upload a scan of several cards, such as a binder page, to identify them all at once.'
+                : 'Upload a card image to automatically identify and fill in the details.'}
           </DialogDescription>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="image"
-              render={({ field: { onChange, value, ...fieldProps } }) => (
-                <FormItem>
-                  <FormLabel className="text-base">Card Image</FormLabel>
-                  <FormControl>
-                    <>
-                      <Input
-                        type="file"
-                        accept="image/jpeg,image/png,image/gif,image/webp"
-                        onChange={handleFileChange}
-                        className={previewUrl ? 'hidden' : ''}
-                        {...fieldProps}
-                        ref={fileInputRef}
-                      />
-                      {previewUrl && (
-                        <div className="relative mt-2 rounded-lg overflow-hidden border border-border">
-                          <img
-                            src={previewUrl}
-                            alt="Card preview"
-                            className="w-full h-auto max-h-[300px] object-contain"
-                          />
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            className="absolute bottom-2 right-2 bg-background/80"
-                            onClick={() => {
-                              resetForm();
-                            }}
-                          >
-                            <Undo2 className="mr-1 h-4 w-4" />
-                            Change
-                          </Button>
-                        </div>
-                      )}
-                      {!previewUrl && (
-                        <div
-                          className="mt-2 border-2 border-dashed border-muted-foreground/25 rounded-lg p-12 text-center cursor-pointer hover:bg-accent/50 transition-colors"
-                          onClick={() => fileInputRef.current?.click()}
-                        >
-                          <FileImage className="mx-auto h-12 w-12 text-muted-foreground" />
-                          <div className="mt-4 flex text-sm leading-6 text-muted-foreground">
-                            <label
-                              htmlFor="file-upload"
-                              className="relative cursor-pointer rounded-md bg-background font-semibold text-primary focus-within:outline-none focus-within:ring-2 focus-within:ring-primary"
-                            >
-                              <span>Upload a card image</span>
-                            </label>
-                          </div>
-                          <p className="text-xs text-muted-foreground mt-2">
-                            PNG, JPG, GIF or WEBP up to 5MB
-                          </p>
-                        </div>
-                      )}
-                    </>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {recognitionError && (
-              <Alert variant="destructive" className="mt-4">
-                <AlertDescription>{recognitionError}</AlertDescription>
-              </Alert>
-            )}
-
-            <DialogFooter className="mt-6 gap-2">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => {
-                  onOpenChange(false);
-                  resetForm();
-                }}
-              >
-                Cancel
+        {detections ? (
+          <>
+            <div className="max-h-[60vh] overflow-y-auto">
+              <ScanReview value={detections} onChange={setDetections} />
+            </div>
+            <DialogFooter className="mt-2 gap-2">
+              <Button type="button" variant="outline" onClick={resetForm}>
+                <Undo2 className="mr-1 h-4 w-4" />
+                Scan Another
               </Button>
               <Button
-                type="submit"
-                disabled={!previewUrl || recognizeCardMutation.isPending}
+                type="button"
+                disabled={!canCreate || createCardsMutation.isPending}
+                onClick={() => createCardsMutation.mutate(accepted)}
                 className="gap-2"
               >
-                {recognizeCardMutation.isPending ? (
+                {createCardsMutation.isPending ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
                 ) : (
-                  <ImagePlus className="h-4 w-4" />
+                  <Upload className="h-4 w-4" />
                 )}
-                Identify Card
+                Add {accepted.length} {accepted.length === 1 ? 'Card' : 'Cards'}
               </Button>
             </DialogFooter>
-          </form>
-        </Form>
+          </>
+        ) : (
+          <>
+            {onCardsCreated && (
+              <Tabs value={mode} onValueChange={(value) => setMode(value as RecognitionMode)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="single">Single Card</TabsTrigger>
+                  <TabsTrigger value="batch">Multi-Card Scan</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="image"
+                  render={({ field: { onChange, value, ...fieldProps } }) => (
+                    <FormItem>
+                      <FormLabel className="text-base">{mode === 'batch' ? 'Scan' : 'Card Image'}</FormLabel>
+                      <FormControl>
+                        <>
+                          <Input
+                            type="file"
+                            accept="image/jpeg,image/png,image/gif,image/webp"
+                            onChange={handleFileChange}
+                            className={previewUrl ? 'hidden' : ''}
+                            {...fieldProps}
+                            ref={fileInputRef}
+                          />
+                          {previewUrl && (
+                            <div className="relative mt-2 rounded-lg overflow-hidden border border-border">
+                              <img
+                                src={previewUrl}
+                                alt="Card preview"
+                                className="w-full h-auto max-h-[300px] object-contain"
+                              />
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                className="absolute bottom-2 right-2 bg-background/80"
+                                onClick={() => {
+                                  resetForm();
+                                }}
+                              >
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Change
+                              </Button>
+                            </div>
+                          )}
+                          {!previewUrl && (
+                            <div
+                              className="mt-2 border-2 border-dashed border-muted-foreground/25 rounded-lg p-12 text-center cursor-pointer hover:bg-accent/50 transition-colors"
+                              onClick={() => fileInputRef.current?.click()}
+                            >
+                              <FileImage className="mx-auto h-12 w-12 text-muted-foreground" />
+                              <div className="mt-4 flex text-sm leading-6 text-muted-foreground">
+                                <label
+                                  htmlFor="file-upload"
+                                  className="relative cursor-pointer rounded-md bg-background font-semibold text-primary focus-within:outline-none focus-within:ring-2 focus-within:ring-primary"
+                                >
+                                  <span>Upload a card image</span>
+                                </label>
+                              </div>
+                              <p className="text-xs text-muted-foreground mt-2">
+                                PNG, JPG, GIF or WEBP up to 5MB
+                              </p>
+                            </div>
+                          )}
+                        </>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {recognitionError && (
+                  <Alert variant="destructive" className="mt-4">
+                    <AlertDescription>{recognitionError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <DialogFooter className="mt-6 gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      onOpenChange(false);
+                      resetForm();
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={!previewUrl || isRecognizing}
+                    className="gap-2"
+                  >
+                    {isRecognizing ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <ImagePlus className="h-4 w-4" />
+                    )}
+                    {mode === 'batch' ? 'Identify Cards' : 'Identify Card'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -31,6 +31,7 @@ export default function CsvImporter({ open, onOpenChange, onSuccess }: CsvImport
     cardNumber: "none",
     notes: "none",
     imageUrl: "none",
+    tags: "none",
   });
   const [isUploading, setIsUploading] = useState(false);
   
@@ -61,7 +62,8 @@ export default function CsvImporter({ open, onOpenChange, onSuccess }: CsvImport
         cardSet: ['set', 'card set', 'series', 'collection', 'card_set', 'features'],
         cardNumber: ['number', 'card number', 'card #', 'card_number', 'id', 'card number'],
         notes: ['card name', 'notes', 'description', 'comment', 'comments', 'team', 'league'],
-        imageUrl: ['image', 'image url', 'image_url', 'pic', 'picture', 'photo', 'pic url', 'picurl', 'image link', 'image url']
+        imageUrl: ['image', 'image url', 'image_url', 'pic', 'picture', 'photo', 'pic url', 'picurl', 'image link', 'image url'],
+        tags: ['tags', 'tag', 'labels', 'label']
       };
       
       // Try to map headers automatically
@@ -211,6 +213,7 @@ export default function CsvImporter({ open, onOpenChange, onSuccess }: CsvImport
         cardNumber: "none",
         notes: "none",
         imageUrl: "none",
+        tags: "none",
       });
       
       // Count successful imports
@@ -456,6 +459,24 @@ export default function CsvImporter({ open, onOpenChange, onSuccess }: CsvImport
                 </SelectContent>
               </Select>
             </div>
+            
+            <div className="mt-4">
+              <Label htmlFor="tags-mapping">Tags (optional, separated by semicolons)</Label>
+              <Select 
+                value={columnMapping.tags} 
+                onValueChange={(value) => handleColumnMappingChange('tags', value)}
+              >
+                <SelectTrigger id="tags-mapping">
+                  <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">-- Select column --</SelectItem>
+                  {fileHeaders.map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           
           <div className="mt-6 flex justify-end space-x-2">
@@ -19,13 +19,16 @@ interface DeleteConfirmDialogProps {
   onOpenChange: (open: boolean) => void;
   card: Card | null;
   onSuccess: () => void;
+  // Offered instead of deleting, so a sold card stays in the sales reports
+  onMarkSold?: () => void;
 }
 
 export default function DeleteConfirmDialog({ 
   open, 
   onOpenChange, 
   card, 
-  onSuccess 
+  onSuccess,
+  onMarkSold
 }: DeleteConfirmDialogProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   
@@ -77,6 +80,17 @@ export default function DeleteConfirmDialog({
           <AlertDialogCancel asChild>
             <Button variant="outline">Cancel</Button>
           </AlertDialogCancel>
+          {onMarkSold && !card.sale && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                onOpenChange(false);
+                onMarkSold();
+              }}
+            >
+              Mark as Sold Instead
+            </Button>
+          )}
           <AlertDialogAction asChild>
             <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
               {isDeleting ? "Deleting..." : "Delete"}
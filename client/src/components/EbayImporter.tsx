@@ -3,6 +3,7 @@ import { parse } from "csv-parse/browser/esm";
 import { Check, AlertTriangle, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Card } from "@shared/schema";
+import { imagesFromUrlList } from "@shared/cardImages";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { queryClient } from "@/lib/queryClient";
@@ -99,30 +100,20 @@ export default function EbayImporter({ open, onOpenChange, onSuccess }: EbayImpo
     return title;
   };
   
-  const extractImageUrl = (text: string): string | undefined => {
-    // First, try to find URLs with 'oortstorages.com' in PicURL field
-    if (text && text.includes("oortstorages.com")) {
-      const urls = text.split("|").map(url => url.trim());
-      return urls[0]; // Return the first URL
+  // Every photo of the listing: the "|"-separated PicURL field, else the
+  // images embedded in the description
+  const extractImageUrls = (picUrl: string, description: string): string[] => {
+    if (picUrl && picUrl.trim()) {
+      return picUrl.split("|").map(url => url.trim()).filter(Boolean);
     }
     
-    // If no URLs found, check Description field for image links
-    if (text && text.includes("<img src=")) {
-      const regex = /<img src="([^"]+)"/g;
-      const matches: RegExpExecArray[] = [];
-      let match;
-      while ((match = regex.exec(text)) !== null) {
-        matches.push(match);
-      }
-      
-      for (const match of matches) {
-        if (match[1] && match[1].includes("oortstorages.com")) {
-          return match[1];
-        }
-      }
+    const urls: string[] = [];
+    const regex = /<img src="([^"]+)"/g;
+    let match;
+    while (description && (match = regex.exec(description)) !== null) {
+      urls.push(match[1]);
     }
-    
-    return undefined;
+    return urls;
   };
 
   const normalizeCondition = (condition: string): string => {
@@ -233,7 +224,7 @@ export default function EbayImporter({ open, onOpenChange, onSuccess }: EbayImpo
               purchasePrice: extractPrice(row.Description),
               currentValue: 0, // To be updated later with eBay API
               notes: cleanupNotes(row["C:Features"] || row["C:Card Name"] || row.Subtitle || ""),
-              imageUrl: extractImageUrl(row.PicURL || row.Description),
+              images: imagesFromUrlList(extractImageUrls(row.PicURL, row.Description).join("|")),
               team: row["C:Team"] || ""
             };
             
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@shared/schema";
+import { cardCostBasis } from "@shared/costBasis";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPrice } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+interface MarkSoldDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  card: Card | null;
+  onSuccess: () => void;
+}
+
+// Amounts typed into the form; blank counts as zero
+function toAmount(value: string): number {
+  return value.trim() === "" ? 0 : Number(value);
+}
+
+export default function MarkSoldDialog({ open, onOpenChange, card, onSuccess }: MarkSoldDialogProps) {
+  const { toast } = useToast();
+  const [salePrice, setSalePrice] = useState("");
+  const [soldAt, setSoldAt] = useState("");
+  const [venue, setVenue] = useState("");
+  const [fees, setFees] = useState("");
+  const [shippingCost, setShippingCost] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the card's market value and today's date
+  useEffect(() => {
+    if (open && card) {
+      setSalePrice(card.currentValue ? String(card.currentValue) : "");
+      setSoldAt(format(new Date(), "yyyy-MM-dd"));
+      setVenue("");
+      setFees("");
+      setShippingCost("");
+      setNotes("");
+    }
+  }, [open, card]);
+
+  const amounts = [salePrice, fees, shippingCost].map(toAmount);
+  const amountsValid = salePrice.trim() !== "" && amounts.every(amount => Number.isFinite(amount) && amount >= 0);
+  const netProceeds = amounts[0] - amounts[1] - amounts[2];
+  const costBasis = card ? cardCostBasis(card) : 0;
+  const realizedGain = netProceeds - costBasis;
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!card) return;
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", `/api/cards/${card.id}/sale`, {
+        salePrice: amounts[0],
+        fees: amounts[1],
+        shippingCost: amounts[2],
+        soldAt,
+        venue,
+        notes,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      toast({
+        title: "Card sold",
+        description: `${card.playerName} moved out of your active inventory`,
+      });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error("Error recording sale:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record the sale. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!card) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[480px]">
+        <form onSubmit={handleSave}>
+          <DialogHeader>
+            <DialogTitle>Mark as Sold</DialogTitle>
+            <DialogDescription>
+              {card.year} {card.brand} {card.playerName}. The card leaves your active inventory but its
+              record and history stay.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="sale-price" className="text-sm font-medium text-gray-700 mb-1 block">Sale price</label>
+              <Input
+                id="sale-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={salePrice}
+                onChange={(e) => setSalePrice(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label htmlFor="sale-date" className="text-sm font-medium text-gray-700 mb-1 block">Date sold</label>
+              <Input id="sale-date" type="date" value={soldAt} onChange={(e) => setSoldAt(e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="sale-fees" className="text-sm font-medium text-gray-700 mb-1 block">Fees</label>
+              <Input
+                id="sale-fees"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={fees}
+                onChange={(e) => setFees(e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="sale-shipping" className="text-sm font-medium text-gray-700 mb-1 block">Shipping</label>
+              <Input
+                id="sale-shipping"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={shippingCost}
+                onChange={(e) => setShippingCost(e.target.value)}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="sale-venue" className="text-sm font-medium text-gray-700 mb-1 block">Venue</label>
+              <Input
+                id="sale-venue"
+                placeholder="e.g. eBay, card show"
+                value={venue}
+                onChange={(e) => setVenue(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="sale-notes" className="text-sm font-medium text-gray-700 mb-1 block">Notes</label>
+              <Textarea id="sale-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} />
+            </div>
+            {amountsValid && (
+              <div className="col-span-2 text-sm text-gray-600">
+                Net proceeds {formatPrice(netProceeds)} against a cost of {formatPrice(costBasis)}:{" "}
+                <span className={realizedGain >= 0 ? "text-green-600 font-medium" : "text-red-600 font-medium"}>
+                  {realizedGain >= 0 ? "+" : ""}{formatPrice(realizedGain)}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !amountsValid || !soldAt}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark as Sold
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { locationChoices } from "@shared/locations";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateStorageLocations, useStorageLocations } from "@/hooks/use-locations";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+interface MoveCardsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cardIds: number[]; // in slot order, which renumbering keeps
+  currentLocationId?: number;
+  onSuccess: () => void;
+}
+
+export default function MoveCardsDialog({ open, onOpenChange, cardIds, currentLocationId, onSuccess }: MoveCardsDialogProps) {
+  const { toast } = useToast();
+  const { data: locations = [] } = useStorageLocations();
+  const [destination, setDestination] = useState("");
+  const [renumber, setRenumber] = useState(false);
+  const [startSlot, setStartSlot] = useState("1");
+  const [isMoving, setIsMoving] = useState(false);
+
+  const choices = locationChoices(locations).filter(choice => choice.id !== currentLocationId);
+  // Cards taken out of storage lose their slots anyway
+  const renumbering = renumber && destination !== "none";
+  const slotValid = !renumbering || /^[1-9]\d*$/.test(startSlot);
+
+  const handleMove = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsMoving(true);
+    try {
+      const response = await apiRequest("POST", "/api/cards/move", {
+        cardIds,
+        locationId: destination === "none" ? null : Number(destination),
+        startSlot: renumbering ? Number(startSlot) : undefined,
+      });
+      const { count } = await response.json();
+
+      invalidateStorageLocations();
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      toast({
+        title: "Cards moved",
+        description: `Moved ${count} ${count === 1 ? "card" : "cards"}`,
+      });
+      setDestination("");
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error("Error moving cards:", error);
+      toast({
+        title: "Error",
+        description: "Failed to move the cards. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[420px]">
+        <form onSubmit={handleMove}>
+          <DialogHeader>
+            <DialogTitle>Move {cardIds.length} {cardIds.length === 1 ? "Card" : "Cards"}</DialogTitle>
+            <DialogDescription>
+              Rehouse the cards in another location. They keep their order.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-1 block">Move to</label>
+              <Select value={destination} onValueChange={setDestination}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not in storage</SelectItem>
+                  {choices.map(choice => (
+                    <SelectItem key={choice.id} value={String(choice.id)}>
+                      {choice.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={renumber}
+                onCheckedChange={(checked) => setRenumber(checked === true)}
+                disabled={destination === "none"}
+              />
+              <span>Renumber slots starting from</span>
+              <Input
+                className="w-20 h-8"
+                inputMode="numeric"
+                value={startSlot}
+                onChange={(e) => setStartSlot(e.target.value)}
+                disabled={!renumbering}
+              />
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isMoving || !destination || !slotValid}>
+              {isMoving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { CardFilters } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAllCards } from "@/hooks/use-card-pages";
+import { usePortfolios } from "@/hooks/use-portfolios";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+interface MovePortfolioDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Every card matching these filters is moved
+  filters: CardFilters;
+  cardCount: number;
+  onSuccess: () => void;
+}
+
+export default function MovePortfolioDialog({ open, onOpenChange, filters, cardCount, onSuccess }: MovePortfolioDialogProps) {
+  const { toast } = useToast();
+  const { data: portfolios = [] } = usePortfolios();
+  const [destination, setDestination] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
+
+  const handleMove = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsMoving(true);
+    try {
+      // Only some pages are loaded, so fetch every matching card
+      const cards = await fetchAllCards(filters);
+      const response = await apiRequest("POST", "/api/cards/portfolio", {
+        cardIds: cards.map(card => card.id),
+        portfolioId: destination === "none" ? null : Number(destination),
+      });
+      const { count } = await response.json();
+
+      toast({
+        title: "Cards moved",
+        description: `Moved ${count} ${count === 1 ? "card" : "cards"}. Their value history moved with them.`,
+      });
+      setDestination("");
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error("Error moving cards between portfolios:", error);
+      toast({
+        title: "Error",
+        description: "Failed to move the cards. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[420px]">
+        <form onSubmit={handleMove}>
+          <DialogHeader>
+            <DialogTitle>Move to Portfolio</DialogTitle>
+            <DialogDescription>
+              Move the {cardCount} {cardCount === 1 ? "card" : "cards"} matching the current search and filters.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <label className="text-sm font-medium text-gray-700 mb-1 block">Portfolio</label>
+            <Select value={destination} onValueChange={setDestination}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a portfolio" />
+              </SelectTrigger>
+              <SelectContent>
+                {portfolios.map(portfolio => (
+                  <SelectItem
+                    key={portfolio.id}
+                    value={String(portfolio.id)}
+                    disabled={filters.portfolio === String(portfolio.id)}
+                  >
+                    {portfolio.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value="none" disabled={filters.portfolio === "none"}>Not in a portfolio</SelectItem>
+              </SelectContent>
+            </Select>
+            {portfolios.length === 0 && (
+              <p className="text-sm text-gray-500 mt-2">Create a portfolio from the sidebar first.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isMoving || !destination || cardCount === 0}>
+              {isMoving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
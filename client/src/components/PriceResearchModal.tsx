@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Card } from "@shared/schema";
+import { Card, CompListing, PriceAnalysis, PriceEstimate, priceEstimateOptions } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -15,46 +15,34 @@ import {
   Loader2, 
   DollarSign, 
   BarChart3,
-  ArrowDownUp
+  ArrowDownUp,
+  RefreshCw
 } from "lucide-react";
 import { formatPrice } from "@/lib/utils";
+import { queryClient } from "@/lib/queryClient";
 import SuccessAnimation from "./SuccessAnimation";
+import ValuationHistoryChart from "./ValuationHistoryChart";
 
 interface PriceResearchModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   card: Card | null;
-}
-
-// Define interfaces for the eBay price data
-interface EbaySoldItem {
-  title: string;
-  price: number;
-  date: string;
-  link: string;
-  imageUrl?: string;
-}
-
-interface PriceAnalysis {
-  items: EbaySoldItem[];
-  averagePrice: number;
-  minPrice: number;
-  maxPrice: number;
-  medianPrice: number;
-  totalResults: number;
-  searchQuery: string;
+  // Where to go once the market value is updated; the dashboard by default
+  redirectTo?: string;
 }
 
 export default function PriceResearchModal({ 
   open, 
   onOpenChange, 
-  card 
+  card,
+  redirectTo = "/"
 }: PriceResearchModalProps) {
   const [showAutoPrice, setShowAutoPrice] = useState(false);
   const [priceData, setPriceData] = useState<PriceAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
+  const [estimate, setEstimate] = useState<PriceEstimate>("filteredAveragePrice");
   
   // Generate a search query based on the card details
   const generateSearchQuery = () => {
@@ -165,15 +153,15 @@ export default function PriceResearchModal({
     window.open(`https://www.ebay.com/sch/i.html?_nkw=${encodedQuery}&_sacat=0&LH_Complete=1&LH_Sold=1`, '_blank');
   };
   
-  // Fetch price data from our API
-  const fetchPriceData = async () => {
+  // Fetch price data from our API; refresh skips the server's price cache
+  const fetchPriceData = async (refresh = false) => {
     if (!card?.id) return;
     
     try {
       setIsLoading(true);
       setError(null);
       
-      const response = await fetch(`/api/cards/${card.id}/price`);
+      const response = await fetch(`/api/cards/${card.id}/price${refresh ? "?refresh=true" : ""}`);
       
       if (!response.ok) {
         throw new Error(`Failed to fetch price data: ${response.status}`);
@@ -197,9 +185,11 @@ export default function PriceResearchModal({
     }
   };
   
-  // Update card with average price
+  const selectedPrice = priceData ? priceData[estimate] : 0;
+  
+  // Update card with the selected estimate
   const updateCardValue = async () => {
-    if (!card?.id || !priceData?.averagePrice) return;
+    if (!card?.id || !priceData || !selectedPrice) return;
     
     try {
       // Make the request to update only the currentValue field
@@ -209,9 +199,23 @@ export default function PriceResearchModal({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          currentValue: priceData.averagePrice,
+          currentValue: selectedPrice,
           // Do not touch the purchase price
-          purchasePrice: card.purchasePrice
+          purchasePrice: card.purchasePrice,
+          // Record the research behind the new value in the card's history
+          valuation: {
+            source: "price-service",
+            stats: {
+              averagePrice: priceData.averagePrice,
+              minPrice: priceData.minPrice,
+              maxPrice: priceData.maxPrice,
+              medianPrice: priceData.medianPrice,
+              totalResults: priceData.totalResults,
+              searchQuery: priceData.searchQuery,
+              estimate,
+              confidence: priceData.confidence,
+            },
+          },
         })
       });
       
@@ -219,6 +223,8 @@ export default function PriceResearchModal({
         throw new Error(`Failed to update card: ${response.status}`);
       }
       
+      queryClient.invalidateQueries({ queryKey: [`/api/cards/${card.id}/valuations`] });
+      
       // Show success animation and redirect to dashboard
       setShowSuccessAnimation(true);
       onOpenChange(false); // Close the modal
@@ -231,8 +237,8 @@ export default function PriceResearchModal({
   if (showSuccessAnimation) {
     return (
       <SuccessAnimation 
-        message={`Market value updated to ${formatPrice(priceData?.averagePrice || 0)}!`}
-        redirectTo="/" 
+        message={`Market value updated to ${formatPrice(selectedPrice)}!`}
+        redirectTo={redirectTo}
       />
     );
   }
@@ -254,7 +260,14 @@ export default function PriceResearchModal({
           </div>
           
           {!showAutoPrice ? (
-            <div className="space-y-4">            
+            <div className="space-y-4">
+              {card && (
+                <div className="border rounded-md p-4">
+                  <h4 className="font-medium text-gray-900 mb-2">Value History</h4>
+                  <ValuationHistoryChart cardId={card.id} />
+                </div>
+              )}
+              
               <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
                 <h4 className="font-medium text-yellow-800 flex items-center gap-2 mb-2">
                   <Search className="h-4 w-4" />
@@ -288,7 +301,12 @@ export default function PriceResearchModal({
                 <div className="flex justify-between items-center mb-2">
                   <h4 className="font-medium text-yellow-800 flex items-center gap-2">
                     <BarChart3 className="h-4 w-4" />
-                    eBay Price Analysis
+                    Price Analysis
+                    {priceData && (
+                      <span className="text-xs font-normal text-yellow-700">
+                        via {priceData.provider}
+                      </span>
+                    )}
                   </h4>
                   <Button 
                     variant="ghost" 
@@ -303,7 +321,7 @@ export default function PriceResearchModal({
                   <div className="py-8 flex flex-col items-center justify-center">
                     <Loader2 className="h-8 w-8 animate-spin text-yellow-600 mb-3" />
                     <p className="text-sm text-yellow-700">
-                      Analyzing recent eBay sales data...
+                      Analyzing recent sales data...
                     </p>
                     <p className="text-xs text-yellow-600 mt-1">
                       This may take up to 30 seconds
@@ -317,26 +335,62 @@ export default function PriceResearchModal({
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={fetchPriceData}
+                      onClick={() => fetchPriceData()}
                     >
                       Try Again
                     </Button>
                   </div>
                 ) : priceData && priceData.items && priceData.items.length > 0 ? (
                   <>
-                    <div className="grid grid-cols-2 gap-3 mb-4">
-                      <div className="bg-white rounded-md p-3 border border-yellow-100">
-                        <div className="text-xs text-yellow-700 mb-1">Average Price</div>
-                        <div className="text-lg font-semibold text-yellow-900">
-                          {formatPrice(priceData.averagePrice)}
-                        </div>
+                    {priceData.simulated && (
+                      <div className="bg-orange-100 border border-orange-300 text-orange-800 text-xs rounded-md p-2 mb-3">
+                        <strong>Simulated data.</strong> These sales are generated for demonstration
+                        and are not real market prices. Check eBay sold listings before relying on them.
                       </div>
-                      <div className="bg-white rounded-md p-3 border border-yellow-100">
-                        <div className="text-xs text-yellow-700 mb-1">Median Price</div>
-                        <div className="text-lg font-semibold text-yellow-900">
-                          {formatPrice(priceData.medianPrice)}
-                        </div>
+                    )}
+                    {priceData.cache && (
+                      <div className="flex justify-between items-center text-xs text-yellow-700 mb-3">
+                        <span>
+                          {priceData.cache.hit
+                            ? `Cached sales from ${formatAge(priceData.cache.ageSeconds)}${priceData.cache.stale ? " (refresh failed, may be outdated)" : ""}`
+                            : "Fresh sales data"}
+                        </span>
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => fetchPriceData(true)}>
+                          <RefreshCw className="mr-1 h-3 w-3" />
+                          Refresh
+                        </Button>
                       </div>
+                    )}
+                    <div className="flex justify-between items-center mb-2">
+                      <h5 className="text-sm font-medium text-yellow-800">Choose an estimate</h5>
+                      <ConfidenceBadge confidence={priceData.confidence} />
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-3">
+                      {priceEstimateOptions.map(option => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setEstimate(option.value)}
+                          className={`text-left rounded-md p-3 border ${
+                            estimate === option.value
+                              ? "bg-yellow-100 border-yellow-500"
+                              : "bg-white border-yellow-100 hover:border-yellow-300"
+                          }`}
+                        >
+                          <div className="text-xs text-yellow-700 mb-1">{option.label}</div>
+                          <div className="text-lg font-semibold text-yellow-900">
+                            {formatPrice(priceData[option.value])}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                    {priceData.outlierCount > 0 && (
+                      <p className="text-xs text-yellow-700 mb-3">
+                        {priceData.outlierCount} outlier {priceData.outlierCount === 1 ? "sale was" : "sales were"} left
+                        out of the outlier-free and recency-weighted estimates.
+                      </p>
+                    )}
+                    <div className="grid grid-cols-2 gap-3 mb-4">
                       <div className="bg-white rounded-md p-3 border border-yellow-100">
                         <div className="text-xs text-yellow-700 mb-1">Lowest Price</div>
                         <div className="text-base font-medium text-yellow-900">
@@ -353,7 +407,7 @@ export default function PriceResearchModal({
                     
                     <div className="mb-4">
                       <h5 className="text-sm font-medium mb-2 text-yellow-800">
-                        Recent Sales ({priceData.totalResults} found)
+                        {priceData.comps ? "Comparable Sales" : "Recent Sales"} ({priceData.totalResults} found)
                       </h5>
                       <div className="max-h-[200px] overflow-y-auto border border-yellow-100 rounded-md divide-y divide-yellow-100">
                         {priceData.items.map((item, i) => (
@@ -366,34 +420,43 @@ export default function PriceResearchModal({
                             </div>
                             <div className="flex justify-between mt-1 text-xs text-yellow-600">
                               <div>{item.date}</div>
-                              <a 
-                                href={item.link} 
-                                target="_blank" 
-                                rel="noopener noreferrer"
-                                className="text-blue-600 hover:underline flex items-center"
-                              >
-                                View <ExternalLink className="h-3 w-3 ml-1" />
-                              </a>
+                              {item.link && (
+                                <a 
+                                  href={item.link} 
+                                  target="_blank" 
+                                  rel="noopener noreferrer"
+                                  className="text-blue-600 hover:underline flex items-center"
+                                >
+                                  View <ExternalLink className="h-3 w-3 ml-1" />
+                                </a>
+                              )}
                             </div>
                           </div>
                         ))}
                       </div>
                     </div>
                     
+                    <ExcludedCompsList comps={priceData.comps} />
+                    
                     <Button 
                       onClick={updateCardValue}
                       className="w-full"
                       variant="default"
                     >
                       <DollarSign className="mr-2 h-4 w-4" />
-                      Update Market Value to {formatPrice(priceData.averagePrice)}
+                      Update Market Value to {formatPrice(selectedPrice)}
                     </Button>
                   </>
                 ) : (
                   <div className="py-6 text-center">
                     <p className="text-sm text-yellow-700 mb-3">
-                      No price data found for this card.
+                      {priceData?.comps?.length
+                        ? "Sales were found, but none matched this card's condition."
+                        : "No price data found for this card."}
                     </p>
+                    <div className="text-left">
+                      <ExcludedCompsList comps={priceData?.comps} />
+                    </div>
                     <Button
                       onClick={openEbaySearch}
                       variant="outline"
@@ -418,4 +481,56 @@ export default function PriceResearchModal({
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
+
+// "just now", "5 minutes ago", "3 hours ago", "2 days ago"
+function formatAge(seconds: number) {
+  if (seconds < 60) return "just now";
+  
+  const [value, unit] =
+    seconds < 3600 ? [Math.floor(seconds / 60), "minute"] :
+    seconds < 86400 ? [Math.floor(seconds / 3600), "hour"] :
+    [Math.floor(seconds / 86400), "day"];
+  
+  return `${value} ${unit}${value === 1 ? "" : "s"} ago`;
+}
+
+// How far to trust the estimates, from sample size and price spread
+function ConfidenceBadge({ confidence }: { confidence: number }) {
+  const [label, className] =
+    confidence >= 0.7 ? ["High", "bg-green-100 text-green-800"] :
+    confidence >= 0.4 ? ["Medium", "bg-yellow-200 text-yellow-900"] :
+    ["Low", "bg-red-100 text-red-800"];
+  
+  return (
+    <span className={`text-xs font-medium rounded-full px-2 py-0.5 ${className}`}>
+      {label} confidence ({Math.round(confidence * 100)}%)
+    </span>
+  );
+}
+
+// Listings the comps engine dropped, with the reason for each
+function ExcludedCompsList({ comps }: { comps?: CompListing[] }) {
+  const excluded = comps?.filter(comp => !comp.included) ?? [];
+  
+  if (excluded.length === 0) return null;
+  
+  return (
+    <details className="mb-4">
+      <summary className="text-sm font-medium text-yellow-800 cursor-pointer">
+        Excluded listings ({excluded.length})
+      </summary>
+      <div className="mt-2 max-h-[160px] overflow-y-auto border border-yellow-100 rounded-md divide-y divide-yellow-100">
+        {excluded.map((comp, i) => (
+          <div key={i} className="p-2 text-sm">
+            <div className="flex justify-between">
+              <div className="line-clamp-1 text-gray-500 line-through">{comp.title}</div>
+              <div className="text-gray-500 whitespace-nowrap ml-2">{formatPrice(comp.price)}</div>
+            </div>
+            <div className="text-xs text-red-600 mt-1">{comp.reason}</div>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { RealizedSale } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useRealizedGains } from "@/hooks/use-sales";
+import { apiRequest } from "@/lib/queryClient";
+import { formatPrice } from "@/lib/utils";
+import { Undo2Icon } from "lucide-react";
+
+interface RealizedGainsReportProps {
+  portfolio: string; // picked in the sidebar
+  // Called after a sale is undone and the card is back in the collection
+  onChange: () => void;
+}
+
+function gainClass(amount: number): string {
+  return amount >= 0 ? "text-green-600" : "text-red-600";
+}
+
+function formatGain(amount: number): string {
+  return `${amount >= 0 ? "+" : ""}${formatPrice(amount)}`;
+}
+
+// Profit and loss locked in by sales, alongside the unrealized figures for cards still held
+export default function RealizedGainsReport({ portfolio, onChange }: RealizedGainsReportProps) {
+  const { toast } = useToast();
+  const { data: report, refetch } = useRealizedGains(portfolio);
+  const [undoingId, setUndoingId] = useState<number | null>(null);
+
+  const handleUndo = async (sale: RealizedSale) => {
+    setUndoingId(sale.id);
+    try {
+      await apiRequest("DELETE", `/api/cards/${sale.cardId}/sale`);
+      toast({
+        title: "Sale undone",
+        description: `${sale.card.playerName} is back in your collection`,
+      });
+      refetch();
+      onChange();
+    } catch (error) {
+      console.error("Error undoing sale:", error);
+      toast({
+        title: "Error",
+        description: "Failed to undo the sale. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  if (!report || report.totals.count === 0) return null;
+
+  const { sales, totals } = report;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6">
+      <h3 className="text-sm font-medium text-gray-500 mb-3">Realized Gains</h3>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        <div>
+          <span className="text-xs text-gray-500">Cards sold</span>
+          <p className="text-xl font-bold text-gray-900">{totals.count}</p>
+        </div>
+        <div>
+          <span className="text-xs text-gray-500">Net proceeds</span>
+          <p className="text-xl font-bold text-gray-900">{formatPrice(totals.netProceeds)}</p>
+          <span className="text-xs text-gray-500">
+            after {formatPrice(totals.fees + totals.shippingCost)} fees and shipping
+          </span>
+        </div>
+        <div>
+          <span className="text-xs text-gray-500">Cost basis</span>
+          <p className="text-xl font-bold text-blue-600">{formatPrice(totals.costBasis)}</p>
+        </div>
+        <div>
+          <span className="text-xs text-gray-500">Realized P/L</span>
+          <p className={`text-xl font-bold ${gainClass(totals.realizedGain)}`}>{formatGain(totals.realizedGain)}</p>
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Card</TableHead>
+              <TableHead>Sold</TableHead>
+              <TableHead>Venue</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Fees + shipping</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">P/L</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sales.map(sale => (
+              <TableRow key={sale.id}>
+                <TableCell>
+                  <Link href={`/cards/${sale.cardId}`} className="font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                    {sale.card.playerName}
+                  </Link>
+                  <div className="text-xs text-gray-500">{sale.card.year} {sale.card.brand} {sale.card.cardSet}</div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{sale.soldAt}</TableCell>
+                <TableCell>{sale.venue}</TableCell>
+                <TableCell className="text-right">{formatPrice(sale.salePrice)}</TableCell>
+                <TableCell className="text-right">{formatPrice(sale.fees + sale.shippingCost)}</TableCell>
+                <TableCell className="text-right">{formatPrice(sale.costBasis)}</TableCell>
+                <TableCell className={`text-right font-medium ${gainClass(sale.realizedGain)}`}>
+                  {formatGain(sale.realizedGain)}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleUndo(sale)}
+                    disabled={undoingId === sale.id}
+                    title="Undo sale"
+                    aria-label="Undo sale"
+                  >
+                    <Undo2Icon className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
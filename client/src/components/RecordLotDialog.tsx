@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { acquisitionSources, CardFilters, LotAllocationMethod } from "@shared/schema";
+import { acquisitionSourceLabels } from "@shared/costBasis";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAllCards } from "@/hooks/use-card-pages";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+interface RecordLotDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Every card matching these filters goes in the lot
+  filters: CardFilters;
+  cardCount: number;
+  onSuccess: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  purchaseDate: "",
+  source: "none",
+  seller: "",
+  totalPrice: "",
+  fees: "",
+  shipping: "",
+  tax: "",
+  allocation: "value" as LotAllocationMethod,
+};
+
+// Amounts typed into the form; blank counts as zero
+function toAmount(value: string): number {
+  return value.trim() === "" ? 0 : Number(value);
+}
+
+export default function RecordLotDialog({ open, onOpenChange, filters, cardCount, onSuccess }: RecordLotDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setField = (field: keyof typeof emptyForm, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const amounts = [form.totalPrice, form.fees, form.shipping, form.tax].map(toAmount);
+  const valid = form.name.trim() !== "" && form.totalPrice.trim() !== "" &&
+    amounts.every(amount => Number.isFinite(amount) && amount >= 0);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      // Only some pages are loaded, so fetch every matching card
+      const cards = await fetchAllCards(filters);
+      await apiRequest("POST", "/api/lots", {
+        name: form.name,
+        purchaseDate: form.purchaseDate || null,
+        source: form.source !== "none" ? form.source : null,
+        seller: form.seller,
+        totalPrice: amounts[0],
+        fees: amounts[1],
+        shipping: amounts[2],
+        tax: amounts[3],
+        allocation: form.allocation,
+        cardIds: cards.map(card => card.id),
+      });
+
+      toast({
+        title: "Lot recorded",
+        description: `Its cost was spread over ${cards.length} ${cards.length === 1 ? "card" : "cards"}`,
+      });
+      setForm(emptyForm);
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error("Error recording lot:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record the lot. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[520px]">
+        <form onSubmit={handleSave}>
+          <DialogHeader>
+            <DialogTitle>Record Lot Purchase</DialogTitle>
+            <DialogDescription>
+              Spread one purchase over the {cardCount} {cardCount === 1 ? "card" : "cards"} matching the current
+              search and filters. Their purchase price, fees, shipping and tax are replaced by their share.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label htmlFor="lot-name" className="text-sm font-medium text-gray-700 mb-1 block">Name</label>
+              <Input
+                id="lot-name"
+                placeholder="e.g. 2024 Prizm hobby box break"
+                value={form.name}
+                onChange={(e) => setField("name", e.target.value)}
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <div>
+              <label htmlFor="lot-price" className="text-sm font-medium text-gray-700 mb-1 block">Total price</label>
+              <Input
+                id="lot-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.totalPrice}
+                onChange={(e) => setField("totalPrice", e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="lot-date" className="text-sm font-medium text-gray-700 mb-1 block">Purchase date</label>
+              <Input id="lot-date" type="date" value={form.purchaseDate} onChange={(e) => setField("purchaseDate", e.target.value)} />
+            </div>
+            <div>
+              <label htmlFor="lot-fees" className="text-sm font-medium text-gray-700 mb-1 block">Fees</label>
+              <Input
+                id="lot-fees"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={form.fees}
+                onChange={(e) => setField("fees", e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="lot-shipping" className="text-sm font-medium text-gray-700 mb-1 block">Shipping</label>
+              <Input
+                id="lot-shipping"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={form.shipping}
+                onChange={(e) => setField("shipping", e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="lot-tax" className="text-sm font-medium text-gray-700 mb-1 block">Sales tax</label>
+              <Input
+                id="lot-tax"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={form.tax}
+                onChange={(e) => setField("tax", e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-1 block">Source</label>
+              <Select value={form.source} onValueChange={(value) => setField("source", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unknown</SelectItem>
+                  {acquisitionSources.map(source => (
+                    <SelectItem key={source} value={source}>{acquisitionSourceLabels[source]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label htmlFor="lot-seller" className="text-sm font-medium text-gray-700 mb-1 block">Seller</label>
+              <Input id="lot-seller" value={form.seller} onChange={(e) => setField("seller", e.target.value)} maxLength={100} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-1 block">Split the cost</label>
+              <Select value={form.allocation} onValueChange={(value) => setField("allocation", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="value">By current value</SelectItem>
+                  <SelectItem value="even">Evenly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !valid || cardCount === 0}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Lot
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
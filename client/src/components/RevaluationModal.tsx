@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  PriceEstimate,
+  RevaluationJob,
+  RevaluationOptions,
+  RevaluationReport,
+  RevaluationResult,
+  priceEstimateOptions,
+} from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { formatPrice } from "@/lib/utils";
+import { Loader2, RefreshCw } from "lucide-react";
+
+interface RevaluationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Cards matching these filters are revalued; empty means the whole collection
+  filters: RevaluationOptions["filters"];
+  cardCount: number;
+  onComplete: () => void;
+}
+
+const confidenceOptions = [
+  { label: "Any confidence", value: "0" },
+  { label: "Low (30%+)", value: "0.3" },
+  { label: "Medium (50%+)", value: "0.5" },
+  { label: "High (70%+)", value: "0.7" },
+];
+
+const statusStyles: Record<string, string> = {
+  updated: "text-green-700",
+  unchanged: "text-gray-500",
+  skipped: "text-yellow-700",
+  failed: "text-red-600",
+};
+
+function isActive(job?: RevaluationJob) {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+export default function RevaluationModal({
+  open,
+  onOpenChange,
+  filters,
+  cardCount,
+  onComplete,
+}: RevaluationModalProps) {
+  const { toast } = useToast();
+  const [estimate, setEstimate] = useState<PriceEstimate>("filteredAveragePrice");
+  const [minConfidence, setMinConfidence] = useState("0.5");
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Poll the job until it finishes
+  const { data: report } = useQuery<RevaluationReport>({
+    queryKey: [`/api/revaluations/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => (!query.state.data || isActive(query.state.data) ? 1000 : false),
+  });
+
+  // Let the page reload its cards once the new values are in
+  const finished = !!report && !isActive(report);
+  useEffect(() => {
+    if (finished) onComplete();
+  }, [finished]);
+
+  const startRevaluation = async () => {
+    setIsStarting(true);
+    try {
+      const response = await fetch("/api/revaluations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filters, estimate, minConfidence: Number(minConfidence) }),
+      });
+      const body = await response.json();
+
+      // Already running: follow the job in progress instead
+      if (response.status === 409 && body.job) {
+        setJobId(body.job.id);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(body.message || `Failed to start revaluation: ${response.status}`);
+      }
+
+      setJobId(body.id);
+    } catch (error) {
+      console.error("Error starting revaluation:", error);
+      toast({
+        title: "Error",
+        description: "Failed to start the revaluation. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // A finished report is cleared on close; a running job keeps going on the server
+    if (!nextOpen && !isActive(report)) {
+      setJobId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/revaluations"] });
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const progress = report && report.totalCards > 0
+    ? (report.processedCards / report.totalCards) * 100
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-[700px] p-6">
+        <DialogHeader>
+          <DialogTitle>Revalue Collection</DialogTitle>
+          <DialogDescription>
+            Price every card in the current view ({cardCount} {cardCount === 1 ? "card" : "cards"}) against
+            recent sales and update the market values that can be trusted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {jobId === null ? (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 block">Estimate</label>
+                <Select value={estimate} onValueChange={(value) => setEstimate(value as PriceEstimate)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {priceEstimateOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-1 block">Minimum confidence</label>
+                <Select value={minConfidence} onValueChange={setMinConfidence}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {confidenceOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Cards whose price analysis falls below the minimum confidence keep their current value.
+            </p>
+          </div>
+        ) : !report ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div>
+              <div className="flex justify-between text-sm mb-2">
+                <span className="font-medium capitalize">{report.status}</span>
+                <span className="text-gray-500">
+                  {report.processedCards} of {report.totalCards} cards
+                </span>
+              </div>
+              <Progress value={progress} />
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 text-center text-sm">
+              <div className="bg-green-50 rounded-md p-2">
+                <div className="text-lg font-semibold text-green-700">{report.updatedCards}</div>
+                Updated
+              </div>
+              <div className="bg-gray-50 rounded-md p-2">
+                <div className="text-lg font-semibold text-gray-700">{report.unchangedCards}</div>
+                Unchanged
+              </div>
+              <div className="bg-yellow-50 rounded-md p-2">
+                <div className="text-lg font-semibold text-yellow-700">{report.skippedCards}</div>
+                Skipped
+              </div>
+              <div className="bg-red-50 rounded-md p-2">
+                <div className="text-lg font-semibold text-red-600">{report.failedCards}</div>
+                Failed
+              </div>
+            </div>
+
+            {report.error && (
+              <p className="text-sm text-red-600">{report.error}</p>
+            )}
+
+            {report.results.length > 0 && (
+              <div className="max-h-[280px] overflow-y-auto border rounded-md divide-y">
+                {report.results.map((result) => (
+                  <RevaluationResultRow key={result.id} result={result} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {jobId === null ? (
+            <Button onClick={startRevaluation} disabled={isStarting || cardCount === 0}>
+              {isStarting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Start Revaluation
+            </Button>
+          ) : (
+            <Button onClick={() => handleOpenChange(false)}>
+              {isActive(report) ? "Run in Background" : "Close"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// One line of the change report
+function RevaluationResultRow({ result }: { result: RevaluationResult }) {
+  const change = result.newValue !== null ? result.newValue - result.previousValue : 0;
+
+  return (
+    <div className="p-2 text-sm">
+      <div className="flex justify-between">
+        <div className="font-medium line-clamp-1">{result.playerName}</div>
+        <div className="whitespace-nowrap ml-2">
+          {result.status === "updated" ? (
+            <>
+              {formatPrice(result.previousValue)} → {formatPrice(result.newValue ?? 0)}
+              <span className={change >= 0 ? "text-green-700 ml-1" : "text-red-600 ml-1"}>
+                ({change >= 0 ? "+" : ""}{formatPrice(change)})
+              </span>
+            </>
+          ) : (
+            formatPrice(result.previousValue)
+          )}
+        </div>
+      </div>
+      <div className="flex justify-between text-xs mt-1">
+        <span className={`capitalize ${statusStyles[result.status] ?? ""}`}>{result.status}</span>
+        {result.reason && <span className="text-gray-500 ml-2 line-clamp-1">{result.reason}</span>}
+      </div>
+    </div>
+  );
+}
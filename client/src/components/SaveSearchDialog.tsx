@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { CardFilters } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: CardFilters;
+}
+
+export default function SaveSearchDialog({ open, onOpenChange, filters }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", "/api/saved-searches", { name, filters });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Search saved",
+        description: `"${name.trim()}" now appears under Smart Collections`,
+      });
+      setName("");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving search:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the search. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[420px]">
+        <form onSubmit={handleSave}>
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+            <DialogDescription>
+              Keep the current search, filters and sort as a smart collection. Its cards update as your
+              collection changes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <label htmlFor="saved-search-name" className="text-sm font-medium text-gray-700 mb-1 block">
+              Name
+            </label>
+            <Input
+              id="saved-search-name"
+              placeholder="PSA 10 rookies over $100"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { CardDetection, InsertCard, conditionOptions, sportOptions } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import CardPhoto from "@/components/CardPhoto";
+import { Check, PencilIcon, X } from "lucide-react";
+
+// A detection as the user is reviewing it. Fields are kept as typed, so the
+// year is a string until the cards are created.
+export interface ReviewedDetection {
+  key: number;
+  detection: CardDetection;
+  fields: {
+    playerName: string;
+    sport: string;
+    year: string;
+    brand: string;
+    cardSet: string;
+    cardNumber: string;
+    condition: string;
+  };
+  accepted: boolean;
+}
+
+const sports = sportOptions.filter(option => option.value !== "all");
+const conditions = conditionOptions.filter(option => option.value !== "all");
+
+/**
+ * Start reviewing a scan's detections, all accepted. Sports and conditions the
+ * form doesn't offer fall back to "other" and "raw".
+ */
+export function toReviewedDetections(detections: CardDetection[]): ReviewedDetection[] {
+  return detections.map((detection, key) => {
+    const { card } = detection;
+    return {
+      key,
+      detection,
+      fields: {
+        playerName: card.playerName ?? "",
+        sport: sports.some(option => option.value === card.sport) ? card.sport! : "other",
+        year: card.year ? String(card.year) : "",
+        brand: card.brand ?? "",
+        cardSet: card.cardSet ?? "",
+        cardNumber: card.cardNumber ?? "",
+        condition: conditions.some(option => option.value === card.condition) ? card.condition! : "raw",
+      },
+      accepted: true,
+    };
+  });
+}
+
+export function isReadyToCreate(item: ReviewedDetection): boolean {
+  return item.fields.playerName.trim() !== "" && /^\d{4}$/.test(item.fields.year.trim());
+}
+
+/**
+ * The card to create for an accepted detection, with its cropped photo as the front
+ */
+export function toNewCard(item: ReviewedDetection, portfolioId: number | null): InsertCard {
+  const { fields, detection } = item;
+  return {
+    playerName: fields.playerName.trim(),
+    sport: fields.sport,
+    year: Number(fields.year),
+    brand: fields.brand.trim(),
+    cardSet: fields.cardSet.trim(),
+    cardNumber: fields.cardNumber.trim(),
+    condition: fields.condition,
+    purchasePrice: 0,
+    purchaseFees: 0,
+    purchaseShipping: 0,
+    purchaseTax: 0,
+    purchaseSeller: "",
+    currentValue: 0,
+    notes: "",
+    imageUrl: "",
+    images: detection.image ? [{ url: detection.image.url, role: "front" }] : [],
+    portfolioId,
+  };
+}
+
+interface ScanReviewProps {
+  value: ReviewedDetection[];
+  onChange: (value: ReviewedDetection[]) => void;
+}
+
+/**
+ * The cards found in a scan, each to accept, fix up or reject before they're created
+ */
+export default function ScanReview({ value, onChange }: ScanReviewProps) {
+  const [editing, setEditing] = useState<number | null>(null);
+
+  const update = (key: number, change: Partial<ReviewedDetection>) => {
+    onChange(value.map(item => (item.key === key ? { ...item, ...change } : item)));
+  };
+
+  const setField = (item: ReviewedDetection, field: keyof ReviewedDetection["fields"], fieldValue: string) => {
+    update(item.key, { fields: { ...item.fields, [field]: fieldValue } });
+  };
+
+  return (
+    <ul className="divide-y divide-gray-200 border rounded-md">
+      {value.map(item => {
+        const { fields } = item;
+        const ready = isReadyToCreate(item);
+        return (
+          <li key={item.key} className={cn("p-3", !item.accepted && "bg-gray-50")}>
+            <div className="flex items-center gap-3">
+              <div className={cn("w-12 h-16 bg-gray-100 rounded overflow-hidden flex-shrink-0", !item.accepted && "opacity-40")}>
+                <CardPhoto src={item.detection.image?.thumbnailUrl} alt={fields.playerName || "Detected card"} />
+              </div>
+              <div className={cn("flex-1 min-w-0", !item.accepted && "line-through text-gray-400")}>
+                <p className="font-medium truncate">{fields.playerName || "Unknown player"}</p>
+                <p className="text-sm text-gray-600 truncate">
+                  {fields.year} {fields.brand} {fields.cardSet}
+                  {fields.cardNumber && ` #${fields.cardNumber}`}
+                </p>
+                {item.accepted && !ready && (
+                  <p className="text-xs text-red-600">Needs a player name and a four-digit year</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing(editing === item.key ? null : item.key)}
+                disabled={!item.accepted}
+                aria-label="Edit details"
+                title="Edit details"
+              >
+                <PencilIcon className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant={item.accepted ? "outline" : "ghost"}
+                size="sm"
+                onClick={() => {
+                  update(item.key, { accepted: !item.accepted });
+                  if (editing === item.key) setEditing(null);
+                }}
+                className={item.accepted ? "text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700" : "text-green-700"}
+              >
+                {item.accepted ? <X className="mr-1 h-4 w-4" /> : <Check className="mr-1 h-4 w-4" />}
+                {item.accepted ? "Reject" : "Accept"}
+              </Button>
+            </div>
+
+            {editing === item.key && item.accepted && (
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <div className="col-span-2">
+                  <Label htmlFor={`player-${item.key}`}>Player Name</Label>
+                  <Input id={`player-${item.key}`} value={fields.playerName} onChange={e => setField(item, "playerName", e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor={`year-${item.key}`}>Year</Label>
+                  <Input id={`year-${item.key}`} inputMode="numeric" value={fields.year} onChange={e => setField(item, "year", e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor={`brand-${item.key}`}>Brand</Label>
+                  <Input id={`brand-${item.key}`} value={fields.brand} onChange={e => setField(item, "brand", e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor={`set-${item.key}`}>Set</Label>
+                  <Input id={`set-${item.key}`} value={fields.cardSet} onChange={e => setField(item, "cardSet", e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor={`number-${item.key}`}>Card Number</Label>
+                  <Input id={`number-${item.key}`} value={fields.cardNumber} onChange={e => setField(item, "cardNumber", e.target.value)} />
+                </div>
+                <div>
+                  <Label>Sport</Label>
+                  <Select value={fields.sport} onValueChange={sport => setField(item, "sport", sport)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sports.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Condition</Label>
+                  <Select value={fields.condition} onValueChange={condition => setField(item, "condition", condition)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {conditions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -2,8 +2,12 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { SearchIcon, LayoutGridIcon, ListIcon } from "lucide-react";
-import { sportOptions, conditionOptions, cardSortOptions } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SearchIcon, LayoutGridIcon, ListIcon, HelpCircle } from "lucide-react";
+import { cardSortOptions, conditionOptions, sportOptions, FacetValue } from "@shared/schema";
+import { cardQuerySyntaxHints, parseCardQuery } from "@shared/cardQuery";
+import { useCardFacets } from "@/hooks/use-card-pages";
+import TagFilter from "@/components/TagFilter";
 
 interface SearchFiltersProps {
   search: string;
@@ -16,6 +20,15 @@ interface SearchFiltersProps {
   setBrand: (value: string) => void;
   condition: string;
   setCondition: (value: string) => void;
+  cardSet: string;
+  setCardSet: (value: string) => void;
+  tags: string;
+  setTags: (value: string) => void;
+  tagMode: string;
+  setTagMode: (value: string) => void;
+  portfolio: string; // picked in the sidebar
+  status: string;
+  setStatus: (value: string) => void;
   sortBy: string;
   setSortBy: (value: string) => void;
   viewMode: "grid" | "list";
@@ -33,31 +46,25 @@ export default function SearchFilters({
   setBrand,
   condition,
   setCondition,
+  cardSet,
+  setCardSet,
+  tags,
+  setTags,
+  tagMode,
+  setTagMode,
+  portfolio,
+  status,
+  setStatus,
   sortBy,
   setSortBy,
   viewMode,
   setViewMode
 }: SearchFiltersProps) {
-  const yearOptions = [
-    { label: "All Years", value: "all" },
-    { label: "2023", value: "2023" },
-    { label: "2022", value: "2022" },
-    { label: "2021", value: "2021" },
-    { label: "2020", value: "2020" },
-    { label: "2010-2019", value: "2010-2019" },
-    { label: "2000-2009", value: "2000-2009" },
-    { label: "Pre-2000", value: "pre-2000" },
-  ];
+  // Only values that exist under the other filters, with their counts
+  const { data: facets } = useCardFacets({ search, sport, year, brand, condition, cardSet, tags, tagMode, portfolio, status, sortBy });
   
-  const brandOptions = [
-    { label: "All Brands", value: "all" },
-    { label: "Topps", value: "Topps" },
-    { label: "Panini", value: "Panini" },
-    { label: "Upper Deck", value: "Upper Deck" },
-    { label: "Bowman", value: "Bowman" },
-    { label: "Donruss", value: "Donruss" },
-    { label: "Fleer", value: "Fleer" },
-  ];
+  const parsedSearch = parseCardQuery(search);
+  const searchError = parsedSearch.success ? null : parsedSearch.error;
   
   return (
     <Card className="bg-white rounded-lg shadow-sm p-4 mb-6">
@@ -69,56 +76,57 @@ export default function SearchFilters({
             </div>
             <Input
               type="text"
-              placeholder="Search cards..."
+              placeholder="Search cards, or try value>50"
               value={search}
               onChange={(e) => setSearch(e.target.value)}
-              className="pl-10 pr-3 py-2 border border-gray-300 rounded-md"
+              aria-invalid={!!searchError}
+              className={`pl-10 pr-10 py-2 border rounded-md ${searchError ? "border-red-500" : "border-gray-300"}`}
             />
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                  aria-label="Search syntax"
+                >
+                  <HelpCircle className="h-4 w-4" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-80 text-sm">
+                <p className="font-medium text-gray-900 mb-2">Search syntax</p>
+                <ul className="space-y-1.5">
+                  {cardQuerySyntaxHints.map(hint => (
+                    <li key={hint.example}>
+                      <button
+                        type="button"
+                        className="font-mono text-xs bg-gray-100 rounded px-1 py-0.5 hover:bg-gray-200"
+                        onClick={() => setSearch(search ? `${search} ${hint.example}` : hint.example)}
+                      >
+                        {hint.example}
+                      </button>
+                      <span className="text-gray-600 ml-2">{hint.description}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-gray-500 mt-3">
+                  Fields: player, sport, brand, set, number, condition, notes, year, value, cost.
+                  Other words search every field.
+                </p>
+              </PopoverContent>
+            </Popover>
           </div>
+          {searchError && (
+            <p className="mt-1 text-xs text-red-600">
+              {searchError.message} (at character {searchError.position + 1})
+            </p>
+          )}
         </div>
-        <div className="flex flex-1 flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
-          <div className="sm:w-1/3">
-            <Select value={sport} onValueChange={setSport}>
-              <SelectTrigger>
-                <SelectValue placeholder="All Sports" />
-              </SelectTrigger>
-              <SelectContent>
-                {sportOptions.map(option => (
-                  <SelectItem key={option.value} value={option.value}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="sm:w-1/3">
-            <Select value={year} onValueChange={setYear}>
-              <SelectTrigger>
-                <SelectValue placeholder="All Years" />
-              </SelectTrigger>
-              <SelectContent>
-                {yearOptions.map(option => (
-                  <SelectItem key={option.value} value={option.value}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="sm:w-1/3">
-            <Select value={brand} onValueChange={setBrand}>
-              <SelectTrigger>
-                <SelectValue placeholder="All Brands" />
-              </SelectTrigger>
-              <SelectContent>
-                {brandOptions.map(option => (
-                  <SelectItem key={option.value} value={option.value}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        <div className="flex-1 grid grid-cols-2 lg:grid-cols-5 gap-3">
+          <FacetSelect label="All Sports" value={sport} onChange={setSport} values={facets?.sport} labels={sportOptions} />
+          <FacetSelect label="All Years" value={year} onChange={setYear} values={facets?.year} />
+          <FacetSelect label="All Brands" value={brand} onChange={setBrand} values={facets?.brand} />
+          <FacetSelect label="All Sets" value={cardSet} onChange={setCardSet} values={facets?.cardSet} />
+          <FacetSelect label="All Conditions" value={condition} onChange={setCondition} values={facets?.condition} labels={conditionOptions} />
         </div>
       </div>
       
@@ -143,6 +151,17 @@ export default function SearchFilters({
               <ListIcon className="h-5 w-5" />
             </Button>
           </div>
+          <TagFilter tags={tags} setTags={setTags} tagMode={tagMode} setTagMode={setTagMode} />
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="text-sm border border-gray-300 rounded w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">In collection</SelectItem>
+              <SelectItem value="sold">Sold</SelectItem>
+              <SelectItem value="all">All cards</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
         <div className="flex items-center space-x-2">
           <span className="text-sm text-gray-600">Sort by:</span>
@@ -163,3 +182,38 @@ export default function SearchFilters({
     </Card>
   );
 }
+
+interface FacetSelectProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  values?: FacetValue[];
+  // Display names for stored values, e.g. "PSA 10" for "psa10"; free-text fields show values as stored
+  labels?: ReadonlyArray<{ label: string; value: string }>;
+}
+
+// Dropdown over a facet's values; a selection with no matches stays listed so it can be cleared
+function FacetSelect({ label, value, onChange, values = [], labels = [] }: FacetSelectProps) {
+  const labelFor = (stored: string) => labels.find(option => option.value === stored)?.label ?? stored;
+  const options = values.map(facet => ({ label: `${labelFor(facet.value)} (${facet.count})`, value: facet.value }));
+  
+  if (value !== "all" && !options.some(option => option.value === value)) {
+    options.unshift({ label: `${labelFor(value)} (0)`, value });
+  }
+  
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{label}</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,10 +1,25 @@
-import { cn } from "@/lib/utils";
-import { Link, useLocation } from "wouter";
+import { useState } from "react";
+import { cn, formatPrice } from "@/lib/utils";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { PortfolioWithTotals, SmartCollection } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cardFiltersFromSearch, cardFiltersToSearch, defaultCardFilters } from "@/hooks/use-card-filters";
+import { usePortfolios } from "@/hooks/use-portfolios";
+import { useToast } from "@/hooks/use-toast";
+import { Input } from "@/components/ui/input";
 import {
   HomeIcon,
   LayoutGridIcon,
   BarChartIcon,
+  ArchiveIcon,
+  FileTextIcon,
+  PackageIcon,
   SettingsIcon,
+  SparklesIcon,
+  BriefcaseIcon,
+  PlusIcon,
+  Trash2,
   XIcon
 } from "lucide-react";
 
@@ -14,7 +29,84 @@ interface SidebarProps {
 }
 
 export default function Sidebar({ mobileOpen, setMobileOpen }: SidebarProps) {
-  const [location] = useLocation();
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
+  const [newPortfolioName, setNewPortfolioName] = useState<string | null>(null);
+  
+  // The portfolio picked here scopes the dashboard and collection through the `portfolio` filter
+  const onCardPage = location === "/" || location === "/collection";
+  const activePortfolio = onCardPage ? cardFiltersFromSearch(search).portfolio : "all";
+  const { data: portfolios = [] } = usePortfolios();
+  
+  // Switching portfolio keeps the current page and its other filters
+  const portfolioHref = (portfolio: string) => {
+    const page = location === "/" ? "/" : "/collection";
+    const filters = onCardPage ? cardFiltersFromSearch(search) : defaultCardFilters;
+    const query = cardFiltersToSearch({ ...filters, portfolio });
+    return query ? `${page}?${query}` : page;
+  };
+  
+  // Nav links to the card pages stay in the current portfolio
+  const withPortfolio = (page: string) => {
+    return activePortfolio !== "all" ? `${page}?${cardFiltersToSearch({ portfolio: activePortfolio })}` : page;
+  };
+  
+  // Saved searches with live totals; refetched whenever a page mounts the sidebar
+  const { data: smartCollections = [] } = useQuery<SmartCollection[]>({
+    queryKey: ["/api/saved-searches"],
+    refetchOnMount: "always",
+  });
+  
+  const handleCreatePortfolio = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const response = await apiRequest("POST", "/api/portfolios", { name: newPortfolioName });
+      const portfolio: PortfolioWithTotals = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      setNewPortfolioName(null);
+      navigate(portfolioHref(String(portfolio.id)));
+    } catch (error) {
+      console.error("Error creating portfolio:", error);
+      toast({
+        title: "Error",
+        description: String(error).includes("409")
+          ? "You already have a portfolio with that name"
+          : "Failed to create the portfolio",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleDeletePortfolio = async (portfolio: PortfolioWithTotals) => {
+    try {
+      await apiRequest("DELETE", `/api/portfolios/${portfolio.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+      if (activePortfolio === String(portfolio.id)) navigate(portfolioHref("all"));
+    } catch (error) {
+      console.error("Error deleting portfolio:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the portfolio",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleDeleteCollection = async (collection: SmartCollection) => {
+    try {
+      await apiRequest("DELETE", `/api/saved-searches/${collection.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the smart collection",
+        variant: "destructive",
+      });
+    }
+  };
   
   return (
     <>
@@ -44,7 +136,7 @@ export default function Sidebar({ mobileOpen, setMobileOpen }: SidebarProps) {
         <nav className="flex-1 overflow-y-auto py-4">
           <ul className="space-y-2 px-4">
             <li>
-              <Link href="/">
+              <Link href={withPortfolio("/")}>
                 <a className={cn(
                   "flex items-center space-x-3 px-3 py-2 rounded-lg",
                   location === "/" 
@@ -57,7 +149,7 @@ export default function Sidebar({ mobileOpen, setMobileOpen }: SidebarProps) {
               </Link>
             </li>
             <li>
-              <Link href="/collection">
+              <Link href={withPortfolio("/collection")}>
                 <a className={cn(
                   "flex items-center space-x-3 px-3 py-2 rounded-lg",
                   location === "/collection" 
@@ -70,7 +162,7 @@ export default function Sidebar({ mobileOpen, setMobileOpen }: SidebarProps) {
               </Link>
             </li>
             <li>
-              <Link href="/">
+              <Link href="/analytics">
                 <a className={cn(
                   "flex items-center space-x-3 px-3 py-2 rounded-lg",
                   location === "/analytics" 
@@ -82,6 +174,45 @@ export default function Sidebar({ mobileOpen, setMobileOpen }: SidebarProps) {
                 </a>
               </Link>
             </li>
+            <li>
+              <Link href="/locations">
+                <a className={cn(
+                  "flex items-center space-x-3 px-3 py-2 rounded-lg",
+                  location.startsWith("/locations") 
+                    ? "bg-blue-50 text-blue-700" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <ArchiveIcon className="h-5 w-5" />
+                  <span>Storage</span>
+                </a>
+              </Link>
+            </li>
+            <li>
+              <Link href="/reports/tax">
+                <a className={cn(
+                  "flex items-center space-x-3 px-3 py-2 rounded-lg",
+                  location === "/reports/tax" 
+                    ? "bg-blue-50 text-blue-700" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <FileTextIcon className="h-5 w-5" />
+                  <span>Tax Report</span>
+                </a>
+              </Link>
+            </li>
+            <li>
+              <Link href="/lots">
+                <a className={cn(
+                  "flex items-center space-x-3 px-3 py-2 rounded-lg",
+                  location === "/lots" 
+                    ? "bg-blue-50 text-blue-700" 
+                    : "text-gray-700 hover:bg-gray-100"
+                )}>
+                  <PackageIcon className="h-5 w-5" />
+                  <span>Lots</span>
+                </a>
+              </Link>
+            </li>
             <li>
               <Link href="/">
                 <a className={cn(
@@ -97,6 +228,129 @@ export default function Sidebar({ mobileOpen, setMobileOpen }: SidebarProps) {
             </li>
           </ul>
           
+          {/* Portfolio switcher */}
+          <div className="mt-8 px-4">
+            <div className="flex items-center justify-between px-3 mb-2">
+              <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                Portfolios
+              </h3>
+              <button
+                type="button"
+                className="p-1 rounded text-gray-400 hover:text-blue-600"
+                onClick={() => setNewPortfolioName("")}
+                aria-label="New portfolio"
+              >
+                <PlusIcon className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            {newPortfolioName !== null && (
+              <form onSubmit={handleCreatePortfolio} className="px-3 mb-2">
+                <Input
+                  className="h-8 text-sm"
+                  placeholder="e.g. Resale inventory"
+                  value={newPortfolioName}
+                  onChange={(e) => setNewPortfolioName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Escape" && setNewPortfolioName(null)}
+                  onBlur={() => !newPortfolioName.trim() && setNewPortfolioName(null)}
+                  maxLength={60}
+                  autoFocus
+                />
+              </form>
+            )}
+            <ul className="space-y-1">
+              {[
+                { key: "all", name: "All cards" },
+                ...portfolios.map(portfolio => ({ key: String(portfolio.id), name: portfolio.name, portfolio })),
+                ...(portfolios.length > 0 ? [{ key: "none", name: "Not in a portfolio" }] : []),
+              ].map(entry => {
+                const portfolio = "portfolio" in entry ? entry.portfolio : undefined;
+                const active = onCardPage && activePortfolio === entry.key;
+                
+                return (
+                  <li key={entry.key} className="group relative">
+                    <Link href={portfolioHref(entry.key)}>
+                      <a className={cn(
+                        "flex items-start space-x-3 px-3 py-2 pr-8 rounded-lg",
+                        active 
+                          ? "bg-blue-50 text-blue-700" 
+                          : "text-gray-700 hover:bg-gray-100"
+                      )}>
+                        <BriefcaseIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span className="min-w-0">
+                          <span className="block text-sm truncate">{entry.name}</span>
+                          {portfolio && (
+                            <span className="block text-xs text-gray-500">
+                              {portfolio.count} {portfolio.count === 1 ? "card" : "cards"} · {formatPrice(portfolio.totalValue)}
+                            </span>
+                          )}
+                        </span>
+                      </a>
+                    </Link>
+                    {portfolio && (
+                      <button
+                        type="button"
+                        className="absolute right-2 top-2 p-1 rounded text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        onClick={() => handleDeletePortfolio(portfolio)}
+                        aria-label={`Delete ${portfolio.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+          
+          {/* Saved searches */}
+          <div className="mt-8 px-4">
+            <h3 className="px-3 mb-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+              Smart Collections
+            </h3>
+            {smartCollections.length === 0 ? (
+              <p className="px-3 text-sm text-gray-500">
+                Use Save Search in My Collection to keep a set of filters here.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {smartCollections.map(collection => {
+                  const query = cardFiltersToSearch(collection.filters);
+                  const href = query ? `/collection?${query}` : "/collection";
+                  const active = location === "/collection" && search === query;
+                  
+                  return (
+                    <li key={collection.id} className="group relative">
+                      <Link href={href}>
+                        <a className={cn(
+                          "flex items-start space-x-3 px-3 py-2 pr-8 rounded-lg",
+                          active 
+                            ? "bg-blue-50 text-blue-700" 
+                            : "text-gray-700 hover:bg-gray-100"
+                        )}>
+                          <SparklesIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                          <span className="min-w-0">
+                            <span className="block text-sm truncate">{collection.name}</span>
+                            <span className="block text-xs text-gray-500">
+                              {collection.count} {collection.count === 1 ? "card" : "cards"} · {formatPrice(collection.totalValue)}
+                            </span>
+                          </span>
+                        </a>
+                      </Link>
+                      <button
+                        type="button"
+                        className="absolute right-2 top-2 p-1 rounded text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        onClick={() => handleDeleteCollection(collection)}
+                        aria-label={`Delete ${collection.name}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+          
           {/* Future eBay API integration section */}
           <div className="mt-8 px-4">
             <div className="rounded-lg bg-gray-50 p-4 border border-gray-200">
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { TagWithCount } from "@shared/schema";
+import { formatTagList, parseTagList } from "@shared/tags";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TagIcon } from "lucide-react";
+
+interface TagFilterProps {
+  tags: string; // selected tag names, separated by semicolons
+  setTags: (value: string) => void;
+  tagMode: string;
+  setTagMode: (value: string) => void;
+}
+
+export default function TagFilter({ tags, setTags, tagMode, setTagMode }: TagFilterProps) {
+  const { data: allTags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const selected = parseTagList(tags);
+  const isSelected = (name: string) => selected.some(tag => tag.toLowerCase() === name.toLowerCase());
+
+  const toggleTag = (name: string) => {
+    setTags(formatTagList(
+      isSelected(name)
+        ? selected.filter(tag => tag.toLowerCase() !== name.toLowerCase())
+        : [...selected, name]
+    ));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={selected.length > 0 ? "secondary" : "outline"} size="sm">
+          <TagIcon className="mr-2 h-4 w-4" />
+          {selected.length > 0 ? `Tags (${selected.length})` : "Tags"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-3">
+        {allTags.length === 0 ? (
+          <p className="text-sm text-gray-500">No tags yet. Add them when editing a card.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-900">Match</span>
+              <div className="flex rounded-md border border-gray-200 overflow-hidden text-xs">
+                {["any", "all"].map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    className={`px-2 py-1 ${tagMode === mode ? "bg-blue-50 text-blue-700" : "text-gray-600 hover:bg-gray-50"}`}
+                    onClick={() => setTagMode(mode)}
+                  >
+                    {mode === "any" ? "Any tag" : "All tags"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <ul className="max-h-60 overflow-y-auto space-y-1">
+              {allTags.map(tag => (
+                <li key={tag.id}>
+                  <label className="flex items-center space-x-2 text-sm py-1 cursor-pointer">
+                    <Checkbox checked={isSelected(tag.name)} onCheckedChange={() => toggleTag(tag.name)} />
+                    <span className="flex-1 truncate">{tag.name}</span>
+                    <span className="text-xs text-gray-500">{tag.cardCount}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {selected.length > 0 && (
+              <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => setTags("")}>
+                Clear tags
+              </Button>
+            )}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { TagWithCount } from "@shared/schema";
+import { parseTagList, uniqueTagNames } from "@shared/tags";
+import { Input } from "@/components/ui/input";
+import { XIcon } from "lucide-react";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Chips for the card's tags plus a box that adds more on Enter or comma,
+// suggesting the user's existing tags as they type
+export default function TagInput({ value, onChange }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const { data: allTags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const addTags = (text: string) => {
+    const names = parseTagList(text);
+    if (names.length > 0) onChange(uniqueTagNames([...value, ...names]));
+    setDraft("");
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter(tag => tag !== name));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTags(draft);
+    } else if (event.key === "Backspace" && draft === "" && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const query = draft.trim().toLowerCase();
+  const suggestions = query
+    ? allTags
+        .filter(tag => tag.name.toLowerCase().includes(query))
+        .filter(tag => !value.some(name => name.toLowerCase() === tag.name.toLowerCase()))
+        .slice(0, 6)
+    : [];
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {value.map(tag => (
+            <span key={tag} className="flex items-center pl-2 pr-1 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs">
+              {tag}
+              <button
+                type="button"
+                className="ml-1 rounded-full hover:bg-gray-200"
+                onClick={() => removeTag(tag)}
+                aria-label={`Remove ${tag}`}
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder="e.g. PC, For sale"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTags(draft)}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {suggestions.map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              className="px-2 py-0.5 rounded-full border border-gray-200 text-gray-600 text-xs hover:bg-gray-50"
+              // Keep the input from adding the half-typed draft on blur first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTags(tag.name)}
+            >
+              + {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { CardValuation } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/utils";
+
+interface ValuationHistoryChartProps {
+  cardId: number;
+}
+
+export const sourceLabels: Record<string, string> = {
+  manual: "Manual",
+  "price-service": "Price research",
+  import: "Import",
+  revaluation: "Bulk revaluation",
+};
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "#16a34a",
+  },
+} satisfies ChartConfig;
+
+export default function ValuationHistoryChart({ cardId }: ValuationHistoryChartProps) {
+  const { data: valuations = [], isLoading } = useQuery<CardValuation[]>({
+    queryKey: [`/api/cards/${cardId}/valuations`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (valuations.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No value history yet. Values are recorded each time the market value changes.
+      </p>
+    );
+  }
+
+  const data = valuations.map((valuation) => ({
+    date: format(new Date(valuation.recordedAt), "MMM d, yyyy"),
+    value: valuation.value,
+    source: sourceLabels[valuation.source] ?? valuation.source,
+  }));
+
+  const latest = valuations[valuations.length - 1];
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-2 text-sm">
+        <span className="text-gray-600">
+          {valuations.length} {valuations.length === 1 ? "valuation" : "valuations"}
+        </span>
+        <span className="text-gray-600">
+          Last: <span className="font-medium text-green-700">{formatPrice(latest.value)}</span>
+          {" "}({sourceLabels[latest.source] ?? latest.source})
+        </span>
+      </div>
+      <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+        <LineChart data={data} margin={{ left: 8, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={56}
+            tickFormatter={(value: number) => formatPrice(value)}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                formatter={(value, _name, item) => (
+                  <span>
+                    {formatPrice(Number(value))}{" "}
+                    <span className="text-muted-foreground">({item.payload.source})</span>
+                  </span>
+                )}
+              />
+            }
+          />
+          <Line
+            dataKey="value"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            dot={{ r: 3 }}
+          />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useLocation, useSearch } from 'wouter';
+import { CardFilters, cardFiltersSchema } from '@shared/schema';
+
+export const defaultCardFilters: CardFilters = cardFiltersSchema.parse({});
+
+const filterKeys = Object.keys(defaultCardFilters) as (keyof CardFilters)[];
+
+// Query string for the filters, leaving out defaults so links stay short
+export function cardFiltersToSearch(filters: Partial<CardFilters>): string {
+  const params = new URLSearchParams();
+  for (const key of filterKeys) {
+    const value = filters[key];
+    if (value !== undefined && value !== defaultCardFilters[key]) params.set(key, value);
+  }
+  return params.toString();
+}
+
+export function cardFiltersFromSearch(search: string): CardFilters {
+  const params = new URLSearchParams(search);
+  const filters = { ...defaultCardFilters };
+  for (const key of filterKeys) {
+    const value = params.get(key);
+    if (value !== null) filters[key] = value;
+  }
+  return filters;
+}
+
+// Filter and sort state kept in the URL, so it survives reloads and can be shared
+export function useCardFilters() {
+  const [location, navigate] = useLocation();
+  const filters = cardFiltersFromSearch(useSearch());
+
+  const setFilter = (key: keyof CardFilters, value: string) => {
+    const search = cardFiltersToSearch({ ...filters, [key]: value });
+    navigate(search ? `${location}?${search}` : location, { replace: true });
+  };
+
+  return { filters, setFilter };
+}
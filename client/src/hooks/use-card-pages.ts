@@ -0,0 +1,102 @@
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { Card, CardFacets, CardFilters, CardPage } from '@shared/schema';
+import { parseCardQuery } from '@shared/cardQuery';
+import { queryClient } from '@/lib/queryClient';
+import { invalidateStorageLocations } from '@/hooks/use-locations';
+
+// Cards fetched per request while scrolling
+const PAGE_SIZE = 30;
+
+function filterParams(filters: CardFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.append('search', filters.search);
+  if (filters.sport && filters.sport !== 'all') params.append('sport', filters.sport);
+  if (filters.year && filters.year !== 'all') params.append('year', filters.year);
+  if (filters.brand && filters.brand !== 'all') params.append('brand', filters.brand);
+  if (filters.condition && filters.condition !== 'all') params.append('condition', filters.condition);
+  if (filters.cardSet && filters.cardSet !== 'all') params.append('cardSet', filters.cardSet);
+  if (filters.tags) {
+    params.append('tags', filters.tags);
+    params.append('tagMode', filters.tagMode);
+  }
+  if (filters.portfolio && filters.portfolio !== 'all') params.append('portfolio', filters.portfolio);
+  if (filters.status && filters.status !== 'active') params.append('status', filters.status);
+  if (filters.sortBy) params.append('sortBy', filters.sortBy);
+  return params;
+}
+
+// Every card matching the filters in one request, e.g. for CSV export
+export async function fetchAllCards(filters: CardFilters): Promise<Card[]> {
+  const response = await fetch(`/api/cards?${filterParams(filters).toString()}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch cards');
+  }
+
+  return response.json();
+}
+
+// Filtered cards loaded a page at a time by cursor, for infinite scrolling
+export function useCardPages(filters: CardFilters) {
+  const query = useInfiniteQuery<CardPage>({
+    queryKey: ['/api/cards', filters],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const params = filterParams(filters);
+      params.append('limit', String(PAGE_SIZE));
+      if (pageParam) params.append('cursor', pageParam as string);
+
+      const response = await fetch(`/api/cards?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch cards');
+      }
+
+      return response.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep showing the last results while the search box holds a half-typed query
+    enabled: parseCardQuery(filters.search).success,
+    placeholderData: keepPreviousData,
+  });
+
+  const pages = query.data?.pages ?? [];
+
+  return {
+    ...query,
+    // Card changes also move the smart collection totals in the sidebar
+    refetch: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-searches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cards/facets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      invalidateStorageLocations();
+      queryClient.invalidateQueries({ queryKey: ['/api/portfolios'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/tax-lots'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/lots'] });
+      return query.refetch();
+    },
+    cards: pages.flatMap((page) => page.items),
+    // Totals come from the latest page so they reflect recent changes
+    total: pages[pages.length - 1]?.total ?? 0,
+    summary: pages[pages.length - 1]?.summary,
+  };
+}
+
+// Values and counts for the filter dropdowns under the current filters
+export function useCardFacets(filters: CardFilters) {
+  return useQuery<CardFacets>({
+    queryKey: ['/api/cards/facets', filters],
+    queryFn: async () => {
+      const response = await fetch(`/api/cards/facets?${filterParams(filters).toString()}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch filter options');
+      }
+
+      return response.json();
+    },
+    enabled: parseCardQuery(filters.search).success,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card } from '@shared/schema';
+
+// One card with everything getCard includes, e.g. its images. The key sits
+// under '/api/cards' so invalidating the card lists refreshes it too.
+export function useCard(id: number | null | undefined) {
+  return useQuery<Card>({
+    queryKey: ['/api/cards', id],
+    queryFn: async () => {
+      const response = await fetch(`/api/cards/${id}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch card');
+      }
+
+      return response.json();
+    },
+    enabled: id != null,
+  });
+}
@@ -15,6 +15,7 @@ export interface ColumnMapping {
   cardSet?: string;
   cardNumber?: string;
   notes?: string;
+  tags?: string;
 }
 
 export function useImportExport() {
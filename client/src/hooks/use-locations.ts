@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { StorageLocationWithCount } from '@shared/schema';
+import { queryClient } from '@/lib/queryClient';
+
+// Every storage location the user has, as a flat list to build paths from
+export function useStorageLocations() {
+  return useQuery<StorageLocationWithCount[]>({
+    queryKey: ['/api/locations'],
+  });
+}
+
+// The location list and each location's contents are all keyed under /api/locations
+export function invalidateStorageLocations() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith('/api/locations'),
+  });
+}
@@ -0,0 +1,9 @@
+import { useQuery } from '@tanstack/react-query';
+import { AcquisitionLotWithCount } from '@shared/schema';
+
+// The user's group purchases, newest first
+export function useAcquisitionLots() {
+  return useQuery<AcquisitionLotWithCount[]>({
+    queryKey: ['/api/lots'],
+  });
+}
@@ -0,0 +1,9 @@
+import { useQuery } from '@tanstack/react-query';
+import { PortfolioWithTotals } from '@shared/schema';
+
+// The user's portfolios with their card totals
+export function usePortfolios() {
+  return useQuery<PortfolioWithTotals[]>({
+    queryKey: ['/api/portfolios'],
+  });
+}
@@ -0,0 +1,38 @@
+import { useQuery } from '@tanstack/react-query';
+import { RealizedGainsReport, TaxLotMethod, TaxLotReport } from '@shared/schema';
+
+// Realized gains on sold cards, for one portfolio ("none" or an id) or every card ("all")
+export function useRealizedGains(portfolio: string) {
+  return useQuery<RealizedGainsReport>({
+    queryKey: ['/api/sales', portfolio],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (portfolio !== 'all') params.append('portfolio', portfolio);
+
+      const response = await fetch(`/api/sales?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch sales');
+      }
+
+      return response.json();
+    },
+  });
+}
+
+// Sales in a calendar year matched to the purchases they dispose of
+export function useTaxLotReport(year: number, method: TaxLotMethod) {
+  return useQuery<TaxLotReport>({
+    queryKey: ['/api/reports/tax-lots', year, method],
+    queryFn: async () => {
+      const params = new URLSearchParams({ year: String(year), method });
+      const response = await fetch(`/api/reports/tax-lots?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch the tax lot report');
+      }
+
+      return response.json();
+    },
+  });
+}
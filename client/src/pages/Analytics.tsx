@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { PortfolioSnapshot } from "@shared/schema";
+import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/lib/utils";
+
+const valueChartConfig = {
+  totalValue: { label: "Total Value", color: "#16a34a" },
+  totalCost: { label: "Purchase Cost", color: "#2563eb" },
+} satisfies ChartConfig;
+
+const roiChartConfig = {
+  roi: { label: "ROI %", color: "#9333ea" },
+} satisfies ChartConfig;
+
+const allocationChartConfig = {
+  count: { label: "Cards", color: "#2563eb" },
+} satisfies ChartConfig;
+
+// Largest groups first, keeping the charts readable for long brand lists
+function toAllocationData(counts: Record<string, number>, limit = 10) {
+  return Object.entries(counts)
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+function AllocationChart({ title, counts }: { title: string; counts: Record<string, number> }) {
+  const data = toAllocationData(counts);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h3 className="text-sm font-medium text-gray-500 mb-3">{title}</h3>
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500">No cards yet</p>
+      ) : (
+        <ChartContainer config={allocationChartConfig} className="h-64 w-full aspect-auto">
+          <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="name" width={96} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent hideLabel={false} />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
+
+export default function Analytics() {
+  const { data: snapshots = [], isLoading } = useQuery<PortfolioSnapshot[]>({
+    queryKey: ["/api/analytics/snapshots"],
+    // Today's snapshot is refreshed on every request, so don't serve a cached copy
+    refetchOnMount: "always",
+  });
+
+  // Mobile menu state
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  const history = snapshots.map(snapshot => ({
+    date: format(parseISO(snapshot.snapshotDate), "MMM d"),
+    totalValue: snapshot.totalValue,
+    totalCost: snapshot.totalCost,
+    roi: snapshot.totalCost > 0
+      ? Number((((snapshot.totalValue - snapshot.totalCost) / snapshot.totalCost) * 100).toFixed(1))
+      : 0,
+  }));
+
+  const latest = snapshots[snapshots.length - 1];
+  const gain = latest ? latest.totalValue - latest.totalCost : 0;
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar */}
+      <Sidebar mobileOpen={mobileMenuOpen} setMobileOpen={setMobileMenuOpen} />
+
+      {/* Main content */}
+      <main className="flex-1 flex flex-col overflow-y-auto bg-gray-50">
+        {/* Top navbar */}
+        <header className="bg-white border-b border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between h-16 px-4 md:px-6">
+            <div className="flex items-center md:hidden">
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-600"
+                onClick={() => setMobileMenuOpen(true)}
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-800 ml-3">Card Collector</h1>
+            </div>
+            <div className="hidden md:block">
+              <h2 className="text-xl font-semibold text-gray-800">Analytics</h2>
+            </div>
+            <div className="flex items-center space-x-4">
+              <UserMenu />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 p-4 md:p-6">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">Portfolio Analytics</h1>
+            <p className="text-gray-600">Daily snapshots of your collection's value and makeup</p>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-72 w-full" />
+            </div>
+          ) : !latest ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+              No snapshots yet. Add some cards to start tracking your portfolio.
+            </div>
+          ) : (
+            <>
+              {/* Latest snapshot stats */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                <div className="bg-white rounded-lg shadow p-4">
+                  <h3 className="text-sm font-medium text-gray-500">Total Cards</h3>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">{latest.totalCards}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                  <h3 className="text-sm font-medium text-gray-500">Total Value</h3>
+                  <p className="text-2xl font-bold text-green-600 mt-1">{formatPrice(latest.totalValue)}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                  <h3 className="text-sm font-medium text-gray-500">Purchase Cost</h3>
+                  <p className="text-2xl font-bold text-blue-600 mt-1">{formatPrice(latest.totalCost)}</p>
+                </div>
+                <div className="bg-white rounded-lg shadow p-4">
+                  <h3 className="text-sm font-medium text-gray-500">Unrealized Gain</h3>
+                  <p className="text-2xl font-bold mt-1" style={{ color: gain >= 0 ? '#16a34a' : '#dc2626' }}>
+                    {formatPrice(gain)}
+                  </p>
+                </div>
+              </div>
+
+              {/* Value over time */}
+              <div className="bg-white rounded-lg shadow p-4 mb-6">
+                <h3 className="text-sm font-medium text-gray-500 mb-3">Portfolio Value Over Time</h3>
+                <ChartContainer config={valueChartConfig} className="h-72 w-full aspect-auto">
+                  <LineChart data={history} margin={{ left: 8, right: 8, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={72}
+                      tickFormatter={(value: number) => formatPrice(value)}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="totalValue" type="monotone" stroke="var(--color-totalValue)" strokeWidth={2} dot={false} />
+                    <Line dataKey="totalCost" type="monotone" stroke="var(--color-totalCost)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+
+              {/* ROI trend */}
+              <div className="bg-white rounded-lg shadow p-4 mb-6">
+                <h3 className="text-sm font-medium text-gray-500 mb-3">ROI Trend</h3>
+                <ChartContainer config={roiChartConfig} className="h-56 w-full aspect-auto">
+                  <LineChart data={history} margin={{ left: 8, right: 8, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => `${value}%`} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="roi" type="monotone" stroke="var(--color-roi)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+
+              {/* Allocation breakdowns */}
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <AllocationChart title="Cards by Sport" counts={latest.countsBySport} />
+                <AllocationChart title="Cards by Condition" counts={latest.countsByCondition} />
+                <AllocationChart title="Cards by Brand" counts={latest.countsByBrand} />
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
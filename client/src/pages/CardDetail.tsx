@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AcquisitionSource, Card, CardEdit, CardFieldChange, CardValuation, priceEstimateOptions } from "@shared/schema";
+import { acquisitionSourceLabels, cardCostBasis } from "@shared/costBasis";
+import { cardEditFieldLabels } from "@shared/cardHistory";
+import { formatLocationPath, locationPath } from "@shared/locations";
+import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
+import CardImageCarousel from "@/components/CardImageCarousel";
+import ValuationHistoryChart, { sourceLabels } from "@/components/ValuationHistoryChart";
+import AddEditCardModal from "@/components/AddEditCardModal";
+import DeleteConfirmDialog from "@/components/DeleteConfirmDialog";
+import MarkSoldDialog from "@/components/MarkSoldDialog";
+import PriceResearchModal from "@/components/PriceResearchModal";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCard } from "@/hooks/use-card";
+import { useStorageLocations } from "@/hooks/use-locations";
+import { usePortfolios } from "@/hooks/use-portfolios";
+import { useAcquisitionLots } from "@/hooks/use-lots";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { formatPrice, getSportBadgeColor } from "@/lib/utils";
+import { ArrowLeftIcon, BadgeDollarSignIcon, BarChart2Icon, LinkIcon, PencilIcon, TrashIcon } from "lucide-react";
+
+// Something that happened to the card, for the timeline
+interface TimelineEvent {
+  key: string;
+  at: Date;
+  title: string;
+  details: string[];
+}
+
+function gainClass(amount: number): string {
+  return amount >= 0 ? "text-green-600" : "text-red-600";
+}
+
+function formatChangeValue(field: string, value: CardFieldChange["from"]): string {
+  if (value === null) return "none";
+  if (typeof value === "number" && field.startsWith("purchase")) return formatPrice(value);
+  if (field === "purchaseSource") return acquisitionSourceLabels[value as AcquisitionSource] ?? String(value);
+  return String(value);
+}
+
+function describeChange(change: CardFieldChange): string {
+  const label = cardEditFieldLabels[change.field as keyof typeof cardEditFieldLabels] ?? change.field;
+  return `${label}: ${formatChangeValue(change.field, change.from)} → ${formatChangeValue(change.field, change.to)}`;
+}
+
+// Newest first: the sale, value changes, edits, and when the card was added
+function buildTimeline(card: Card, valuations: CardValuation[], edits: CardEdit[]): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    ...valuations.map(valuation => ({
+      key: `valuation-${valuation.id}`,
+      at: new Date(valuation.recordedAt),
+      title: `Value set to ${formatPrice(valuation.value)}`,
+      details: [sourceLabels[valuation.source] ?? valuation.source],
+    })),
+    ...edits.map(edit => ({
+      key: `edit-${edit.id}`,
+      at: new Date(edit.editedAt),
+      title: "Details edited",
+      details: edit.changes.map(describeChange),
+    })),
+  ];
+
+  if (card.createdAt) {
+    events.push({ key: "created", at: new Date(card.createdAt), title: "Added to the collection", details: [] });
+  }
+  if (card.sale) {
+    events.push({
+      key: "sale",
+      at: new Date(card.sale.createdAt),
+      title: `Sold for ${formatPrice(card.sale.salePrice)}`,
+      details: [`Sold on ${card.sale.soldAt}${card.sale.venue ? ` at ${card.sale.venue}` : ""}`],
+    });
+  }
+
+  return events.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-2 text-sm">
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="text-gray-900 text-right">{children}</dd>
+    </div>
+  );
+}
+
+function Section({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <section className="bg-white rounded-lg shadow p-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+        {action}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+export default function CardDetail() {
+  const params = useParams<{ id: string }>();
+  const cardId = Number(params.id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: card, isLoading, error } = useCard(Number.isInteger(cardId) ? cardId : null);
+  const { data: valuations = [] } = useQuery<CardValuation[]>({
+    queryKey: [`/api/cards/${cardId}/valuations`],
+    enabled: !!card,
+  });
+  const { data: edits = [] } = useQuery<CardEdit[]>({
+    queryKey: [`/api/cards/${cardId}/edits`],
+    enabled: !!card,
+  });
+  const { data: locations = [] } = useStorageLocations();
+  const { data: portfolios = [] } = usePortfolios();
+  const { data: lots = [] } = useAcquisitionLots();
+
+  // Modal states
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [markSoldOpen, setMarkSoldOpen] = useState(false);
+  const [priceResearchOpen, setPriceResearchOpen] = useState(false);
+
+  // Mobile menu state
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Anyone signed in to this account can open it" });
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast({ title: "Error", description: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Skeleton className="h-96 w-full" />
+          <Skeleton className="h-96 w-full" />
+        </div>
+      );
+    }
+
+    if (error || !card) {
+      return (
+        <div className="bg-white rounded-lg shadow p-8 text-center">
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Card not found</h1>
+          <p className="text-gray-600 mb-4">It may have been deleted, or the link may be wrong.</p>
+          <Link href="/collection" className="text-blue-600 hover:underline">Back to your collection</Link>
+        </div>
+      );
+    }
+
+    const costBasis = cardCostBasis(card);
+    const currentValue = card.currentValue ?? 0;
+    const storagePath = locationPath(locations, card.locationId);
+    const portfolio = portfolios.find(entry => entry.id === card.portfolioId);
+    const lot = lots.find(entry => entry.id === card.lotId);
+    const netProceeds = card.sale ? card.sale.salePrice - card.sale.fees - card.sale.shippingCost : 0;
+    // The most recent value that came from price research, with the sales behind it
+    const research = [...valuations].reverse().find(valuation => valuation.source === "price-service" && valuation.stats);
+    const estimateLabel = priceEstimateOptions.find(option => option.value === research?.stats?.estimate)?.label;
+    const timeline = buildTimeline(card, valuations, edits);
+
+    return (
+      <>
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between mb-6 space-y-4 md:space-y-0">
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold text-gray-900">{card.playerName}</h1>
+              <span className={`px-2 py-0.5 rounded ${getSportBadgeColor(card.sport)} text-white text-xs`}>{card.sport}</span>
+              {card.sale && <span className="px-2 py-0.5 rounded bg-amber-500 text-white text-xs">Sold</span>}
+            </div>
+            <p className="text-gray-600">
+              {card.year} {card.brand} {card.cardSet}
+              {card.cardNumber && ` #${card.cardNumber}`}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={copyLink}>
+              <LinkIcon className="mr-2 h-4 w-4" />
+              Copy Link
+            </Button>
+            <Button variant="outline" onClick={() => setPriceResearchOpen(true)} className="text-purple-600 border-purple-200 hover:bg-purple-50 hover:text-purple-700">
+              <BarChart2Icon className="mr-2 h-4 w-4" />
+              Price
+            </Button>
+            <Button variant="outline" onClick={() => setEditOpen(true)} className="text-blue-600 border-blue-200 hover:bg-blue-50 hover:text-blue-700">
+              <PencilIcon className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            {!card.sale && (
+              <Button variant="outline" onClick={() => setMarkSoldOpen(true)} className="text-amber-600 border-amber-200 hover:bg-amber-50 hover:text-amber-700">
+                <BadgeDollarSignIcon className="mr-2 h-4 w-4" />
+                Mark Sold
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setDeleteOpen(true)} className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700">
+              <TrashIcon className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <section className="bg-white rounded-lg shadow p-4">
+              <CardImageCarousel images={card.images ?? []} alt={`${card.playerName} ${card.brand} card`} />
+            </section>
+
+            <Section title="Value History">
+              <ValuationHistoryChart cardId={card.id} />
+            </Section>
+
+            <Section
+              title="Price Research"
+              action={
+                <Button variant="ghost" size="sm" onClick={() => setPriceResearchOpen(true)}>
+                  Research again
+                </Button>
+              }
+            >
+              {research?.stats ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {format(new Date(research.recordedAt), "MMM d, yyyy")}: {research.stats.totalResults} sales found for{" "}
+                    <code className="text-xs bg-muted px-1 rounded">{research.stats.searchQuery}</code>
+                  </p>
+                  <dl className="divide-y divide-gray-100">
+                    <DetailRow label={estimateLabel ?? "Estimate used"}>{formatPrice(research.value)}</DetailRow>
+                    <DetailRow label="Average">{formatPrice(research.stats.averagePrice)}</DetailRow>
+                    <DetailRow label="Median">{formatPrice(research.stats.medianPrice)}</DetailRow>
+                    <DetailRow label="Range">
+                      {formatPrice(research.stats.minPrice)} – {formatPrice(research.stats.maxPrice)}
+                    </DetailRow>
+                    {research.stats.confidence !== undefined && (
+                      <DetailRow label="Confidence">{Math.round(research.stats.confidence * 100)}%</DetailRow>
+                    )}
+                  </dl>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  No price research yet. Research the price to set the market value from recent sales.
+                </p>
+              )}
+            </Section>
+          </div>
+
+          <div className="space-y-6">
+            <Section title="Details">
+              <dl className="divide-y divide-gray-100">
+                <DetailRow label="Condition">{card.condition}</DetailRow>
+                {card.tags && card.tags.length > 0 && <DetailRow label="Tags">{card.tags.join(", ")}</DetailRow>}
+                {card.notes && <DetailRow label="Notes">{card.notes}</DetailRow>}
+                <DetailRow label="Location">
+                  {storagePath.length > 0 ? (
+                    <Link href={`/locations/${card.locationId}`} className="text-blue-600 hover:underline">
+                      {formatLocationPath(storagePath, card.locationSlot)}
+                    </Link>
+                  ) : "Not recorded"}
+                </DetailRow>
+                <DetailRow label="Portfolio">{portfolio?.name ?? "None"}</DetailRow>
+                {card.createdAt && <DetailRow label="Added">{format(new Date(card.createdAt), "MMM d, yyyy")}</DetailRow>}
+                <DetailRow label="ID">{card.id}</DetailRow>
+              </dl>
+            </Section>
+
+            <Section title="Value">
+              <dl className="divide-y divide-gray-100">
+                <DetailRow label="Market value">
+                  <span className="font-medium text-green-600">{formatPrice(currentValue)}</span>
+                </DetailRow>
+                <DetailRow label="Cost basis">{formatPrice(costBasis)}</DetailRow>
+                {!card.sale && (
+                  <DetailRow label="Unrealized gain">
+                    <span className={gainClass(currentValue - costBasis)}>{formatPrice(currentValue - costBasis)}</span>
+                  </DetailRow>
+                )}
+              </dl>
+            </Section>
+
+            <Section title="Acquisition">
+              <dl className="divide-y divide-gray-100">
+                <DetailRow label="Price">{formatPrice(card.purchasePrice)}</DetailRow>
+                <DetailRow label="Fees">{formatPrice(card.purchaseFees)}</DetailRow>
+                <DetailRow label="Shipping">{formatPrice(card.purchaseShipping)}</DetailRow>
+                <DetailRow label="Tax">{formatPrice(card.purchaseTax)}</DetailRow>
+                <DetailRow label="Bought on">{card.purchaseDate ?? "Unknown"}</DetailRow>
+                <DetailRow label="Bought from">
+                  {card.purchaseSource ? acquisitionSourceLabels[card.purchaseSource as AcquisitionSource] ?? card.purchaseSource : "Unknown"}
+                  {card.purchaseSeller && ` · ${card.purchaseSeller}`}
+                </DetailRow>
+                {lot && (
+                  <DetailRow label="Lot">
+                    <Link href="/lots" className="text-blue-600 hover:underline">{lot.name}</Link>
+                  </DetailRow>
+                )}
+              </dl>
+            </Section>
+
+            {card.sale && (
+              <Section title="Sale">
+                <dl className="divide-y divide-gray-100">
+                  <DetailRow label="Sold on">{card.sale.soldAt}</DetailRow>
+                  {card.sale.venue && <DetailRow label="Venue">{card.sale.venue}</DetailRow>}
+                  <DetailRow label="Sale price">{formatPrice(card.sale.salePrice)}</DetailRow>
+                  <DetailRow label="Fees">{formatPrice(card.sale.fees)}</DetailRow>
+                  <DetailRow label="Shipping">{formatPrice(card.sale.shippingCost)}</DetailRow>
+                  <DetailRow label="Net proceeds">{formatPrice(netProceeds)}</DetailRow>
+                  <DetailRow label="Realized gain">
+                    <span className={gainClass(netProceeds - costBasis)}>{formatPrice(netProceeds - costBasis)}</span>
+                  </DetailRow>
+                  {card.sale.notes && <DetailRow label="Notes">{card.sale.notes}</DetailRow>}
+                </dl>
+              </Section>
+            )}
+
+            <Section title="History">
+              <ol className="space-y-4">
+                {timeline.map(event => (
+                  <li key={event.key} className="border-l-2 border-gray-200 pl-3">
+                    <div className="flex justify-between gap-4">
+                      <span className="text-sm font-medium text-gray-900">{event.title}</span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">{format(event.at, "MMM d, yyyy h:mm a")}</span>
+                    </div>
+                    {event.details.map((detail, i) => (
+                      <p key={i} className="text-sm text-gray-600">{detail}</p>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            </Section>
+          </div>
+        </div>
+
+        <AddEditCardModal
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          card={card}
+          onSuccess={() => {
+            toast({
+              title: "Card updated",
+              description: "The card has been updated successfully",
+            });
+          }}
+        />
+
+        <DeleteConfirmDialog
+          open={deleteOpen}
+          onOpenChange={setDeleteOpen}
+          card={card}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+            toast({
+              title: "Card removed",
+              description: "The card has been removed from your inventory",
+            });
+            navigate("/collection");
+          }}
+          onMarkSold={card.sale ? undefined : () => setMarkSoldOpen(true)}
+        />
+
+        <MarkSoldDialog
+          open={markSoldOpen}
+          onOpenChange={setMarkSoldOpen}
+          card={card}
+          onSuccess={() => queryClient.invalidateQueries({ queryKey: ["/api/cards"] })}
+        />
+
+        <PriceResearchModal
+          open={priceResearchOpen}
+          onOpenChange={setPriceResearchOpen}
+          card={card}
+          redirectTo={`/cards/${card.id}`}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar */}
+      <Sidebar mobileOpen={mobileMenuOpen} setMobileOpen={setMobileMenuOpen} />
+
+      {/* Main content */}
+      <main className="flex-1 flex flex-col overflow-y-auto bg-gray-50">
+        {/* Top navbar */}
+        <header className="bg-white border-b border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between h-16 px-4 md:px-6">
+            <div className="flex items-center md:hidden">
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-600"
+                onClick={() => setMobileMenuOpen(true)}
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-800 ml-3">Card Collector</h1>
+            </div>
+            <div className="hidden md:flex items-center">
+              <Link href="/collection" className="text-gray-500 hover:text-gray-700 mr-3" aria-label="Back to collection">
+                <ArrowLeftIcon className="h-5 w-5" />
+              </Link>
+              <h2 className="text-xl font-semibold text-gray-800">Card Details</h2>
+            </div>
+            <div className="flex items-center space-x-4">
+              <UserMenu />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 p-4 md:p-6">
+          {renderContent()}
+        </div>
+      </main>
+    </div>
+  );
+}
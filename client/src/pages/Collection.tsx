@@ -1,76 +1,71 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Card as CardType } from "@shared/schema";
 import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
 import CardGrid from "@/components/CardGrid";
 import SearchFilters from "@/components/SearchFilters";
 import AddEditCardModal from "@/components/AddEditCardModal";
 import DeleteConfirmDialog from "@/components/DeleteConfirmDialog";
 import PriceResearchModal from "@/components/PriceResearchModal";
+import RevaluationModal from "@/components/RevaluationModal";
+import SaveSearchDialog from "@/components/SaveSearchDialog";
+import MovePortfolioDialog from "@/components/MovePortfolioDialog";
+import RecordLotDialog from "@/components/RecordLotDialog";
+import MarkSoldDialog from "@/components/MarkSoldDialog";
+import RealizedGainsReport from "@/components/RealizedGainsReport";
 import { Button } from "@/components/ui/button";
-import { PlusIcon, Download } from "lucide-react";
+import { PlusIcon, Download, RefreshCw, BookmarkPlus, BriefcaseIcon, PackageIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { downloadCsv } from "@/lib/utils";
+import { useCardPages, fetchAllCards } from "@/hooks/use-card-pages";
+import { useCardFilters } from "@/hooks/use-card-filters";
+import { usePortfolios } from "@/hooks/use-portfolios";
+import { parsePortfolioFilter } from "@shared/portfolios";
+import { formatTagList, parseTagList } from "@shared/tags";
 
 export default function Collection() {
   const { toast } = useToast();
   
-  // State for search and filters
-  const [search, setSearch] = useState("");
-  const [sport, setSport] = useState("all");
-  const [year, setYear] = useState("all");
-  const [brand, setBrand] = useState("all");
-  const [condition, setCondition] = useState("all");
-  const [sortBy, setSortBy] = useState("recent");
+  // Search and filters live in the URL so they survive reloads and can be shared
+  const { filters, setFilter } = useCardFilters();
+  const { search, sport, year, brand, condition, cardSet, tags, tagMode, status, sortBy } = filters;
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   
   // Modal states
   const [addEditModalOpen, setAddEditModalOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [priceResearchOpen, setPriceResearchOpen] = useState(false);
+  const [revaluationOpen, setRevaluationOpen] = useState(false);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+  const [movePortfolioOpen, setMovePortfolioOpen] = useState(false);
+  const [recordLotOpen, setRecordLotOpen] = useState(false);
+  const [markSoldOpen, setMarkSoldOpen] = useState(false);
   const [currentCard, setCurrentCard] = useState<CardType | null>(null);
   
-  // Query to fetch cards with filters
-  const { data: cards = [], isLoading, refetch } = useQuery<CardType[]>({
-    queryKey: [
-      '/api/cards',
-      search,
-      sport,
-      year,
-      brand,
-      condition,
-      sortBy
-    ],
-    queryFn: async ({ queryKey }) => {
-      const [_endpoint, search, sport, year, brand, condition, sortBy] = queryKey;
-      
-      const params = new URLSearchParams();
-      if (search) params.append('search', search as string);
-      if (sport && sport !== 'all') params.append('sport', sport as string);
-      if (year && year !== 'all') params.append('year', year as string);
-      if (brand && brand !== 'all') params.append('brand', brand as string);
-      if (condition && condition !== 'all') params.append('condition', condition as string);
-      if (sortBy) params.append('sortBy', sortBy as string);
-      
-      const response = await fetch(`/api/cards?${params.toString()}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch cards');
-      }
-      
-      return response.json();
-    }
-  });
+  // Cards matching the filters, loaded a page at a time as the grid scrolls
+  const {
+    cards,
+    total,
+    summary,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useCardPages(filters);
   
-  // Stats for the collection
-  const totalCards = cards.length;
-  const sportCounts = cards.reduce((acc, card) => {
-    acc[card.sport] = (acc[card.sport] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  // Stats for the collection, covering every matching card rather than just the loaded pages
+  const totalCards = total;
+  const sportCounts = summary?.countsBySport ?? {};
+  const totalValue = summary?.totalValue ?? 0;
+  const totalPurchaseCost = summary?.totalCost ?? 0;
   
-  const totalValue = cards.reduce((sum, card) => sum + (card.currentValue || 0), 0);
-  const totalPurchaseCost = cards.reduce((sum, card) => sum + (card.purchasePrice || 0), 0);
+  // The portfolio picked in the sidebar, if any
+  const portfolioId = parsePortfolioFilter(filters.portfolio);
+  const { data: portfolios = [] } = usePortfolios();
+  const portfolioName = portfolioId === null
+    ? "Not in a portfolio"
+    : portfolios.find(portfolio => portfolio.id === portfolioId)?.name;
   
   const handleAddCard = () => {
     setCurrentCard(null);
@@ -87,13 +82,32 @@ export default function Collection() {
     setDeleteDialogOpen(true);
   };
   
+  const handleMarkSold = (card: CardType) => {
+    setCurrentCard(card);
+    setMarkSoldOpen(true);
+  };
+  
   const handleResearchPrice = (card: CardType) => {
     setCurrentCard(card);
     setPriceResearchOpen(true);
   };
   
-  const handleExportCSV = () => {
-    if (!cards.length) {
+  const handleExportCSV = async () => {
+    // Only some pages are loaded, so fetch every matching card for the export
+    let allCards: CardType[];
+    try {
+      allCards = await fetchAllCards(filters);
+    } catch (error) {
+      console.error("Error exporting cards:", error);
+      toast({
+        title: "Export failed",
+        description: "Failed to load cards for export. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (!allCards.length) {
       toast({
         title: "No cards to export",
         description: "Your collection is empty.",
@@ -103,7 +117,7 @@ export default function Collection() {
     }
     
     // Format cards for export
-    const exportData = cards.map(card => ({
+    const exportData = allCards.map(card => ({
       playerName: card.playerName,
       sport: card.sport,
       year: card.year,
@@ -113,7 +127,8 @@ export default function Collection() {
       purchasePrice: card.purchasePrice,
       currentValue: card.currentValue,
       notes: card.notes,
-      cardNumber: card.cardNumber
+      cardNumber: card.cardNumber,
+      tags: formatTagList(card.tags ?? [])
     }));
     
     downloadCsv(exportData, 'my-collection.csv');
@@ -153,9 +168,7 @@ export default function Collection() {
               <h2 className="text-xl font-semibold text-gray-800">My Collection</h2>
             </div>
             <div className="flex items-center space-x-4">
-              <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white">
-                JD
-              </div>
+              <UserMenu />
             </div>
           </div>
         </header>
@@ -163,8 +176,10 @@ export default function Collection() {
         <div className="flex-1 p-4 md:p-6">
           {/* Collection stats */}
           <div className="mb-6">
-            <h1 className="text-2xl font-bold text-gray-900">My Collection</h1>
-            <p className="text-gray-600">View and analyze your entire card collection</p>
+            <h1 className="text-2xl font-bold text-gray-900">{portfolioName ?? "My Collection"}</h1>
+            <p className="text-gray-600">
+              {portfolioName ? "View and analyze the cards in this portfolio" : "View and analyze your entire card collection"}
+            </p>
           </div>
           
           {/* Stats cards */}
@@ -189,7 +204,7 @@ export default function Collection() {
             </div>
             
             <div className="bg-white rounded-lg shadow p-4">
-              <h3 className="text-sm font-medium text-gray-500">ROI</h3>
+              <h3 className="text-sm font-medium text-gray-500">Unrealized ROI</h3>
               <p className="text-2xl font-bold mt-1" style={{ color: totalValue - totalPurchaseCost >= 0 ? '#16a34a' : '#dc2626' }}>
                 {totalPurchaseCost > 0 
                   ? `${(((totalValue - totalPurchaseCost) / totalPurchaseCost) * 100).toFixed(1)}%` 
@@ -198,6 +213,9 @@ export default function Collection() {
             </div>
           </div>
           
+          {/* Gains and losses on cards already sold */}
+          <RealizedGainsReport portfolio={filters.portfolio} onChange={() => refetch()} />
+          
           <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 space-y-4 md:space-y-0">
             <div>
               <h2 className="text-xl font-semibold text-gray-800">Collection Breakdown</h2>
@@ -217,6 +235,34 @@ export default function Collection() {
                 <Download className="mr-2 h-4 w-4" />
                 Export CSV
               </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setRevaluationOpen(true)}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Revalue
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setSaveSearchOpen(true)}
+              >
+                <BookmarkPlus className="mr-2 h-4 w-4" />
+                Save Search
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setMovePortfolioOpen(true)}
+              >
+                <BriefcaseIcon className="mr-2 h-4 w-4" />
+                Move to Portfolio
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setRecordLotOpen(true)}
+              >
+                <PackageIcon className="mr-2 h-4 w-4" />
+                Record Lot
+              </Button>
             </div>
           </div>
           
@@ -246,17 +292,26 @@ export default function Collection() {
           {/* Search and filters */}
           <SearchFilters 
             search={search}
-            setSearch={setSearch}
+            setSearch={(value) => setFilter("search", value)}
             sport={sport}
-            setSport={setSport}
+            setSport={(value) => setFilter("sport", value)}
             year={year}
-            setYear={setYear}
+            setYear={(value) => setFilter("year", value)}
             brand={brand}
-            setBrand={setBrand}
+            setBrand={(value) => setFilter("brand", value)}
             condition={condition}
-            setCondition={setCondition}
+            setCondition={(value) => setFilter("condition", value)}
+            cardSet={cardSet}
+            setCardSet={(value) => setFilter("cardSet", value)}
+            tags={tags}
+            setTags={(value) => setFilter("tags", value)}
+            tagMode={tagMode}
+            setTagMode={(value) => setFilter("tagMode", value)}
+            portfolio={filters.portfolio}
+            status={status}
+            setStatus={(value) => setFilter("status", value)}
             sortBy={sortBy}
-            setSortBy={setSortBy}
+            setSortBy={(value) => setFilter("sortBy", value)}
             viewMode={viewMode}
             setViewMode={setViewMode}
           />
@@ -264,11 +319,16 @@ export default function Collection() {
           {/* Card collection */}
           <CardGrid 
             cards={cards} 
+            total={total}
             isLoading={isLoading} 
             viewMode={viewMode}
             onEdit={handleEditCard}
             onDelete={handleDeleteCard}
             onResearch={handleResearchPrice}
+            onMarkSold={handleMarkSold}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            onLoadMore={() => fetchNextPage()}
           />
         </div>
       </main>
@@ -278,6 +338,7 @@ export default function Collection() {
         open={addEditModalOpen} 
         onOpenChange={setAddEditModalOpen}
         card={currentCard}
+        defaultPortfolioId={portfolioId}
         onSuccess={() => {
           refetch();
           toast({
@@ -300,6 +361,14 @@ export default function Collection() {
             description: "The card has been removed from your collection",
           });
         }}
+        onMarkSold={() => setMarkSoldOpen(true)}
+      />
+      
+      <MarkSoldDialog
+        open={markSoldOpen}
+        onOpenChange={setMarkSoldOpen}
+        card={currentCard}
+        onSuccess={() => refetch()}
       />
       
       <PriceResearchModal 
@@ -307,6 +376,47 @@ export default function Collection() {
         onOpenChange={setPriceResearchOpen}
         card={currentCard}
       />
+      
+      <RevaluationModal
+        open={revaluationOpen}
+        onOpenChange={setRevaluationOpen}
+        filters={{
+          search: search || undefined,
+          sport,
+          year,
+          brand,
+          condition,
+          cardSet,
+          tags: parseTagList(tags),
+          tagMode: tagMode === "all" ? "all" : "any",
+          portfolioId,
+          status: status === "sold" || status === "all" ? status : "active",
+        }}
+        cardCount={total}
+        onComplete={() => refetch()}
+      />
+      
+      <MovePortfolioDialog
+        open={movePortfolioOpen}
+        onOpenChange={setMovePortfolioOpen}
+        filters={filters}
+        cardCount={total}
+        onSuccess={() => refetch()}
+      />
+      
+      <RecordLotDialog
+        open={recordLotOpen}
+        onOpenChange={setRecordLotOpen}
+        filters={filters}
+        cardCount={total}
+        onSuccess={() => refetch()}
+      />
+      
+      <SaveSearchDialog
+        open={saveSearchOpen}
+        onOpenChange={setSaveSearchOpen}
+        filters={filters}
+      />
     </div>
   );
 }
\ No newline at end of file
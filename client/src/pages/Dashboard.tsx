@@ -1,7 +1,7 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Card as CardType } from "@shared/schema";
 import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
 import CardGrid from "@/components/CardGrid";
 import SearchFilters from "@/components/SearchFilters";
 import ImportModal from "@/components/ImportModal";
@@ -10,7 +10,12 @@ import AddEditCardModal from "@/components/AddEditCardModal";
 import DeleteConfirmDialog from "@/components/DeleteConfirmDialog";
 import BulkDeleteDialog from "@/components/BulkDeleteDialog";
 import PriceResearchModal from "@/components/PriceResearchModal";
+import MarkSoldDialog from "@/components/MarkSoldDialog";
 import { downloadCsv } from "@/lib/utils";
+import { useCardPages, fetchAllCards } from "@/hooks/use-card-pages";
+import { useCardFilters } from "@/hooks/use-card-filters";
+import { parsePortfolioFilter } from "@shared/portfolios";
+import { formatTagList } from "@shared/tags";
 import { Button } from "@/components/ui/button";
 import { PlusIcon, FolderInput, Download, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
@@ -18,13 +23,9 @@ import { useToast } from "@/hooks/use-toast";
 export default function Dashboard() {
   const { toast } = useToast();
   
-  // State for search and filters
-  const [search, setSearch] = useState("");
-  const [sport, setSport] = useState("all");
-  const [year, setYear] = useState("all");
-  const [brand, setBrand] = useState("all");
-  const [condition, setCondition] = useState("all");
-  const [sortBy, setSortBy] = useState("recent");
+  // Search and filters live in the URL so they survive reloads and can be shared
+  const { filters, setFilter } = useCardFilters();
+  const { search, sport, year, brand, condition, cardSet, tags, tagMode, status, sortBy } = filters;
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   
   // Modal states
@@ -34,39 +35,19 @@ export default function Dashboard() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [bulkDeleteDialogOpen, setBulkDeleteDialogOpen] = useState(false);
   const [priceResearchOpen, setPriceResearchOpen] = useState(false);
+  const [markSoldOpen, setMarkSoldOpen] = useState(false);
   const [currentCard, setCurrentCard] = useState<CardType | null>(null);
   
-  // Query to fetch cards with filters
-  const { data: cards = [], isLoading, refetch } = useQuery<CardType[]>({
-    queryKey: [
-      '/api/cards',
-      search,
-      sport,
-      year,
-      brand,
-      condition,
-      sortBy
-    ],
-    queryFn: async ({ queryKey }) => {
-      const [_endpoint, search, sport, year, brand, condition, sortBy] = queryKey;
-      
-      const params = new URLSearchParams();
-      if (search) params.append('search', search as string);
-      if (sport && sport !== 'all') params.append('sport', sport as string);
-      if (year && year !== 'all') params.append('year', year as string);
-      if (brand && brand !== 'all') params.append('brand', brand as string);
-      if (condition && condition !== 'all') params.append('condition', condition as string);
-      if (sortBy) params.append('sortBy', sortBy as string);
-      
-      const response = await fetch(`/api/cards?${params.toString()}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch cards');
-      }
-      
-      return response.json();
-    }
-  });
+  // Cards matching the filters, loaded a page at a time as the grid scrolls
+  const {
+    cards,
+    total,
+    isLoading,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useCardPages(filters);
   
   const handleAddCard = () => {
     setCurrentCard(null);
@@ -83,13 +64,32 @@ export default function Dashboard() {
     setDeleteDialogOpen(true);
   };
   
+  const handleMarkSold = (card: CardType) => {
+    setCurrentCard(card);
+    setMarkSoldOpen(true);
+  };
+  
   const handleResearchPrice = (card: CardType) => {
     setCurrentCard(card);
     setPriceResearchOpen(true);
   };
   
-  const handleExportCSV = () => {
-    if (!cards.length) {
+  const handleExportCSV = async () => {
+    // Only some pages are loaded, so fetch every matching card for the export
+    let allCards: CardType[];
+    try {
+      allCards = await fetchAllCards(filters);
+    } catch (error) {
+      console.error("Error exporting cards:", error);
+      toast({
+        title: "Export failed",
+        description: "Failed to load cards for export. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (!allCards.length) {
       toast({
         title: "No cards to export",
         description: "Your inventory is empty.",
@@ -99,7 +99,7 @@ export default function Dashboard() {
     }
     
     // Format cards for export (omitting internal fields)
-    const exportData = cards.map(card => ({
+    const exportData = allCards.map(card => ({
       playerName: card.playerName,
       sport: card.sport,
       year: card.year,
@@ -109,7 +109,8 @@ export default function Dashboard() {
       purchasePrice: card.purchasePrice,
       currentValue: card.currentValue,
       notes: card.notes,
-      cardNumber: card.cardNumber
+      cardNumber: card.cardNumber,
+      tags: formatTagList(card.tags ?? [])
     }));
     
     downloadCsv(exportData, 'card-inventory.csv');
@@ -154,9 +155,7 @@ export default function Dashboard() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
                 </svg>
               </button>
-              <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center text-white">
-                JD
-              </div>
+              <UserMenu />
             </div>
           </div>
           
@@ -234,7 +233,7 @@ export default function Dashboard() {
                 <Download className="mr-2 h-4 w-4" />
                 Export CSV
               </Button>
-              {cards.length > 0 && (
+              {total > 0 && (
                 <Button 
                   variant="outline" 
                   onClick={() => setBulkDeleteDialogOpen(true)}
@@ -250,17 +249,26 @@ export default function Dashboard() {
           {/* Search and filters */}
           <SearchFilters 
             search={search}
-            setSearch={setSearch}
+            setSearch={(value) => setFilter("search", value)}
             sport={sport}
-            setSport={setSport}
+            setSport={(value) => setFilter("sport", value)}
             year={year}
-            setYear={setYear}
+            setYear={(value) => setFilter("year", value)}
             brand={brand}
-            setBrand={setBrand}
+            setBrand={(value) => setFilter("brand", value)}
             condition={condition}
-            setCondition={setCondition}
+            setCondition={(value) => setFilter("condition", value)}
+            cardSet={cardSet}
+            setCardSet={(value) => setFilter("cardSet", value)}
+            tags={tags}
+            setTags={(value) => setFilter("tags", value)}
+            tagMode={tagMode}
+            setTagMode={(value) => setFilter("tagMode", value)}
+            portfolio={filters.portfolio}
+            status={status}
+            setStatus={(value) => setFilter("status", value)}
             sortBy={sortBy}
-            setSortBy={setSortBy}
+            setSortBy={(value) => setFilter("sortBy", value)}
             viewMode={viewMode}
             setViewMode={setViewMode}
           />
@@ -268,11 +276,16 @@ export default function Dashboard() {
           {/* Card inventory */}
           <CardGrid 
             cards={cards} 
+            total={total}
             isLoading={isLoading} 
             viewMode={viewMode}
             onEdit={handleEditCard}
             onDelete={handleDeleteCard}
             onResearch={handleResearchPrice}
+            onMarkSold={handleMarkSold}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            onLoadMore={() => fetchNextPage()}
           />
         </div>
       </main>
@@ -294,6 +307,7 @@ export default function Dashboard() {
         open={addEditModalOpen} 
         onOpenChange={setAddEditModalOpen}
         card={currentCard}
+        defaultPortfolioId={parsePortfolioFilter(filters.portfolio)}
         onSuccess={() => {
           refetch();
           toast({
@@ -316,6 +330,14 @@ export default function Dashboard() {
             description: "The card has been removed from your inventory",
           });
         }}
+        onMarkSold={() => setMarkSoldOpen(true)}
+      />
+      
+      <MarkSoldDialog
+        open={markSoldOpen}
+        onOpenChange={setMarkSoldOpen}
+        card={currentCard}
+        onSuccess={() => refetch()}
       />
 
       <CsvImporter
@@ -333,7 +355,7 @@ export default function Dashboard() {
       <BulkDeleteDialog
         open={bulkDeleteDialogOpen}
         onOpenChange={setBulkDeleteDialogOpen}
-        count={cards.length}
+        count={total}
         onSuccess={() => {
           refetch();
           toast({
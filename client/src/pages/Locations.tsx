@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import {
+  storageLocationKinds,
+  StorageLocation,
+  StorageLocationContents,
+  StorageLocationWithCount,
+} from "@shared/schema";
+import { canContainLocation } from "@shared/locations";
+import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
+import MoveCardsDialog from "@/components/MoveCardsDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateStorageLocations, useStorageLocations } from "@/hooks/use-locations";
+import { apiRequest } from "@/lib/queryClient";
+import { formatPrice } from "@/lib/utils";
+import { ArchiveIcon, ChevronRightIcon, PencilIcon, Trash2 } from "lucide-react";
+
+const kindLabels: Record<string, string> = {
+  room: "Room",
+  box: "Box",
+  row: "Row",
+  binder: "Binder",
+  page: "Page",
+};
+
+// Add a location at the top level or inside `parent`
+function NewLocationForm({ parent }: { parent?: StorageLocation }) {
+  const { toast } = useToast();
+  const kinds = storageLocationKinds.filter(kind => !parent || canContainLocation(parent.kind, kind));
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<string>(kinds[0] ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (kinds.length === 0) return null;
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await apiRequest("POST", "/api/locations", { name, kind, parentId: parent?.id ?? null });
+      invalidateStorageLocations();
+      setName("");
+    } catch (error) {
+      console.error("Error creating storage location:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add the location. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+      <Input
+        className="w-56"
+        placeholder={parent ? `Add inside ${parent.name}` : "e.g. Office, Closet"}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={100}
+      />
+      <Select value={kind} onValueChange={setKind}>
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {kinds.map(option => (
+            <SelectItem key={option} value={option}>{kindLabels[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="submit" disabled={isSaving || !name.trim()}>
+        Add
+      </Button>
+    </form>
+  );
+}
+
+function LocationList({ locations, parentId }: { locations: StorageLocationWithCount[]; parentId: number | null }) {
+  const children = locations.filter(location => location.parentId === parentId);
+  if (children.length === 0) return null;
+
+  return (
+    <ul className={parentId === null ? "space-y-1" : "ml-6 mt-1 space-y-1 border-l border-gray-200 pl-3"}>
+      {children.map(location => (
+        <li key={location.id}>
+          <Link href={`/locations/${location.id}`} className="flex items-center justify-between px-3 py-2 rounded-lg hover:bg-gray-100">
+            <span className="flex items-center min-w-0">
+              <span className="text-xs uppercase tracking-wide text-gray-500 w-14 flex-shrink-0">{kindLabels[location.kind]}</span>
+              <span className="text-gray-900 truncate">{location.name}</span>
+            </span>
+            <span className="text-sm text-gray-500">
+              {location.cardCount} {location.cardCount === 1 ? "card" : "cards"}
+            </span>
+          </Link>
+          <LocationList locations={locations} parentId={location.id} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Every location, nested
+function LocationTree() {
+  const { data: locations = [], isLoading } = useStorageLocations();
+
+  return (
+    <>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Storage</h1>
+        <p className="text-gray-600">Rooms, boxes and binders, and which cards are in them</p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="mb-4">
+          <NewLocationForm />
+        </div>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : locations.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No locations yet. Start with a room, then add the boxes and binders inside it.
+          </p>
+        ) : (
+          <LocationList locations={locations} parentId={null} />
+        )}
+      </div>
+    </>
+  );
+}
+
+// One location: where it is, what's inside it, and its cards in slot order
+function LocationView({ id }: { id: number }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const { data: contents, isLoading } = useQuery<StorageLocationContents>({
+    queryKey: [`/api/locations/${id}`],
+  });
+  const [selected, setSelected] = useState<number[]>([]);
+  const [moveIds, setMoveIds] = useState<number[]>([]);
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState("");
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  if (isLoading) return <Skeleton className="h-72 w-full" />;
+
+  if (!contents) {
+    return (
+      <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+        This location no longer exists. <Link href="/locations" className="text-blue-600">Back to storage</Link>
+      </div>
+    );
+  }
+
+  const { location, path, children, cards } = contents;
+  const allSelected = cards.length > 0 && selected.length === cards.length;
+  // Keep the slot order when moving a selection
+  const selectedInOrder = cards.filter(card => selected.includes(card.id)).map(card => card.id);
+
+  const toggleCard = (cardId: number) => {
+    setSelected(selected.includes(cardId) ? selected.filter(other => other !== cardId) : [...selected, cardId]);
+  };
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await apiRequest("PATCH", `/api/locations/${id}`, { name });
+      invalidateStorageLocations();
+      setRenaming(false);
+    } catch (error) {
+      console.error("Error renaming storage location:", error);
+      toast({
+        title: "Error",
+        description: "Failed to rename the location. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest("DELETE", `/api/locations/${id}`);
+      invalidateStorageLocations();
+      navigate(location.parentId ? `/locations/${location.parentId}` : "/locations");
+    } catch (error) {
+      console.error("Error deleting storage location:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the location. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      {/* Where this location is */}
+      <nav className="flex items-center flex-wrap text-sm text-gray-500 mb-2">
+        <Link href="/locations" className="hover:text-blue-600">Storage</Link>
+        {path.slice(0, -1).map(ancestor => (
+          <span key={ancestor.id} className="flex items-center">
+            <ChevronRightIcon className="h-4 w-4 mx-1" />
+            <Link href={`/locations/${ancestor.id}`} className="hover:text-blue-600">{ancestor.name}</Link>
+          </span>
+        ))}
+      </nav>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        {renaming ? (
+          <form onSubmit={handleRename} className="flex gap-2">
+            <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={100} autoFocus />
+            <Button type="submit" disabled={!name.trim()}>Save</Button>
+            <Button type="button" variant="outline" onClick={() => setRenaming(false)}>Cancel</Button>
+          </form>
+        ) : (
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{location.name}</h1>
+            <p className="text-gray-600">
+              {kindLabels[location.kind]} · {cards.length} {cards.length === 1 ? "card" : "cards"}
+            </p>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => { setName(location.name); setRenaming(true); }}>
+            <PencilIcon className="mr-2 h-4 w-4" />
+            Rename
+          </Button>
+          <Button
+            variant="outline"
+            className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+            onClick={() => setDeleteOpen(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {/* Locations inside this one */}
+      <div className="bg-white rounded-lg shadow p-4 mb-6">
+        <h2 className="text-sm font-medium text-gray-500 mb-3">Inside {location.name}</h2>
+        {children.length > 0 && (
+          <div className="mb-4">
+            <LocationList locations={children} parentId={id} />
+          </div>
+        )}
+        <NewLocationForm parent={location} />
+      </div>
+
+      {/* Cards in slot order */}
+      <div className="bg-white rounded-lg shadow">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={() => setSelected(allSelected ? [] : cards.map(card => card.id))}
+              disabled={cards.length === 0}
+            />
+            <span>{selected.length > 0 ? `${selected.length} selected` : "Select all"}</span>
+          </label>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={selected.length === 0} onClick={() => setMoveIds(selectedInOrder)}>
+              Move selected
+            </Button>
+            <Button size="sm" disabled={cards.length === 0} onClick={() => setMoveIds(cards.map(card => card.id))}>
+              <ArchiveIcon className="mr-2 h-4 w-4" />
+              Move all
+            </Button>
+          </div>
+        </div>
+        {cards.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">
+            No cards here yet. Set a card's storage location when editing it.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {cards.map(card => (
+              <li key={card.id} className="flex items-center px-4 py-3 space-x-4">
+                <Checkbox checked={selected.includes(card.id)} onCheckedChange={() => toggleCard(card.id)} />
+                <span className="w-16 text-sm text-gray-500">
+                  {card.locationSlot != null ? `Slot ${card.locationSlot}` : "—"}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <Link href={`/cards/${card.id}`} className="block font-medium text-gray-900 truncate hover:text-blue-600 hover:underline">
+                    {card.playerName}
+                  </Link>
+                  <p className="text-sm text-gray-600 truncate">
+                    {card.year} {card.brand} {card.cardSet} {card.cardNumber && `#${card.cardNumber}`}
+                  </p>
+                </div>
+                <span className="text-sm text-gray-700">{card.condition}</span>
+                <span className="w-24 text-right text-sm font-medium text-green-600">{formatPrice(card.currentValue)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <MoveCardsDialog
+        open={moveIds.length > 0}
+        onOpenChange={(open) => !open && setMoveIds([])}
+        cardIds={moveIds}
+        currentLocationId={id}
+        onSuccess={() => setSelected([])}
+      />
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {location.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything inside it is deleted too. Its cards stay in your collection without a storage location.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default function Locations() {
+  const params = useParams<{ id?: string }>();
+  const locationId = params.id ? Number(params.id) : undefined;
+
+  // Mobile menu state
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar */}
+      <Sidebar mobileOpen={mobileMenuOpen} setMobileOpen={setMobileMenuOpen} />
+
+      {/* Main content */}
+      <main className="flex-1 flex flex-col overflow-y-auto bg-gray-50">
+        {/* Top navbar */}
+        <header className="bg-white border-b border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between h-16 px-4 md:px-6">
+            <div className="flex items-center md:hidden">
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-600"
+                onClick={() => setMobileMenuOpen(true)}
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-800 ml-3">Card Collector</h1>
+            </div>
+            <div className="hidden md:block">
+              <h2 className="text-xl font-semibold text-gray-800">Storage</h2>
+            </div>
+            <div className="flex items-center space-x-4">
+              <UserMenu />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 p-4 md:p-6">
+          {locationId !== undefined ? <LocationView key={locationId} id={locationId} /> : <LocationTree />}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { AcquisitionLotWithCount, AcquisitionSource } from "@shared/schema";
+import { acquisitionSourceLabels } from "@shared/costBasis";
+import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAcquisitionLots } from "@/hooks/use-lots";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPrice } from "@/lib/utils";
+import { Trash2 } from "lucide-react";
+
+// Lot and card costs both move when a lot is reallocated or deleted
+function invalidateLotCosts() {
+  queryClient.invalidateQueries({ queryKey: ["/api/lots"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/cards"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/portfolios"] });
+}
+
+export default function Lots() {
+  const { toast } = useToast();
+  const { data: lots = [], isLoading } = useAcquisitionLots();
+  const [deleting, setDeleting] = useState<AcquisitionLotWithCount | null>(null);
+
+  const handleAllocationChange = async (lot: AcquisitionLotWithCount, allocation: string) => {
+    try {
+      await apiRequest("PATCH", `/api/lots/${lot.id}`, { allocation });
+      invalidateLotCosts();
+    } catch (error) {
+      console.error("Error reallocating lot:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reallocate the lot. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await apiRequest("DELETE", `/api/lots/${deleting.id}`);
+      invalidateLotCosts();
+    } catch (error) {
+      console.error("Error deleting lot:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the lot. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Mobile menu state
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      {/* Sidebar */}
+      <Sidebar mobileOpen={mobileMenuOpen} setMobileOpen={setMobileMenuOpen} />
+
+      {/* Main content */}
+      <main className="flex-1 flex flex-col overflow-y-auto bg-gray-50">
+        {/* Top navbar */}
+        <header className="bg-white border-b border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between h-16 px-4 md:px-6">
+            <div className="flex items-center md:hidden">
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-600"
+                onClick={() => setMobileMenuOpen(true)}
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-800 ml-3">Card Collector</h1>
+            </div>
+            <div className="hidden md:block">
+              <h2 className="text-xl font-semibold text-gray-800">Lots</h2>
+            </div>
+            <div className="flex items-center space-x-4">
+              <UserMenu />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 p-4 md:p-6">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-gray-900">Lot Purchases</h1>
+            <p className="text-gray-600">
+              Group purchases and how their cost is spread over their cards. Record a lot from My Collection by
+              filtering to its cards.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow">
+            {isLoading ? (
+              <div className="p-4 space-y-2">
+                <Skeleton className="h-6 w-full" />
+                <Skeleton className="h-6 w-full" />
+              </div>
+            ) : lots.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No lots yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Purchased</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Cards</TableHead>
+                    <TableHead className="text-right">Total cost</TableHead>
+                    <TableHead>Split</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map(lot => (
+                    <TableRow key={lot.id}>
+                      <TableCell className="font-medium text-gray-900">{lot.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">{lot.purchaseDate ?? "Unknown"}</TableCell>
+                      <TableCell>
+                        {lot.source ? acquisitionSourceLabels[lot.source as AcquisitionSource] ?? lot.source : ""}
+                        {lot.seller && <div className="text-xs text-gray-500">{lot.seller}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{lot.cardCount}</TableCell>
+                      <TableCell className="text-right">
+                        {formatPrice(lot.totalPrice + lot.fees + lot.shipping + lot.tax)}
+                      </TableCell>
+                      <TableCell>
+                        <Select value={lot.allocation} onValueChange={(value) => handleAllocationChange(lot, value)}>
+                          <SelectTrigger className="w-[150px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="value">By current value</SelectItem>
+                            <SelectItem value="even">Evenly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeleting(lot)}
+                          title="Delete lot"
+                          aria-label="Delete lot"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its cards keep the costs they were allocated, but changes to the lot will no longer reach them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
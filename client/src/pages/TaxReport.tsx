@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { TaxLotMethod } from "@shared/schema";
+import Sidebar from "@/components/Sidebar";
+import UserMenu from "@/components/UserMenu";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useTaxLotReport } from "@/hooks/use-sales";
+import { downloadCsv, formatPrice } from "@/lib/utils";
+import { Download, PrinterIcon } from "lucide-react";
+
+const methodLabels: Record<TaxLotMethod, string> = {
+  fifo: "First in, first out (FIFO)",
+  specific: "Specific identification",
+};
+
+function gainClass(amount: number): string {
+  return amount >= 0 ? "text-green-600" : "text-red-600";
+}
+
+export default function TaxReport() {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [method, setMethod] = useState<TaxLotMethod>("fifo");
+  const { data: report, isLoading } = useTaxLotReport(year, method);
+
+  // Years with sales, plus the one picked so it stays selectable
+  const years = Array.from(new Set([year, ...(report?.years ?? [])])).sort((a, b) => b - a);
+  const lots = report?.lots ?? [];
+
+  const handleExportCSV = () => {
+    downloadCsv(
+      lots.map(lot => ({
+        description: lot.description,
+        dateAcquired: lot.acquiredAt,
+        dateSold: lot.soldAt,
+        proceeds: lot.proceeds.toFixed(2),
+        costBasis: lot.costBasis.toFixed(2),
+        gain: lot.gain.toFixed(2),
+        term: lot.term,
+        classification: lot.classification,
+        cardId: lot.cardId,
+        lotCardId: lot.lotCardId,
+      })),
+      `tax-lots-${year}-${method}.csv`
+    );
+  };
+
+  // Mobile menu state
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  return (
+    <div className="flex h-screen overflow-hidden print:block print:h-auto print:overflow-visible">
+      {/* Sidebar */}
+      <div className="print:hidden">
+        <Sidebar mobileOpen={mobileMenuOpen} setMobileOpen={setMobileMenuOpen} />
+      </div>
+
+      {/* Main content */}
+      <main className="flex-1 flex flex-col overflow-y-auto bg-gray-50 print:overflow-visible print:bg-white">
+        {/* Top navbar */}
+        <header className="bg-white border-b border-gray-200 shadow-sm print:hidden">
+          <div className="flex items-center justify-between h-16 px-4 md:px-6">
+            <div className="flex items-center md:hidden">
+              <button
+                type="button"
+                className="text-gray-500 hover:text-gray-600"
+                onClick={() => setMobileMenuOpen(true)}
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+                </svg>
+              </button>
+              <h1 className="text-xl font-semibold text-gray-800 ml-3">Card Collector</h1>
+            </div>
+            <div className="hidden md:block">
+              <h2 className="text-xl font-semibold text-gray-800">Tax Report</h2>
+            </div>
+            <div className="flex items-center space-x-4">
+              <UserMenu />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 p-4 md:p-6 print:p-0">
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between mb-6 space-y-4 md:space-y-0">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Realized Gains {year}</h1>
+              <p className="text-gray-600">
+                Cost basis and proceeds for each card sold, matched by {methodLabels[method].toLowerCase()}
+              </p>
+            </div>
+            <div className="flex space-x-3 print:hidden">
+              <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-[100px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={method} onValueChange={(value) => setMethod(value as TaxLotMethod)}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(methodLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleExportCSV} disabled={lots.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={() => window.print()}>
+                <PrinterIcon className="mr-2 h-4 w-4" />
+                Print
+              </Button>
+            </div>
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <div className="bg-white rounded-lg shadow p-4 print:shadow-none print:border">
+              <h3 className="text-sm font-medium text-gray-500">Proceeds</h3>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{formatPrice(report?.totals.proceeds)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 print:shadow-none print:border">
+              <h3 className="text-sm font-medium text-gray-500">Cost Basis</h3>
+              <p className="text-2xl font-bold text-blue-600 mt-1">{formatPrice(report?.totals.costBasis)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 print:shadow-none print:border">
+              <h3 className="text-sm font-medium text-gray-500">Short-term Gain</h3>
+              <p className={`text-2xl font-bold mt-1 ${gainClass(report?.totals.shortTermGain ?? 0)}`}>
+                {formatPrice(report?.totals.shortTermGain)}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-4 print:shadow-none print:border">
+              <h3 className="text-sm font-medium text-gray-500">Long-term Collectibles Gain</h3>
+              <p className={`text-2xl font-bold mt-1 ${gainClass(report?.totals.longTermGain ?? 0)}`}>
+                {formatPrice(report?.totals.longTermGain)}
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow print:shadow-none">
+            {isLoading ? (
+              <div className="p-4 space-y-2">
+                <Skeleton className="h-6 w-full" />
+                <Skeleton className="h-6 w-full" />
+                <Skeleton className="h-6 w-full" />
+              </div>
+            ) : lots.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No cards were sold in {year}.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Acquired</TableHead>
+                    <TableHead>Sold</TableHead>
+                    <TableHead className="text-right">Proceeds</TableHead>
+                    <TableHead className="text-right">Cost basis</TableHead>
+                    <TableHead className="text-right">Gain or loss</TableHead>
+                    <TableHead>Holding period</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map(lot => (
+                    <TableRow key={lot.saleId}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{lot.description}</div>
+                        {lot.lotCardId !== lot.cardId && (
+                          <div className="text-xs text-gray-500">Basis from card #{lot.lotCardId}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{lot.acquiredAt}</TableCell>
+                      <TableCell className="whitespace-nowrap">{lot.soldAt}</TableCell>
+                      <TableCell className="text-right">{formatPrice(lot.proceeds)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(lot.costBasis)}</TableCell>
+                      <TableCell className={`text-right font-medium ${gainClass(lot.gain)}`}>{formatPrice(lot.gain)}</TableCell>
+                      <TableCell>
+                        <div>{lot.term === "long" ? "Long-term" : "Short-term"}</div>
+                        <div className="text-xs text-gray-500">{lot.classification}</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total</TableCell>
+                    <TableCell className="text-right">{formatPrice(report?.totals.proceeds)}</TableCell>
+                    <TableCell className="text-right">{formatPrice(report?.totals.costBasis)}</TableCell>
+                    <TableCell className={`text-right ${gainClass(report?.totals.totalGain ?? 0)}`}>
+                      {formatPrice(report?.totals.totalGain)}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 mt-4">
+            Cost basis includes purchase fees, shipping and tax; proceeds are net of selling fees and shipping. Cards without a
+            purchase date use the date they were added. Check figures with a tax professional before filing.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
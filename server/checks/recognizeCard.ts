@@ -0,0 +1,126 @@
+/**
+ * Drives /api/recognize-card and /api/recognize-card/batch end to end through
+ * the fixture recognizer and server/fixtures/recognition/_default.json, with
+ * in-memory storage, so recognition can be checked without network access.
+ *
+ *   npm run check:recognition
+ */
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import sharp from 'sharp';
+import type { AddressInfo } from 'net';
+import type { BatchRecognitionResult } from '@shared/schema';
+
+// Read when the server modules load, so set before they're imported
+delete process.env.DATABASE_URL;
+delete process.env.RECOGNITION_FIXTURES_DIR;
+process.env.CARD_RECOGNIZER = 'fixture';
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recognition-check-'));
+process.env.IMAGE_STORAGE_DIR = path.join(workDir, 'images');
+
+async function check(name: string, run: () => Promise<void>) {
+  await run();
+  console.log(`ok - ${name}`);
+}
+
+(async () => {
+  const { registerRoutes } = await import('../routes');
+  const { registerCardRecognizer } = await import('../services/imageRecognitionService');
+  const { createFixtureCardRecognizer } = await import('../services/providers/fixtureCardRecognizer');
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const registered = await fetch(`${base}/api/auth/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'recognition-check', password: 'password1' }),
+    });
+    assert.equal(registered.status, 201);
+    const cookie = registered.headers.get('set-cookie')!.split(';')[0];
+
+    const photo = await sharp({
+      create: { width: 500, height: 700, channels: 3, background: '#336699' },
+    }).png().toBuffer();
+
+    const upload = (url: string, image: Buffer) => {
+      const form = new FormData();
+      form.append('image', new Blob([image], { type: 'image/png' }), 'card.png');
+      return fetch(`${base}${url}`, { method: 'POST', headers: { cookie }, body: form });
+    };
+
+    await check('recognizes a single card with a description', async () => {
+      const res = await upload('/api/recognize-card', photo);
+      assert.equal(res.status, 200);
+      const { card, image } = await res.json();
+      assert.equal(card.playerName, 'Mike Trout');
+      assert.equal(card.sport, 'baseball');
+      assert.equal(card.year, 2011);
+      assert.equal(card.cardNumber, 'US175');
+      assert.equal(card.notes, '2011 Topps Update #US175 card of Mike Trout.');
+      assert.equal(card.imageUrl, image.url);
+    });
+
+    await check('finds and crops every card in a multi-card scan', async () => {
+      const res = await upload('/api/recognize-card/batch', photo);
+      assert.equal(res.status, 200);
+      const { detections }: BatchRecognitionResult = await res.json();
+      assert.deepEqual(
+        detections.map((detection) => detection.card.playerName),
+        ['Mike Trout', 'Shohei Ohtani', 'LeBron James', 'Connor McDavid'],
+      );
+      for (const { card, image } of detections) {
+        assert.ok(image, `no crop for ${card.playerName}`);
+        assert.equal(card.imageUrl, image.url);
+      }
+    });
+
+    await check('retries a recorded failure, then gives up with a 422', async () => {
+      // A fixture keyed by this image's hash that fails the way an overloaded API does
+      const failing = Buffer.concat([photo, Buffer.from('failing')]);
+      const fixturesDir = path.join(workDir, 'fixtures');
+      fs.mkdirSync(fixturesDir);
+      fs.writeFileSync(
+        path.join(fixturesDir, `${crypto.createHash('sha256').update(failing).digest('hex')}.json`),
+        JSON.stringify({ error: { message: 'Overloaded', status: 529 } }),
+      );
+
+      let attempts = 0;
+      registerCardRecognizer('fixture', () => {
+        const recognizer = createFixtureCardRecognizer(fixturesDir);
+        return {
+          ...recognizer,
+          identify: (image, options) => {
+            attempts++;
+            return recognizer.identify(image, options);
+          },
+        };
+      });
+      // Malformed settings fall back to the defaults rather than retrying forever
+      process.env.RECOGNITION_RETRIES = 'abc';
+      process.env.RECOGNITION_RETRY_DELAY_MS = '1';
+
+      const res = await upload('/api/recognize-card', failing);
+      assert.equal(res.status, 422);
+      assert.match((await res.json()).message, /Overloaded/);
+      assert.equal(attempts, 3);
+    });
+  } catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  // The session store's cleanup timer would keep the process alive
+  process.exit();
+})();
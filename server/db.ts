@@ -5,11 +5,9 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+// Without a database the server falls back to in-memory storage (see storage.ts).
+// The pool doesn't connect until the first query, so creating it here is harmless.
+export const hasDatabase = !!process.env.DATABASE_URL;
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export const db = drizzle({ client: pool, schema });
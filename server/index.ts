@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startSnapshotScheduler } from "./services/snapshotService";
+import { startRevaluationScheduler } from "./services/revaluationService";
+import { storage } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +69,17 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startSnapshotScheduler();
+    startRevaluationScheduler();
+
+    // Index cards saved before full-text search or its current tokenizer
+    storage.rebuildSearchText()
+      .then((count) => count > 0 && log(`rebuilt search text for ${count} cards`))
+      .catch((error) => log(`failed to rebuild search text: ${error}`));
+
+    // Split the "|"-separated photo URLs of older cards into card_images
+    storage.migrateLegacyCardImages()
+      .then((count) => count > 0 && log(`moved photos of ${count} cards into card_images`))
+      .catch((error) => log(`failed to migrate card images: ${error}`));
   });
 })();
@@ -1,16 +1,28 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, decodeCardCursor, type CardFilterParams } from "./storage";
+import { applyCardQuery } from "./search";
+import { parseTagList } from "@shared/tags";
+import { parsePortfolioFilter } from "@shared/portfolios";
+import { canContainLocation, locationPath, locationSubtreeIds } from "@shared/locations";
+import { setupAuth, requireAuth } from "./auth";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { parse as csvParse } from "csv-parse";
 import * as XLSX from "xlsx";
 import { z } from "zod";
-import { insertCardSchema } from "@shared/schema";
+import { insertCardSchema, createCardsSchema, valuationMetaSchema, revaluationOptionsSchema, insertSavedSearchSchema, updateSavedSearchSchema, insertTagSchema, insertStorageLocationSchema, updateStorageLocationSchema, moveCardsSchema, insertPortfolioSchema, movePortfolioCardsSchema, insertCardSaleSchema, taxLotMethods, insertAcquisitionLotSchema, updateAcquisitionLotSchema, type CardFilters, type CardPage, type CardFacets, type SavedSearch, type SmartCollection, type StorageLocation, type StorageLocationContents, type Portfolio, type PortfolioWithTotals, type CardDetection, type BatchRecognitionResult } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
-import { scrapeEbayPrices } from "./services/priceService";
-import { identifyCardFromImage, generateCardDescription } from "./services/imageRecognitionService";
+import { getPriceAnalysis } from "./services/priceService";
+import { buildCardSearchQuery } from "./services/compsService";
+import { snapshotPortfolio } from "./services/snapshotService";
+import { startRevaluation } from "./services/revaluationService";
+import { buildRealizedGainsReport } from "./services/salesService";
+import { buildTaxLotReport } from "./services/taxLotService";
+import { assignLotCards, reallocateLot } from "./services/lotService";
+import { identifyCardFromImage, identifyCardsInImage, generateCardDescription } from "./services/imageRecognitionService";
+import { cropImage, isImageHash, readImage, storeImage } from "./services/imageService";
 
 // Configure multer for file uploads
 const csvUpload = multer({
@@ -42,34 +54,190 @@ const imageUpload = multer({
   },
 });
 
+// Largest page GET /api/cards will return
+const MAX_CARD_PAGE_SIZE = 100;
+
+// Date range and portfolio for the sales report
+const salesQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "from must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "to must be YYYY-MM-DD").optional(),
+  portfolio: z.string().optional(),
+});
+
+// Calendar year and lot matching for the tax report
+const taxLotQuerySchema = z.object({
+  year: z.coerce.number().int().min(1900).max(9999).default(() => new Date().getFullYear()),
+  method: z.enum(taxLotMethods).default("fifo"),
+});
+
+const cardPageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_CARD_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().optional(),
+});
+
+// Card list filters from a query string or saved search, with the search box syntax parsed
+function cardFiltersFromQuery(query: Request["query"] | CardFilters) {
+  const { search, sport, year, brand, condition, cardSet, tags, tagMode, portfolio, status, sortBy } = query;
+  
+  return applyCardQuery({
+    search: search as string,
+    sport: sport as string,
+    year: year as string,
+    brand: brand as string,
+    condition: condition as string,
+    cardSet: cardSet as string,
+    tags: typeof tags === "string" ? parseTagList(tags) : undefined,
+    tagMode: tagMode === "all" ? "all" : "any",
+    portfolioId: parsePortfolioFilter(portfolio),
+    status: status === "sold" || status === "all" ? status : "active",
+    sortBy: sortBy as string,
+  });
+}
+
+// A saved search with the count and value of the cards it matches right now
+async function toSmartCollection(userId: number, search: SavedSearch): Promise<SmartCollection> {
+  const query = cardFiltersFromQuery(search.filters);
+  if (!query.success) return { ...search, count: 0, totalValue: 0 };
+
+  const summary = await storage.summarizeFilteredCards(userId, query.params);
+  return { ...search, count: summary.count, totalValue: summary.totalValue };
+}
+
+// A portfolio with the count, value and cost of the cards in it
+async function toPortfolioTotals(userId: number, portfolio: Portfolio): Promise<PortfolioWithTotals> {
+  const summary = await storage.summarizeFilteredCards(userId, { portfolioId: portfolio.id });
+  return { ...portfolio, count: summary.count, totalValue: summary.totalValue, totalCost: summary.totalCost };
+}
+
+/**
+ * Why a location of `kind` can't sit under `parentId`, or null if it can. When
+ * moving an existing location, `id` keeps it out of its own subtree.
+ */
+function locationPlacementError(
+  locations: StorageLocation[],
+  kind: string,
+  parentId: number | null,
+  id?: number,
+): string | null {
+  if (id !== undefined) {
+    const children = locations.filter((location) => location.parentId === id);
+    const blocked = children.find((child) => !canContainLocation(kind, child.kind));
+    if (blocked) return `A ${kind} can't hold the ${blocked.kind} "${blocked.name}" inside it`;
+  }
+
+  if (parentId === null) return null;
+
+  const parent = locations.find((location) => location.id === parentId);
+  if (!parent) return "Parent location not found";
+  if (id !== undefined && locationSubtreeIds(locations, id).includes(parentId)) {
+    return "A location can't be moved inside itself";
+  }
+  if (!canContainLocation(parent.kind, kind)) return `A ${kind} can't go inside a ${parent.kind}`;
+
+  return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Get all cards
+  // Sessions and the /api/auth endpoints
+  setupAuth(app);
+
+  // Everything below works on the logged in user's own data
+  app.use("/api/cards", requireAuth);
+  app.use("/api/import", requireAuth);
+  app.use("/api/prices", requireAuth);
+  app.use("/api/recognize-card", requireAuth);
+  app.use("/api/analytics", requireAuth);
+  app.use("/api/revaluations", requireAuth);
+  app.use("/api/saved-searches", requireAuth);
+  app.use("/api/tags", requireAuth);
+  app.use("/api/locations", requireAuth);
+  app.use("/api/portfolios", requireAuth);
+  app.use("/api/sales", requireAuth);
+  app.use("/api/reports", requireAuth);
+  app.use("/api/lots", requireAuth);
+  app.use("/api/images", requireAuth);
+
+  // Get all cards, or one page of them when `limit` is given
   app.get("/api/cards", async (req: Request, res: Response) => {
     try {
-      // Extract query parameters for filtering
-      const { search, sport, year, brand, condition, sortBy } = req.query;
+      const query = cardFiltersFromQuery(req.query);
       
-      const cards = await storage.getFilteredCards({
-        search: search as string,
-        sport: sport as string,
-        year: year as string,
-        brand: brand as string,
-        condition: condition as string,
-        sortBy: sortBy as string,
-      });
+      if (!query.success) {
+        return res.status(400).json(query.error);
+      }
+      
+      const filters: CardFilterParams = query.params;
+      
+      if (req.query.limit === undefined) {
+        const cards = await storage.getFilteredCards(req.user!.id, filters);
+        return res.json(cards);
+      }
+      
+      const pageResult = cardPageQuerySchema.safeParse(req.query);
+      
+      if (!pageResult.success) {
+        const validationError = fromZodError(pageResult.error);
+        return res.status(400).json({ message: validationError.message });
+      }
       
-      res.json(cards);
+      const { limit, offset, cursor: encodedCursor } = pageResult.data;
+      const cursor = encodedCursor ? decodeCardCursor(encodedCursor, filters) : undefined;
+      
+      if (encodedCursor && !cursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const [page, summary] = await Promise.all([
+        storage.getFilteredCardPage(req.user!.id, filters, { limit, offset, cursor }),
+        storage.summarizeFilteredCards(req.user!.id, filters),
+      ]);
+      
+      // Offsets only make sense when paging by offset
+      const pageOffset = cursor ? 0 : offset;
+      const nextOffset = !cursor && pageOffset + page.items.length < summary.count
+        ? pageOffset + page.items.length
+        : null;
+      
+      const body: CardPage = {
+        items: page.items,
+        total: summary.count,
+        limit,
+        offset: pageOffset,
+        nextOffset,
+        nextCursor: page.nextCursor,
+        summary,
+      };
+      
+      res.json(body);
     } catch (error) {
       console.error("Error fetching cards:", error);
       res.status(500).json({ message: "Failed to fetch cards" });
     }
   });
 
+  // Distinct values and counts of the filterable fields, for the filter dropdowns
+  app.get("/api/cards/facets", async (req: Request, res: Response) => {
+    try {
+      const query = cardFiltersFromQuery(req.query);
+      
+      if (!query.success) {
+        return res.status(400).json(query.error);
+      }
+      
+      const facets: CardFacets = await storage.getCardFacets(req.user!.id, query.params);
+      res.json(facets);
+    } catch (error) {
+      console.error("Error fetching card facets:", error);
+      res.status(500).json({ message: "Failed to fetch card facets" });
+    }
+  });
+
   // Get a single card by ID
   app.get("/api/cards/:id", async (req: Request, res: Response) => {
     try {
       const cardId = parseInt(req.params.id, 10);
-      const card = await storage.getCard(cardId);
+      const card = await storage.getCard(req.user!.id, cardId);
       
       if (!card) {
         return res.status(404).json({ message: "Card not found" });
@@ -92,7 +260,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: validationError.message });
       }
       
-      const newCard = await storage.createCard(result.data);
+      const { locationId, portfolioId } = result.data;
+      if (locationId != null && !(await storage.getStorageLocation(req.user!.id, locationId))) {
+        return res.status(400).json({ message: "Storage location not found" });
+      }
+      if (portfolioId != null && !(await storage.getPortfolio(req.user!.id, portfolioId))) {
+        return res.status(400).json({ message: "Portfolio not found" });
+      }
+      
+      const newCard = await storage.createCard({ ...result.data, userId: req.user!.id });
       res.status(201).json(newCard);
     } catch (error) {
       console.error("Error creating card:", error);
@@ -100,13 +276,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Create several cards at once, e.g. the ones accepted from a multi-card scan
+  app.post("/api/cards/batch", async (req: Request, res: Response) => {
+    try {
+      const result = createCardsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { cards } = result.data;
+      const locationIds = new Set(cards.flatMap(card => card.locationId != null ? [card.locationId] : []));
+      const portfolioIds = new Set(cards.flatMap(card => card.portfolioId != null ? [card.portfolioId] : []));
+      for (const locationId of Array.from(locationIds)) {
+        if (!(await storage.getStorageLocation(req.user!.id, locationId))) {
+          return res.status(400).json({ message: "Storage location not found" });
+        }
+      }
+      for (const portfolioId of Array.from(portfolioIds)) {
+        if (!(await storage.getPortfolio(req.user!.id, portfolioId))) {
+          return res.status(400).json({ message: "Portfolio not found" });
+        }
+      }
+      
+      const created = [];
+      for (const card of cards) {
+        created.push(await storage.createCard({ ...card, userId: req.user!.id }));
+      }
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating cards:", error);
+      res.status(500).json({ message: "Failed to create cards" });
+    }
+  });
+
   // Update a card
   app.patch("/api/cards/:id", async (req: Request, res: Response) => {
     try {
       const cardId = parseInt(req.params.id, 10);
       
       // Validate request body against a partial schema
-      const updateSchema = insertCardSchema.partial();
+      const updateSchema = insertCardSchema.omit({ userId: true }).partial();
       const result = updateSchema.safeParse(req.body);
       
       if (!result.success) {
@@ -114,7 +325,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: validationError.message });
       }
       
-      const updatedCard = await storage.updateCard(cardId, result.data);
+      // Optional description of where a new currentValue came from
+      const valuationResult = valuationMetaSchema.optional().safeParse(req.body.valuation);
+      
+      if (!valuationResult.success) {
+        const validationError = fromZodError(valuationResult.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { locationId, portfolioId } = result.data;
+      if (locationId != null && !(await storage.getStorageLocation(req.user!.id, locationId))) {
+        return res.status(400).json({ message: "Storage location not found" });
+      }
+      if (portfolioId != null && !(await storage.getPortfolio(req.user!.id, portfolioId))) {
+        return res.status(400).json({ message: "Portfolio not found" });
+      }
+      
+      // Taking a card out of storage frees its slot
+      const updateData = locationId === null ? { ...result.data, locationSlot: null } : result.data;
+      
+      const updatedCard = await storage.updateCard(req.user!.id, cardId, updateData, valuationResult.data);
       
       if (!updatedCard) {
         return res.status(404).json({ message: "Card not found" });
@@ -127,16 +357,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the valuation history of a card
+  app.get("/api/cards/:id/valuations", async (req: Request, res: Response) => {
+    try {
+      const cardId = parseInt(req.params.id, 10);
+      const card = await storage.getCard(req.user!.id, cardId);
+      
+      if (!card) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      
+      const valuations = await storage.getCardValuations(req.user!.id, cardId);
+      res.json(valuations);
+    } catch (error) {
+      console.error("Error fetching card valuations:", error);
+      res.status(500).json({ message: "Failed to fetch card valuations" });
+    }
+  });
+
+  // Get the edit history of a card
+  app.get("/api/cards/:id/edits", async (req: Request, res: Response) => {
+    try {
+      const cardId = parseInt(req.params.id, 10);
+      const card = await storage.getCard(req.user!.id, cardId);
+      
+      if (!card) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      
+      const edits = await storage.getCardEdits(req.user!.id, cardId);
+      res.json(edits);
+    } catch (error) {
+      console.error("Error fetching card edits:", error);
+      res.status(500).json({ message: "Failed to fetch card edits" });
+    }
+  });
+
+  // Mark a card as sold, taking it out of the active inventory
+  app.post("/api/cards/:id/sale", async (req: Request, res: Response) => {
+    try {
+      const cardId = parseInt(req.params.id, 10);
+      const result = insertCardSaleSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const card = await storage.getCard(req.user!.id, cardId);
+      if (!card) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+      if (card.sale) {
+        return res.status(409).json({ message: "This card has already been sold" });
+      }
+      
+      const sale = await storage.recordCardSale(req.user!.id, cardId, result.data);
+      res.status(201).json(sale);
+    } catch (error) {
+      console.error("Error recording card sale:", error);
+      res.status(500).json({ message: "Failed to record the sale" });
+    }
+  });
+  
+  // Undo a sale, returning the card to the active inventory
+  app.delete("/api/cards/:id/sale", async (req: Request, res: Response) => {
+    try {
+      const cardId = parseInt(req.params.id, 10);
+      const success = await storage.deleteCardSale(req.user!.id, cardId);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Sale not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error undoing card sale:", error);
+      res.status(500).json({ message: "Failed to undo the sale" });
+    }
+  });
+
   // Delete a card
   app.delete("/api/cards/:id", async (req: Request, res: Response) => {
     try {
       const cardId = parseInt(req.params.id, 10);
-      const success = await storage.deleteCard(cardId);
+      const card = await storage.getCard(req.user!.id, cardId);
+      const success = await storage.deleteCard(req.user!.id, cardId);
       
       if (!success) {
         return res.status(404).json({ message: "Card not found" });
       }
       
+      // The cards still held in its lot take up its share of the cost
+      if (card?.lotId != null) {
+        await reallocateLot(req.user!.id, card.lotId);
+      }
+      
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting card:", error);
@@ -147,7 +463,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete all cards (bulk delete)
   app.delete("/api/cards", async (req: Request, res: Response) => {
     try {
-      const count = await storage.deleteAllCards();
+      const count = await storage.deleteAllCards(req.user!.id);
       
       res.status(200).json({ 
         message: `Successfully deleted ${count} cards`, 
@@ -159,6 +475,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move cards into a storage location, e.g. when rehousing a box
+  app.post("/api/cards/move", async (req: Request, res: Response) => {
+    try {
+      const result = moveCardsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { locationId } = result.data;
+      if (locationId !== null && !(await storage.getStorageLocation(req.user!.id, locationId))) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      const count = await storage.moveCards(req.user!.id, result.data);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error moving cards:", error);
+      res.status(500).json({ message: "Failed to move cards" });
+    }
+  });
+
+  // Move cards to another portfolio; their valuation history goes with them
+  app.post("/api/cards/portfolio", async (req: Request, res: Response) => {
+    try {
+      const result = movePortfolioCardsSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { cardIds, portfolioId } = result.data;
+      if (portfolioId !== null && !(await storage.getPortfolio(req.user!.id, portfolioId))) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      
+      const count = await storage.movePortfolioCards(req.user!.id, cardIds, portfolioId);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error moving cards between portfolios:", error);
+      res.status(500).json({ message: "Failed to move cards" });
+    }
+  });
+
   // Import cards from CSV/Excel
   app.post("/api/import", csvUpload.single("file"), async (req: Request, res: Response) => {
     try {
@@ -222,6 +584,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           mappedRecord.currentValue = parseFloat(mappedRecord.currentValue);
         }
         
+        // Tags come as one cell, e.g. "PC; For sale"
+        if (mappedRecord.tags !== undefined) {
+          mappedRecord.tags = parseTagList(String(mappedRecord.tags));
+        }
+        
         return mappedRecord;
       });
       
@@ -239,7 +606,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
               };
             }
             
-            const card = await storage.createCard(validationResult.data);
+            // Cards can only be filed under the user's own locations and portfolios
+            const { locationId, portfolioId } = validationResult.data;
+            if (locationId != null && !(await storage.getStorageLocation(req.user!.id, locationId))) {
+              return {
+                success: false,
+                error: `Validation error: ${record.playerName || "Unknown"} - Storage location not found`,
+                data: record,
+              };
+            }
+            if (portfolioId != null && !(await storage.getPortfolio(req.user!.id, portfolioId))) {
+              return {
+                success: false,
+                error: `Validation error: ${record.playerName || "Unknown"} - Portfolio not found`,
+                data: record,
+              };
+            }
+            
+            const card = await storage.createCard(
+              { ...validationResult.data, userId: req.user!.id },
+              { source: "import" },
+            );
             return { success: true, data: card };
           } catch (error) {
             return {
@@ -265,10 +652,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // New endpoint for fetching price data from eBay
+  // New endpoint for fetching price data for a search query
   app.get("/api/prices", async (req: Request, res: Response) => {
     try {
-      const { query } = req.query;
+      const { query, condition, refresh } = req.query;
       
       if (!query || typeof query !== 'string') {
         return res.status(400).json({ message: "Search query is required" });
@@ -276,8 +663,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Processing price search for: ${query}`);
       
-      // Scrape eBay for price data
-      const priceData = await scrapeEbayPrices(query);
+      // Look up recent sales with the configured price provider; refresh=true bypasses the cache
+      const priceData = await getPriceAnalysis(query, {
+        condition: typeof condition === 'string' && condition !== 'all' ? condition : undefined,
+        refresh: refresh === 'true',
+      });
       
       res.json(priceData);
     } catch (error) {
@@ -290,31 +680,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/cards/:id/price", async (req: Request, res: Response) => {
     try {
       const cardId = parseInt(req.params.id, 10);
-      const card = await storage.getCard(cardId);
+      const card = await storage.getCard(req.user!.id, cardId);
       
       if (!card) {
         return res.status(404).json({ message: "Card not found" });
       }
       
-      // Generate search query for this card
-      const parts = [];
-      
-      // Build search query from card details
-      if (card.playerName) parts.push(card.playerName);
-      if (card.cardSet) parts.push(card.cardSet);
-      if (card.cardNumber) parts.push(`#${card.cardNumber}`);
-      if (card.notes) parts.push(card.notes);
-      if (card.year) parts.push(card.year.toString());
-      if (card.brand) parts.push(card.brand);
-      
-      // Join all parts into a search query, removing any duplicates
-      const uniqueParts = Array.from(new Set(parts.filter(Boolean)));
-      const searchQuery = uniqueParts.join(" ");
+      // Generate search query for this card from its identifying fields
+      const searchQuery = buildCardSearchQuery(card);
       
       console.log(`Fetching price data for card #${cardId}: ${searchQuery}`);
       
-      // Use our price service to get data
-      const priceData = await scrapeEbayPrices(searchQuery);
+      // Use our price service to get data; only comps in the card's condition count
+      const priceData = await getPriceAnalysis(searchQuery, {
+        condition: card.condition,
+        refresh: req.query.refresh === 'true',
+      });
       
       res.json(priceData);
     } catch (error) {
@@ -332,22 +713,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { buffer, mimetype } = req.file;
       
-      // Convert buffer to base64
-      const base64Image = buffer.toString('base64');
+      // Keep the photo so the card can show it once it's saved
+      const image = await storeImage(req.user!.id, buffer, mimetype);
+      if (!image) {
+        return res.status(400).json({ message: "The file is not a readable image" });
+      }
       
       // Log image recognition request
       console.log(`Processing card image recognition request (${buffer.length} bytes, ${mimetype})`);
       
-      // Use Claude to identify the card from the image
-      const result = await identifyCardFromImage(base64Image, mimetype);
+      // Identify the card with the configured recognizer
+      const result = await identifyCardFromImage(buffer, mimetype);
       
       if (!result.success) {
         return res.status(422).json({ 
           message: result.error || "Failed to recognize card from image",
-          partialData: result.card
+          partialData: result.card && { ...result.card, imageUrl: image.url },
+          image
         });
       }
       
+      if (result.card) {
+        result.card.imageUrl = image.url;
+      }
+      
       // If image recognition was successful, return the card data
       if (result.card && result.card.playerName) {
         // Generate a description if we have enough information
@@ -361,7 +750,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({
         message: "Card successfully recognized from image",
-        card: result.card
+        card: result.card,
+        image
       });
     } catch (error) {
       console.error("Error recognizing card from image:", error);
@@ -369,6 +759,685 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recognize every card in a scan of several; each detection gets its own cropped photo
+  app.post("/api/recognize-card/batch", imageUpload.single("image"), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image uploaded" });
+      }
+      
+      const { buffer, mimetype } = req.file;
+      
+      const image = await storeImage(req.user!.id, buffer, mimetype);
+      if (!image) {
+        return res.status(400).json({ message: "The file is not a readable image" });
+      }
+      
+      console.log(`Processing multi-card recognition request (${buffer.length} bytes, ${mimetype})`);
+      
+      const result = await identifyCardsInImage(buffer, mimetype);
+      
+      if (!result.success || !result.detections) {
+        return res.status(422).json({
+          message: result.error || "Failed to recognize cards from image",
+          image
+        });
+      }
+      
+      // Descriptions are left out: one model call per card would keep the
+      // scan waiting, and notes can be filled in while reviewing
+      const detections: CardDetection[] = [];
+      for (const { box, card } of result.detections) {
+        const crop = await cropImage(buffer, box);
+        const cropped = crop && await storeImage(req.user!.id, crop, "image/jpeg");
+        detections.push({
+          box,
+          card: { ...card, imageUrl: cropped?.url ?? "" },
+          image: cropped,
+        });
+      }
+      
+      const body: BatchRecognitionResult = {
+        message: `Found ${detections.length} ${detections.length === 1 ? "card" : "cards"} in the image`,
+        image,
+        detections,
+      };
+      res.json(body);
+    } catch (error) {
+      console.error("Error recognizing cards from image:", error);
+      res.status(500).json({ message: "Failed to process card image" });
+    }
+  });
+
+  // Upload a card photo; the response has the URLs to store on the card
+  app.post("/api/images", imageUpload.single("image"), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image uploaded" });
+      }
+      
+      const image = await storeImage(req.user!.id, req.file.buffer, req.file.mimetype);
+      
+      if (!image) {
+        return res.status(400).json({ message: "The file is not a readable image" });
+      }
+      
+      res.status(201).json(image);
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      res.status(500).json({ message: "Failed to upload image" });
+    }
+  });
+
+  // Serve an uploaded photo or its thumbnail to the user who uploaded it
+  const serveImage = (variant: "original" | "thumbnail") => async (req: Request, res: Response) => {
+    try {
+      const { hash } = req.params;
+      const image = isImageHash(hash) ? await readImage(req.user!.id, hash, variant) : null;
+      
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      // The URL names the content, so it never changes
+      res.set("Cache-Control", "private, max-age=31536000, immutable");
+      res.type(image.contentType).send(image.data);
+    } catch (error) {
+      console.error("Error serving image:", error);
+      res.status(500).json({ message: "Failed to fetch image" });
+    }
+  };
+  
+  app.get("/api/images/:hash", serveImage("original"));
+  app.get("/api/images/:hash/thumbnail", serveImage("thumbnail"));
+
+  // Portfolio value over time, refreshing today's snapshot first
+  app.get("/api/analytics/snapshots", async (req: Request, res: Response) => {
+    try {
+      await snapshotPortfolio(req.user!.id);
+      const snapshots = await storage.getPortfolioSnapshots(req.user!.id);
+      
+      res.json(snapshots);
+    } catch (error) {
+      console.error("Error fetching portfolio snapshots:", error);
+      res.status(500).json({ message: "Failed to fetch portfolio snapshots" });
+    }
+  });
+
+  // Start a bulk revaluation of the collection (or the cards matching `filters`)
+  app.post("/api/revaluations", async (req: Request, res: Response) => {
+    try {
+      const result = revaluationOptionsSchema.safeParse(req.body ?? {});
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      // Reject a malformed search now rather than failing the job later
+      const query = applyCardQuery(result.data.filters);
+      
+      if (!query.success) {
+        return res.status(400).json(query.error);
+      }
+      
+      const job = await startRevaluation(req.user!.id, result.data);
+      
+      if (!job) {
+        // Point the client at the job that's already in progress
+        const [running] = await storage.getRevaluationJobs(req.user!.id);
+        return res.status(409).json({ message: "A revaluation is already running", job: running });
+      }
+      
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting revaluation:", error);
+      res.status(500).json({ message: "Failed to start revaluation" });
+    }
+  });
+
+  // List revaluation jobs, newest first
+  app.get("/api/revaluations", async (req: Request, res: Response) => {
+    try {
+      const jobs = await storage.getRevaluationJobs(req.user!.id);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching revaluation jobs:", error);
+      res.status(500).json({ message: "Failed to fetch revaluation jobs" });
+    }
+  });
+
+  // Get a revaluation job's progress and its per-card change report
+  app.get("/api/revaluations/:id", async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      const job = await storage.getRevaluationJob(req.user!.id, jobId);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Revaluation job not found" });
+      }
+      
+      const results = await storage.getRevaluationResults(jobId);
+      res.json({ ...job, results });
+    } catch (error) {
+      console.error("Error fetching revaluation job:", error);
+      res.status(500).json({ message: "Failed to fetch revaluation job" });
+    }
+  });
+
+  // List tags with how many cards carry each
+  app.get("/api/tags", async (req: Request, res: Response) => {
+    try {
+      const tags = await storage.getTags(req.user!.id);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  // Create a tag
+  app.post("/api/tags", async (req: Request, res: Response) => {
+    try {
+      const result = insertTagSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (await storage.getTagByName(req.user!.id, result.data.name)) {
+        return res.status(409).json({ message: "A tag with that name already exists" });
+      }
+      
+      const tag = await storage.createTag(req.user!.id, result.data.name);
+      res.status(201).json(tag);
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      res.status(500).json({ message: "Failed to create tag" });
+    }
+  });
+
+  // Rename a tag; every card carrying it follows
+  app.patch("/api/tags/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = insertTagSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      // Changing only the case of the name is allowed
+      const existing = await storage.getTagByName(req.user!.id, result.data.name);
+      if (existing && existing.id !== id) {
+        return res.status(409).json({ message: "A tag with that name already exists" });
+      }
+      
+      const tag = await storage.renameTag(req.user!.id, id, result.data.name);
+      
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      res.json(tag);
+    } catch (error) {
+      console.error("Error renaming tag:", error);
+      res.status(500).json({ message: "Failed to rename tag" });
+    }
+  });
+
+  // Delete a tag and remove it from every card
+  app.delete("/api/tags/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteTag(req.user!.id, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Realized gains on sold cards, newest sale first
+  app.get("/api/sales", async (req: Request, res: Response) => {
+    try {
+      const result = salesQuerySchema.safeParse(req.query);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { from, to, portfolio } = result.data;
+      const sales = await storage.getSales(req.user!.id, { from, to, portfolioId: parsePortfolioFilter(portfolio) });
+      res.json(buildRealizedGainsReport(sales));
+    } catch (error) {
+      console.error("Error fetching sales:", error);
+      res.status(500).json({ message: "Failed to fetch sales" });
+    }
+  });
+
+  // Realized gains for a calendar year, sale by sale, for tax filing
+  app.get("/api/reports/tax-lots", async (req: Request, res: Response) => {
+    try {
+      const result = taxLotQuerySchema.safeParse(req.query);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      // FIFO draws on every purchase, held or sold, and every earlier sale
+      const [cards, sales] = await Promise.all([
+        storage.getFilteredCards(req.user!.id, { status: "all" }),
+        storage.getSales(req.user!.id, {}),
+      ]);
+      res.json(buildTaxLotReport(cards, sales, result.data.year, result.data.method));
+    } catch (error) {
+      console.error("Error building tax lot report:", error);
+      res.status(500).json({ message: "Failed to build the tax lot report" });
+    }
+  });
+
+  // List group purchases with how many cards each was spread over
+  app.get("/api/lots", async (req: Request, res: Response) => {
+    try {
+      const lots = await storage.getAcquisitionLots(req.user!.id);
+      res.json(lots);
+    } catch (error) {
+      console.error("Error fetching lots:", error);
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  // A lot with its cards and their allocated costs
+  app.get("/api/lots/:id", async (req: Request, res: Response) => {
+    try {
+      const lotId = parseInt(req.params.id, 10);
+      const lot = await storage.getAcquisitionLot(req.user!.id, lotId);
+      
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      
+      const cards = await storage.getLotCards(req.user!.id, lotId);
+      res.json({ ...lot, cards });
+    } catch (error) {
+      console.error("Error fetching lot:", error);
+      res.status(500).json({ message: "Failed to fetch lot" });
+    }
+  });
+
+  // Record a group purchase and allocate its costs across its cards
+  app.post("/api/lots", async (req: Request, res: Response) => {
+    try {
+      const result = insertAcquisitionLotSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { cardIds, ...fields } = result.data;
+      if (!cardIds) {
+        return res.status(400).json({ message: "A lot needs at least one card" });
+      }
+      
+      const lot = await storage.createAcquisitionLot({ ...fields, userId: req.user!.id });
+      await assignLotCards(req.user!.id, lot.id, cardIds);
+      
+      const cards = await storage.getLotCards(req.user!.id, lot.id);
+      res.status(201).json({ ...lot, cards });
+    } catch (error) {
+      console.error("Error creating lot:", error);
+      res.status(500).json({ message: "Failed to create lot" });
+    }
+  });
+
+  // Change a lot's costs, allocation or cards, reallocating its costs
+  app.patch("/api/lots/:id", async (req: Request, res: Response) => {
+    try {
+      const lotId = parseInt(req.params.id, 10);
+      const result = updateAcquisitionLotSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const { cardIds, ...fields } = result.data;
+      const lot = await storage.updateAcquisitionLot(req.user!.id, lotId, fields);
+      
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      
+      if (cardIds) {
+        await assignLotCards(req.user!.id, lotId, cardIds);
+      } else {
+        await reallocateLot(req.user!.id, lotId);
+      }
+      
+      const cards = await storage.getLotCards(req.user!.id, lotId);
+      res.json({ ...lot, cards });
+    } catch (error) {
+      console.error("Error updating lot:", error);
+      res.status(500).json({ message: "Failed to update lot" });
+    }
+  });
+
+  // Delete a lot; its cards keep the costs they were allocated
+  app.delete("/api/lots/:id", async (req: Request, res: Response) => {
+    try {
+      const success = await storage.deleteAcquisitionLot(req.user!.id, parseInt(req.params.id, 10));
+      
+      if (!success) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting lot:", error);
+      res.status(500).json({ message: "Failed to delete lot" });
+    }
+  });
+
+  // List portfolios with the totals of the cards in each
+  app.get("/api/portfolios", async (req: Request, res: Response) => {
+    try {
+      const portfolios = await storage.getPortfolios(req.user!.id);
+      const withTotals = await Promise.all(
+        portfolios.map((portfolio) => toPortfolioTotals(req.user!.id, portfolio)),
+      );
+      res.json(withTotals);
+    } catch (error) {
+      console.error("Error fetching portfolios:", error);
+      res.status(500).json({ message: "Failed to fetch portfolios" });
+    }
+  });
+
+  // Create an empty portfolio
+  app.post("/api/portfolios", async (req: Request, res: Response) => {
+    try {
+      const result = insertPortfolioSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (await storage.getPortfolioByName(req.user!.id, result.data.name)) {
+        return res.status(409).json({ message: "A portfolio with that name already exists" });
+      }
+      
+      const portfolio = await storage.createPortfolio(req.user!.id, result.data.name);
+      res.status(201).json(await toPortfolioTotals(req.user!.id, portfolio));
+    } catch (error) {
+      console.error("Error creating portfolio:", error);
+      res.status(500).json({ message: "Failed to create portfolio" });
+    }
+  });
+
+  // Rename a portfolio
+  app.patch("/api/portfolios/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = insertPortfolioSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      // Changing only the case of the name is allowed
+      const existing = await storage.getPortfolioByName(req.user!.id, result.data.name);
+      if (existing && existing.id !== id) {
+        return res.status(409).json({ message: "A portfolio with that name already exists" });
+      }
+      
+      const portfolio = await storage.renamePortfolio(req.user!.id, id, result.data.name);
+      
+      if (!portfolio) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      
+      res.json(await toPortfolioTotals(req.user!.id, portfolio));
+    } catch (error) {
+      console.error("Error renaming portfolio:", error);
+      res.status(500).json({ message: "Failed to rename portfolio" });
+    }
+  });
+
+  // Delete a portfolio; its cards stay in the collection outside any portfolio
+  app.delete("/api/portfolios/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deletePortfolio(req.user!.id, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Portfolio not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting portfolio:", error);
+      res.status(500).json({ message: "Failed to delete portfolio" });
+    }
+  });
+
+  // List storage locations with how many cards each holds directly
+  app.get("/api/locations", async (req: Request, res: Response) => {
+    try {
+      const locations = await storage.getStorageLocations(req.user!.id);
+      res.json(locations);
+    } catch (error) {
+      console.error("Error fetching storage locations:", error);
+      res.status(500).json({ message: "Failed to fetch storage locations" });
+    }
+  });
+
+  // A location with its path, the locations inside it and its cards in slot order
+  app.get("/api/locations/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const locations = await storage.getStorageLocations(req.user!.id);
+      const location = locations.find((candidate) => candidate.id === id);
+      
+      if (!location) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      const contents: StorageLocationContents = {
+        location,
+        path: locationPath(locations, id),
+        children: locations.filter((candidate) => candidate.parentId === id),
+        cards: await storage.getLocationCards(req.user!.id, id),
+      };
+      res.json(contents);
+    } catch (error) {
+      console.error("Error fetching storage location:", error);
+      res.status(500).json({ message: "Failed to fetch storage location" });
+    }
+  });
+
+  // Create a storage location, optionally inside another
+  app.post("/api/locations", async (req: Request, res: Response) => {
+    try {
+      const result = insertStorageLocationSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const locations = await storage.getStorageLocations(req.user!.id);
+      const placementError = locationPlacementError(locations, result.data.kind, result.data.parentId ?? null);
+      
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+      
+      const location = await storage.createStorageLocation({ ...result.data, userId: req.user!.id });
+      res.status(201).json(location);
+    } catch (error) {
+      console.error("Error creating storage location:", error);
+      res.status(500).json({ message: "Failed to create storage location" });
+    }
+  });
+
+  // Rename a storage location, change its kind or move it elsewhere
+  app.patch("/api/locations/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = updateStorageLocationSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const locations = await storage.getStorageLocations(req.user!.id);
+      const existing = locations.find((location) => location.id === id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      const placementError = locationPlacementError(
+        locations,
+        result.data.kind ?? existing.kind,
+        result.data.parentId !== undefined ? result.data.parentId : existing.parentId,
+        id,
+      );
+      
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+      
+      const location = await storage.updateStorageLocation(req.user!.id, id, result.data);
+      
+      if (!location) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      res.json(location);
+    } catch (error) {
+      console.error("Error updating storage location:", error);
+      res.status(500).json({ message: "Failed to update storage location" });
+    }
+  });
+
+  // Delete a storage location and everything inside it; its cards stay in the collection
+  app.delete("/api/locations/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteStorageLocation(req.user!.id, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting storage location:", error);
+      res.status(500).json({ message: "Failed to delete storage location" });
+    }
+  });
+
+  // List saved searches as smart collections with live totals
+  app.get("/api/saved-searches", async (req: Request, res: Response) => {
+    try {
+      const searches = await storage.getSavedSearches(req.user!.id);
+      const collections = await Promise.all(
+        searches.map((search) => toSmartCollection(req.user!.id, search)),
+      );
+      res.json(collections);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  // Save the current filters under a name
+  app.post("/api/saved-searches", async (req: Request, res: Response) => {
+    try {
+      const result = insertSavedSearchSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      const query = cardFiltersFromQuery(result.data.filters);
+      
+      if (!query.success) {
+        return res.status(400).json(query.error);
+      }
+      
+      const search = await storage.createSavedSearch({ ...result.data, userId: req.user!.id });
+      res.status(201).json(await toSmartCollection(req.user!.id, search));
+    } catch (error) {
+      console.error("Error creating saved search:", error);
+      res.status(500).json({ message: "Failed to create saved search" });
+    }
+  });
+
+  // Rename a saved search or replace its filters
+  app.patch("/api/saved-searches/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const result = updateSavedSearchSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        const validationError = fromZodError(result.error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      
+      if (result.data.filters) {
+        const query = cardFiltersFromQuery(result.data.filters);
+        
+        if (!query.success) {
+          return res.status(400).json(query.error);
+        }
+      }
+      
+      const search = await storage.updateSavedSearch(req.user!.id, id, result.data);
+      
+      if (!search) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      
+      res.json(await toSmartCollection(req.user!.id, search));
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  // Delete a saved search; its cards are untouched
+  app.delete("/api/saved-searches/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteSavedSearch(req.user!.id, id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
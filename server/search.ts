@@ -0,0 +1,156 @@
+import { sql, type SQL } from "drizzle-orm";
+import { cards, type Card } from "@shared/schema";
+import {
+  cardQueryNumberFields,
+  cardQueryTextFields,
+  exactTextFields,
+  normalizeQueryText,
+  parseCardQuery,
+  type CardQueryClause,
+  type CardQueryParseResult,
+} from "@shared/cardQuery";
+import type { CardFilterParams } from "./storage";
+
+// Card fields covered by the search box
+type SearchableCard = Pick<Card, "playerName" | "brand" | "cardSet" | "notes" | "cardNumber" | "year">;
+
+// Anything but letters, combining marks and digits. Built with RegExp because
+// the tsconfig's default target rejects the "u" flag on regex literals.
+const NON_WORD_CHARS = new RegExp("[^\\p{L}\\p{M}\\p{N}]+", "u");
+
+/**
+ * Split text into lowercase, accent-free tokens of letters and digits in any
+ * script, e.g. "Pelé #10, Topps-Chrome" -> ["pele", "10", "topps", "chrome"]
+ * and "大谷翔平 Ohtani" -> ["大谷翔平", "ohtani"]. Combining marks stay in
+ * their word, since scripts like Devanagari need them.
+ */
+export function tokenizeSearch(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(NON_WORD_CHARS)
+    .filter(Boolean);
+}
+
+/**
+ * The normalized text stored in cards.search_text. Tokens are already split
+ * the way the query side splits them, so Postgres's 'simple' parser and the
+ * in-memory matcher see the same words.
+ */
+export function buildCardSearchText(card: SearchableCard): string {
+  return tokenizeSearch(
+    [card.playerName, card.brand, card.cardSet, card.notes, card.cardNumber, card.year?.toString()]
+      .filter(Boolean)
+      .join(" "),
+  ).join(" ");
+}
+
+/**
+ * A tsquery requiring every token, each as a prefix: "messi:* & topps:*".
+ * Tokens are only letters and digits, so no tsquery syntax can leak in.
+ */
+export function toPrefixTsQuery(tokens: string[]): string {
+  return tokens.map((token) => `${token}:*`).join(" & ");
+}
+
+/**
+ * In-memory equivalent of the tsquery match and ts_rank: every query token
+ * must prefix some word, and the rank counts how many words each one hits.
+ * Returns 0 when the card doesn't match.
+ */
+export function rankSearchText(searchText: string, tokens: string[]): number {
+  const words = searchText.split(" ").filter(Boolean);
+  let rank = 0;
+
+  for (const token of tokens) {
+    const hits = words.filter((word) => word.startsWith(token)).length;
+    if (hits === 0) return 0;
+    rank += hits;
+  }
+
+  return rank;
+}
+
+/**
+ * Parse the structured syntax out of params.search: the free text stays as the
+ * search and the field terms become clauses. Fails with the parser's error.
+ */
+export function applyCardQuery(
+  params: CardFilterParams,
+): { success: true; params: CardFilterParams } | Extract<CardQueryParseResult, { success: false }> {
+  const result = parseCardQuery(params.search ?? "");
+  if (!result.success) return result;
+
+  return {
+    success: true,
+    params: { ...params, search: result.query.search, clauses: result.query.clauses },
+  };
+}
+
+// Lowercased text with everything but letters and digits removed, as in normalizeQueryText
+function normalizedColumn(column: SQL): SQL {
+  return sql`regexp_replace(lower(coalesce(${column}, '')), '[^[:alnum:]]', '', 'g')`;
+}
+
+const sqlOperators = { "=": "=", ">": ">", ">=": ">=", "<": "<", "<=": "<=" } as const;
+
+/**
+ * SQL condition for one query clause. Missing values and costs count as zero,
+ * like the value sort.
+ */
+export function cardQueryClauseSql(clause: CardQueryClause): SQL | undefined {
+  let condition: SQL;
+
+  if (clause.kind === "text") {
+    const column = normalizedColumn(sql`${cards[cardQueryTextFields[clause.field]]}`);
+    const value = normalizeQueryText(clause.value);
+    condition = exactTextFields.includes(clause.field)
+      ? sql`${column} = ${value}`
+      : sql`strpos(${column}, ${value}) > 0`;
+  } else if (clause.kind === "search") {
+    const tokens = tokenizeSearch(clause.value);
+    if (tokens.length === 0) return undefined;
+    condition = sql`to_tsvector('simple', ${cards.searchText}) @@ to_tsquery('simple', ${toPrefixTsQuery(tokens)})`;
+  } else {
+    const column = sql`coalesce(${cards[cardQueryNumberFields[clause.field]]}, 0)`;
+    condition = clause.kind === "range"
+      ? sql`${column} between ${clause.min} and ${clause.max}`
+      : sql`${column} ${sql.raw(sqlOperators[clause.operator])} ${clause.value}`;
+  }
+
+  return clause.negate ? sql`not (${condition})` : condition;
+}
+
+/**
+ * In-memory equivalent of cardQueryClauseSql
+ */
+export function matchesCardQueryClause(card: Card, clause: CardQueryClause): boolean {
+  let matches: boolean;
+
+  if (clause.kind === "text") {
+    const text = normalizeQueryText(String(card[cardQueryTextFields[clause.field]] ?? ""));
+    const value = normalizeQueryText(clause.value);
+    matches = exactTextFields.includes(clause.field) ? text === value : text.includes(value);
+  } else if (clause.kind === "search") {
+    const tokens = tokenizeSearch(clause.value);
+    if (tokens.length === 0) return true;
+    matches = rankSearchText(card.searchText, tokens) > 0;
+  } else {
+    const value = card[cardQueryNumberFields[clause.field]] ?? 0;
+    if (clause.kind === "range") {
+      matches = value >= clause.min && value <= clause.max;
+    } else {
+      const comparisons = {
+        "=": value === clause.value,
+        ">": value > clause.value,
+        ">=": value >= clause.value,
+        "<": value < clause.value,
+        "<=": value <= clause.value,
+      };
+      matches = comparisons[clause.operator];
+    }
+  }
+
+  return clause.negate ? !matches : matches;
+}
@@ -0,0 +1,108 @@
+import type { Card, CompListing, SoldListing } from '@shared/schema';
+
+export interface Grade {
+  company: string; // PSA, BGS, SGC, ...
+  grade: number;
+}
+
+// Grading companies we recognise in listing titles (BVG is Beckett's vintage label)
+const GRADE_PATTERN = /\b(PSA|BGS|BVG|SGC|CGC|CSG|HGA)\s*[-#:]?\s*(10|[1-9](?:\.5)?)(?![\d.])/i;
+
+// Listings that aren't a single copy of the real card
+const EXCLUSION_RULES: { reason: string; pattern: RegExp }[] = [
+  { reason: 'Lot or multiple cards', pattern: /\blots?\b|\bbundle\b|\bset of \d+|\b\d+\s*(?:card|cards|ct)\s+lot\b|\(\s*\d+\s*\)\s*cards?\b|\bx\s?\d+\b/i },
+  { reason: 'Reprint', pattern: /\breprints?\b|\bre-print\b|\bRP\b|\bfacsimile\b/i },
+  { reason: 'Custom or fan-made card', pattern: /\bcustom\b|\bfan[- ]made\b|\bnovelty\b|\bproxy\b|\bart card\b|\bACEO\b/i },
+];
+
+/**
+ * Find the grading company and grade in a listing title, e.g. "BGS 9.5"
+ */
+export function parseGrade(title: string): Grade | null {
+  const match = title.match(GRADE_PATTERN);
+  if (!match) return null;
+
+  // BVG uses the same scale as BGS
+  const company = match[1].toUpperCase() === 'BVG' ? 'BGS' : match[1].toUpperCase();
+  return { company, grade: parseFloat(match[2]) };
+}
+
+/**
+ * Turn a card condition value ("raw", "psa10", "bgs95") into the grade it
+ * stands for. Returns "raw" for ungraded cards and undefined for conditions
+ * we can't map, in which case comps aren't filtered by grade.
+ */
+export function conditionToGrade(condition: string | null | undefined): Grade | 'raw' | undefined {
+  if (!condition) return undefined;
+
+  const normalized = condition.toLowerCase().replace(/[\s.]/g, '');
+  if (normalized === 'raw') return 'raw';
+
+  const match = normalized.match(/^(psa|bgs|bvg|sgc|cgc|csg|hga)(\d+)$/);
+  if (!match) return undefined;
+
+  // "95" means 9.5 and "85" means 8.5, but "10" is ten
+  const digits = match[2];
+  const grade = digits === '10' ? 10 : digits.length === 2 ? parseFloat(`${digits[0]}.${digits[1]}`) : parseInt(digits, 10);
+
+  return { company: match[1] === 'bvg' ? 'BGS' : match[1].toUpperCase(), grade };
+}
+
+export function formatGrade(grade: Grade): string {
+  return `${grade.company} ${grade.grade}`;
+}
+
+/**
+ * Build the price search query for a card from its identifying fields,
+ * adding the grade for slabbed cards so results focus on the same grade
+ */
+export function buildCardSearchQuery(card: Pick<Card, 'playerName' | 'year' | 'brand' | 'cardSet' | 'cardNumber' | 'condition'>): string {
+  const parts: string[] = [];
+
+  if (card.year) parts.push(card.year.toString());
+  if (card.brand) parts.push(card.brand);
+  if (card.cardSet) parts.push(card.cardSet);
+  if (card.playerName) parts.push(card.playerName);
+  if (card.cardNumber) parts.push(`#${card.cardNumber.replace(/^#/, '')}`);
+
+  const grade = conditionToGrade(card.condition);
+  if (grade && grade !== 'raw') parts.push(formatGrade(grade));
+
+  // Remove duplicates, e.g. a set name that repeats the brand
+  return Array.from(new Set(parts.filter(Boolean))).join(' ');
+}
+
+/**
+ * Match sold listings against a card's condition. Every listing comes back
+ * with whether it was kept as a comparable sale and, if not, why.
+ */
+export function matchComps(listings: SoldListing[], condition: string | null | undefined): CompListing[] {
+  const target = conditionToGrade(condition);
+
+  return listings.map(listing => {
+    const grade = parseGrade(listing.title);
+    const gradeLabel = grade ? formatGrade(grade) : null;
+    const exclude = (reason: string): CompListing => ({ ...listing, grade: gradeLabel, included: false, reason });
+
+    for (const rule of EXCLUSION_RULES) {
+      if (rule.pattern.test(listing.title)) {
+        return exclude(rule.reason);
+      }
+    }
+
+    if (target === 'raw' && grade) {
+      return exclude(`Graded ${gradeLabel}, card is raw`);
+    }
+
+    if (target && target !== 'raw') {
+      if (!grade) {
+        return exclude(`Raw or ungraded, card is ${formatGrade(target)}`);
+      }
+      if (grade.company !== target.company || grade.grade !== target.grade) {
+        return exclude(`Graded ${gradeLabel}, card is ${formatGrade(target)}`);
+      }
+    }
+
+    return { ...listing, grade: gradeLabel, included: true, reason: null };
+  });
+}
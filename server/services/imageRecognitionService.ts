@@ -1,38 +1,151 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { Card, InsertCard } from '@shared/schema';
+import { z } from 'zod';
+import { log } from '../vite';
+import { InsertCard } from '@shared/schema';
+import type { Detection } from './recognitionReplies';
+import { createClaudeCardRecognizer } from './providers/claudeCardRecognizer';
+import { createFixtureCardRecognizer } from './providers/fixtureCardRecognizer';
 
-// Create an instance of the Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
+// Defaults for the retry policy, each overridable from the environment
+const DEFAULT_TIMEOUT_MS = 60_000; // RECOGNITION_TIMEOUT_MS, per attempt
+const DEFAULT_RETRIES = 2; // RECOGNITION_RETRIES, after the first attempt
+const DEFAULT_RETRY_DELAY_MS = 1000; // RECOGNITION_RETRY_DELAY_MS, doubled after each retry
+
+export interface RecognitionImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface RecognitionCallOptions {
+  // Aborted when the attempt times out
+  signal: AbortSignal;
+}
+
+/**
+ * Reads trading cards off photos. Recognizers throw when they can't get an
+ * answer, with a `status` like API errors have when it's known; retries,
+ * timeouts and checking the answer are handled here.
+ */
+export interface CardRecognizer {
+  name: string;
+  // The card in a photo of one card
+  identify(image: RecognitionImage, options: RecognitionCallOptions): Promise<Partial<InsertCard>>;
+  // A short description for a card's notes
+  describe(card: Partial<InsertCard>, options: RecognitionCallOptions): Promise<string>;
+  // Every card in a scan of several, in reading order
+  identifyBatch?(image: RecognitionImage, options: RecognitionCallOptions): Promise<Detection[]>;
+}
+
+type CardRecognizerFactory = () => CardRecognizer;
+
+const cardRecognizers = new Map<string, CardRecognizerFactory>([
+  ['claude', () => createClaudeCardRecognizer()],
+  ['fixture', () => createFixtureCardRecognizer(process.env.RECOGNITION_FIXTURES_DIR)],
+]);
+
+let activeRecognizer: CardRecognizer | undefined;
+
+/**
+ * Make a recognizer available to CARD_RECOGNIZER, e.g. another vision model
+ */
+export function registerCardRecognizer(name: string, factory: CardRecognizerFactory) {
+  cardRecognizers.set(name, factory);
+  activeRecognizer = undefined;
+}
+
+/**
+ * The recognizer selected by the CARD_RECOGNIZER env var (defaults to "claude")
+ */
+export function getCardRecognizer(): CardRecognizer {
+  if (!activeRecognizer) {
+    const name = process.env.CARD_RECOGNIZER || 'claude';
+    const factory = cardRecognizers.get(name);
+
+    if (!factory) {
+      throw new Error(
+        `Unknown card recognizer "${name}". Available recognizers: ${Array.from(cardRecognizers.keys()).join(', ')}`
+      );
+    }
+
+    activeRecognizer = factory();
+    log(`Using card recognizer "${activeRecognizer.name}"`, 'recognition-service');
+  }
+
+  return activeRecognizer;
+}
+
+// How long each attempt may take and how often a failed one is tried again
+export interface RecognitionPolicy {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+}
+
+// Unset or malformed values fall back to the defaults, so a typo can't make
+// retries endless or time every attempt out at once
+const recognitionPolicySchema = z.object({
+  timeoutMs: z.coerce.number().int().positive().catch(DEFAULT_TIMEOUT_MS),
+  retries: z.coerce.number().int().nonnegative().catch(DEFAULT_RETRIES),
+  retryDelayMs: z.coerce.number().int().nonnegative().catch(DEFAULT_RETRY_DELAY_MS),
 });
 
-// The newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-const MODEL = 'claude-3-7-sonnet-20250219';
+export function getRecognitionPolicy(): RecognitionPolicy {
+  return recognitionPolicySchema.parse({
+    timeoutMs: process.env.RECOGNITION_TIMEOUT_MS || undefined,
+    retries: process.env.RECOGNITION_RETRIES || undefined,
+    retryDelayMs: process.env.RECOGNITION_RETRY_DELAY_MS || undefined,
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Timeouts, rate limits, server errors and failures without a status (e.g.
+// network errors or unreadable replies) may pass on another try; other client
+// errors won't
+function isRetryable(error: unknown): boolean {
+  const status = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+  return typeof status !== 'number' || status === 408 || status === 429 || status >= 500;
+}
 
 /**
- * Maps MIME types to the formats Anthropic API accepts
+ * Run a recognizer call under the policy: each attempt is aborted after the
+ * timeout, and retryable failures are tried again after a growing delay
  */
-function getValidMediaType(contentType: string): "image/jpeg" | "image/png" | "image/gif" | "image/webp" {
-  const loweredType = contentType.toLowerCase();
-  if (loweredType.includes('jpeg') || loweredType.includes('jpg')) {
-    return "image/jpeg";
-  } else if (loweredType.includes('png')) {
-    return "image/png";
-  } else if (loweredType.includes('gif')) {
-    return "image/gif";
-  } else if (loweredType.includes('webp')) {
-    return "image/webp";
+export async function withRecognitionPolicy<T>(
+  label: string,
+  call: (options: RecognitionCallOptions) => Promise<T>,
+  policy: RecognitionPolicy = getRecognitionPolicy()
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(Object.assign(new Error(`Timed out after ${policy.timeoutMs}ms`), { status: 408 }));
+      }, policy.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call({ signal: controller.signal }), timeout]);
+    } catch (error: any) {
+      if (attempt >= policy.retries || !isRetryable(error)) throw error;
+
+      const delayMs = policy.retryDelayMs * 2 ** attempt;
+      log(`${label} failed (${error?.message || 'Unknown error'}), retrying in ${delayMs}ms`, 'recognition-service');
+      await sleep(delayMs);
+    } finally {
+      clearTimeout(timer);
+    }
   }
-  
-  // Default to JPEG if we can't determine
-  return "image/jpeg";
 }
 
 /**
- * Identify a card from an uploaded image using Claude vision model
+ * Identify a card from an uploaded image
  */
 export async function identifyCardFromImage(
-  base64Image: string,
+  data: Buffer,
   contentType: string
 ): Promise<{
   success: boolean;
@@ -41,137 +154,90 @@ export async function identifyCardFromImage(
 }> {
   try {
     // Basic validation
-    if (!base64Image) {
+    if (data.length === 0) {
       return { success: false, error: "No image data provided" };
     }
 
-    // Form the system prompt for Claude
-    const systemPrompt = `You are a trading card recognition expert. 
-Analyze the image of the trading card and extract the following information:
-- Player name
-- Sport (baseball, basketball, football, hockey, soccer, etc.)
-- Card year
-- Card brand (manufacturer like Topps, Panini, Upper Deck, etc.)
-- Card set name
-- Card number (if visible)
-- Condition (assume "new" if not clearly damaged)
-
-If any information is not visible or cannot be determined, leave it blank.
-Return the information as valid JSON with these exact keys: playerName, sport, year, brand, cardSet, cardNumber, condition.
-ONLY return the JSON, nothing else.`;
-
-    // Call Claude with the image
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 1024,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: getValidMediaType(contentType),
-                data: base64Image,
-              },
-            },
-            {
-              type: 'text',
-              text: 'Analyze this trading card and extract the information as JSON as specified in your instructions.',
-            },
-          ],
-        },
-      ],
-    });
-
-    // Parse the response
-    const textContent = response.content[0].type === 'text' 
-      ? response.content[0].text 
-      : '{}';
-    
-    // Extract the JSON from the response
-    let cardData;
-    try {
-      // Try direct parsing first
-      cardData = JSON.parse(textContent);
-    } catch (e) {
-      // Try to extract JSON from text if direct parsing fails
-      const jsonMatch = textContent.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cardData = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("Could not parse JSON from response");
-      }
-    }
-    
-    // Transform to InsertCard format
-    const card: Partial<InsertCard> = {
-      playerName: cardData.playerName || '',
-      sport: cardData.sport?.toLowerCase() || 'other',
-      year: cardData.year ? parseInt(cardData.year, 10) : new Date().getFullYear(),
-      brand: cardData.brand || '',
-      cardSet: cardData.cardSet || '',
-      cardNumber: cardData.cardNumber || '',
-      condition: cardData.condition?.toLowerCase() || 'new',
-      purchasePrice: 0,
-      notes: `${cardData.cardSet || ''} ${cardData.cardNumber || ''}`.trim(),
-      imageUrl: '', // Will be filled in by the server if image is uploaded
-    };
+    const recognizer = getCardRecognizer();
+    const card = await withRecognitionPolicy('Card recognition', (options) =>
+      recognizer.identify({ data, contentType }, options)
+    );
 
     // Basic validation
     if (!card.playerName) {
-      return { 
-        success: false, 
+      return {
+        success: false,
         card,
-        error: "Could not identify player name from the image. Please enter card details manually." 
+        error: "Could not identify player name from the image. Please enter card details manually."
       };
     }
 
     return { success: true, card };
   } catch (error: any) {
     console.error('Error in identifyCardFromImage:', error);
-    return { 
-      success: false, 
-      error: `Error identifying card: ${error?.message || 'Unknown error'}` 
+    return {
+      success: false,
+      error: `Error identifying card: ${error?.message || 'Unknown error'}`
     };
   }
 }
 
 /**
- * Generate a description for a card using Claude
+ * Find every card in a scan of several, e.g. a 9-pocket binder page or a
+ * flatbed scan, and read each one. Detections come back in reading order;
+ * ones without a usable box are dropped.
+ */
+export async function identifyCardsInImage(
+  data: Buffer,
+  contentType: string
+): Promise<{
+  success: boolean;
+  detections?: Detection[];
+  error?: string;
+}> {
+  try {
+    if (data.length === 0) {
+      return { success: false, error: "No image data provided" };
+    }
+
+    const recognizer = getCardRecognizer();
+    const identifyBatch = recognizer.identifyBatch?.bind(recognizer);
+    if (!identifyBatch) {
+      return { success: false, error: "Multi-card scans aren't supported by the configured recognizer. Please add the cards one at a time." };
+    }
+
+    const detections = await withRecognitionPolicy('Multi-card recognition', (options) =>
+      identifyBatch({ data, contentType }, options)
+    );
+
+    if (detections.length === 0) {
+      return {
+        success: false,
+        error: "Could not find any cards in the image. Please try a clearer scan or add the cards one at a time.",
+      };
+    }
+
+    return { success: true, detections };
+  } catch (error: any) {
+    console.error('Error in identifyCardsInImage:', error);
+    return {
+      success: false,
+      error: `Error identifying cards: ${error?.message || 'Unknown error'}`
+    };
+  }
+}
+
+/**
+ * Generate a description for a card, or an empty string when that fails
  */
 export async function generateCardDescription(
-  card: Partial<Card>
+  card: Partial<InsertCard>
 ): Promise<string> {
   try {
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content: `Generate a brief, professional description for this trading card:
-Player: ${card.playerName}
-Sport: ${card.sport}
-Year: ${card.year}
-Brand: ${card.brand}
-Set: ${card.cardSet || 'Unknown'}
-Card Number: ${card.cardNumber || 'Unknown'}
-
-Please keep it factual and focused on what makes this card noteworthy.`,
-        },
-      ],
-    });
-
-    const textContent = response.content[0].type === 'text'
-      ? response.content[0].text
-      : '';
-      
-    return textContent.trim();
+    const recognizer = getCardRecognizer();
+    return await withRecognitionPolicy('Card description', (options) => recognizer.describe(card, options));
   } catch (error: any) {
     console.error('Error in generateCardDescription:', error);
     return '';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { log } from '../vite';
+import { storage } from '../storage';
+import type { DetectionBox, StoredImage, UploadedImage } from '@shared/schema';
+import { imageThumbnailUrl, imageUrl } from '@shared/cardImages';
+import { createLocalImageStore } from './providers/localImageStore';
+
+// Thumbnails fit inside this box, which is roughly a card's 5:7 shape
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 448;
+
+/**
+ * Where image files are kept. Stores only move bytes around; hashing,
+ * thumbnails and who owns what are handled here.
+ */
+export interface ImageStore {
+  name: string;
+  exists(key: string): Promise<boolean>;
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+}
+
+type ImageStoreFactory = () => ImageStore;
+
+const imageStores = new Map<string, ImageStoreFactory>([
+  ['local', () => createLocalImageStore(process.env.IMAGE_STORAGE_DIR)],
+]);
+
+let activeStore: ImageStore | undefined;
+
+/**
+ * Make a store available to IMAGE_STORE, e.g. an object storage bucket
+ */
+export function registerImageStore(name: string, factory: ImageStoreFactory) {
+  imageStores.set(name, factory);
+  activeStore = undefined;
+}
+
+/**
+ * The store selected by the IMAGE_STORE env var (defaults to "local")
+ */
+export function getImageStore(): ImageStore {
+  if (!activeStore) {
+    const name = process.env.IMAGE_STORE || 'local';
+    const factory = imageStores.get(name);
+
+    if (!factory) {
+      throw new Error(
+        `Unknown image store "${name}". Available stores: ${Array.from(imageStores.keys()).join(', ')}`
+      );
+    }
+
+    activeStore = factory();
+    log(`Using image store "${activeStore.name}"`, 'image-service');
+  }
+
+  return activeStore;
+}
+
+const originalKey = (hash: string) => `originals/${hash.slice(0, 2)}/${hash}`;
+const thumbnailKey = (hash: string) => `thumbnails/${hash.slice(0, 2)}/${hash}.jpg`;
+
+export function isImageHash(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
+
+function toStoredImage(image: UploadedImage): StoredImage {
+  return {
+    hash: image.hash,
+    contentType: image.contentType,
+    width: image.width,
+    height: image.height,
+    bytes: image.bytes,
+    url: imageUrl(image.hash),
+    thumbnailUrl: imageThumbnailUrl(image.hash),
+  };
+}
+
+/**
+ * Store an uploaded photo for a user and make its thumbnail. Photos are kept
+ * under the hash of their bytes, so uploading the same photo again reuses the
+ * stored files. Returns null when the data isn't a readable image.
+ */
+export async function storeImage(userId: number, data: Buffer, contentType: string): Promise<StoredImage | null> {
+  const hash = crypto.createHash('sha256').update(data).digest('hex');
+
+  const existing = await storage.getUploadedImage(userId, hash);
+  if (existing) return toStoredImage(existing);
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    return null;
+  }
+  if (!metadata.width || !metadata.height) return null;
+
+  // EXIF orientations 5-8 are rotated a quarter turn, so the sides swap
+  const rotated = (metadata.orientation ?? 1) >= 5;
+
+  const store = getImageStore();
+  if (!(await store.exists(originalKey(hash)))) {
+    await store.put(originalKey(hash), data);
+  }
+  if (!(await store.exists(thumbnailKey(hash)))) {
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    await store.put(thumbnailKey(hash), thumbnail);
+  }
+
+  const saved = await storage.saveUploadedImage({
+    userId,
+    hash,
+    contentType,
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    bytes: data.length,
+  });
+  return toStoredImage(saved);
+}
+
+/**
+ * Cut the part of a photo inside a box, as a JPEG. The box is taken on the
+ * photo the right way up. Returns null when less than a pixel is left after
+ * clamping the box to the photo.
+ */
+export async function cropImage(data: Buffer, box: DetectionBox): Promise<Buffer | null> {
+  const upright = await sharp(data).rotate().toBuffer({ resolveWithObject: true });
+  const { width, height } = upright.info;
+
+  const left = Math.min(Math.max(Math.round(box.x * width), 0), width);
+  const top = Math.min(Math.max(Math.round(box.y * height), 0), height);
+  const right = Math.min(Math.round((box.x + box.width) * width), width);
+  const bottom = Math.min(Math.round((box.y + box.height) * height), height);
+  if (right - left < 1 || bottom - top < 1) return null;
+
+  return await sharp(upright.data)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+}
+
+/**
+ * The bytes of one of a user's photos, or its thumbnail. Null when the user
+ * never uploaded it.
+ */
+export async function readImage(
+  userId: number,
+  hash: string,
+  variant: 'original' | 'thumbnail'
+): Promise<{ data: Buffer; contentType: string } | null> {
+  const image = await storage.getUploadedImage(userId, hash);
+  if (!image) return null;
+
+  const data = await getImageStore().get(variant === 'original' ? originalKey(hash) : thumbnailKey(hash));
+  if (!data) return null;
+
+  return { data, contentType: variant === 'original' ? image.contentType : 'image/jpeg' };
+}
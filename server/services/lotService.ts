@@ -0,0 +1,26 @@
+import { storage } from '../storage';
+import { allocateLotCosts } from '@shared/costBasis';
+
+/**
+ * Spread a lot's price, fees, shipping and tax over the cards now in it. Sold
+ * cards keep their costs; the cards still held share the rest.
+ */
+export async function reallocateLot(userId: number, lotId: number): Promise<void> {
+  const lot = await storage.getAcquisitionLot(userId, lotId);
+  if (!lot) return;
+
+  const cards = await storage.getLotCards(userId, lotId);
+  await storage.applyLotCosts(userId, lot, allocateLotCosts(lot, cards));
+}
+
+/**
+ * Put cards in a lot and reallocate it, along with any lot they were taken from
+ */
+export async function assignLotCards(userId: number, lotId: number, cardIds: number[]): Promise<void> {
+  const previousLots = await storage.setLotCards(userId, lotId, cardIds);
+
+  await reallocateLot(userId, lotId);
+  for (const previousLotId of previousLots) {
+    await reallocateLot(userId, previousLotId);
+  }
+}
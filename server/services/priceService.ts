@@ -1,129 +1,221 @@
 import { log } from '../vite';
-import * as https from 'https';
-
-interface EbaySoldItem {
-  title: string;
-  price: number;
-  date: string;
-  link: string;
-  imageUrl?: string;
+import { storage } from '../storage';
+import type { PriceAnalysis, PriceCacheEntry, PriceCacheInfo, SoldListing } from '@shared/schema';
+import { matchComps } from './compsService';
+import { confidenceScore, iqrBounds, mean, median, recencyWeightedMean, trimmedMean } from './priceStatistics';
+import { syntheticPriceProvider } from './providers/syntheticPriceProvider';
+import { createFixturePriceProvider } from './providers/fixturePriceProvider';
+
+// Only the first few listings are sent back for display; stats use all of them
+const MAX_DISPLAY_ITEMS = 10;
+
+// How long fetched listings are reused; PRICE_CACHE_TTL_HOURS=0 disables the cache
+const DEFAULT_CACHE_TTL_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * A source of sold listings for a search query. Providers only fetch and
+ * parse listings; the statistics in PriceAnalysis are computed here so every
+ * provider produces the same contract.
+ */
+export interface PriceProvider {
+  name: string;
+  // True when the listings are generated rather than real sales
+  simulated: boolean;
+  fetchSoldListings(searchQuery: string): Promise<SoldListing[]>;
 }
 
-interface PriceAnalysis {
-  items: EbaySoldItem[];
-  averagePrice: number;
-  minPrice: number;
-  maxPrice: number;
-  medianPrice: number;
-  totalResults: number;
-  searchQuery: string;
+type PriceProviderFactory = () => PriceProvider;
+
+const priceProviders = new Map<string, PriceProviderFactory>([
+  ['synthetic', () => syntheticPriceProvider],
+  // PRICE_FIXTURES_FALLBACK=true answers unrecorded queries from _default
+  ['fixture', () => createFixturePriceProvider(process.env.PRICE_FIXTURES_DIR, process.env.PRICE_FIXTURES_FALLBACK === 'true')],
+]);
+
+let activeProvider: PriceProvider | undefined;
+
+/**
+ * Make a provider available to PRICE_PROVIDER, e.g. a real marketplace source
+ */
+export function registerPriceProvider(name: string, factory: PriceProviderFactory) {
+  priceProviders.set(name, factory);
+  activeProvider = undefined;
 }
 
-// Function to get simulated sample price data
-export async function scrapeEbayPrices(searchQuery: string): Promise<PriceAnalysis> {
-  log(`Generating price analysis for "${searchQuery}"`, 'price-service');
-  
-  try {
-    // Since we can't reliably scrape eBay due to puppeteer dependencies, 
-    // we'll generate realistic sample data based on the search query
-    // This is a simpler approach for the demo
-    
-    // Seed a random number based on search query for consistent results per card
-    let seed = searchQuery.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const random = (min: number, max: number) => {
-      const x = Math.sin(seed++) * 10000;
-      const r = x - Math.floor(x);
-      return Math.floor(r * (max - min + 1) + min);
-    };
-    
-    // Generate base price based on search terms
-    let basePrice = 5; // Start with $5 as base price
-    
-    // Check for key terms that would increase value
-    const terms = searchQuery.toLowerCase();
-    
-    if (terms.includes('rookie') || terms.includes('rc')) basePrice += 20;
-    if (terms.includes('autograph') || terms.includes('auto')) basePrice += 50;
-    if (terms.includes('1st') || terms.includes('first edition')) basePrice += 30;
-    if (terms.includes('refractor') || terms.includes('prizm')) basePrice += 15;
-    if (terms.includes('patch') || terms.includes('jersey')) basePrice += 25;
-    if (terms.includes('psa') || terms.includes('bgs')) basePrice += 40;
-    if (terms.includes('parallel') || terms.includes('numbered')) basePrice += 20;
-    if (terms.includes('ssp') || terms.includes('rare')) basePrice += 35;
-    
-    // Add some randomness to the base price
-    basePrice = basePrice * (1 + (random(-20, 20) / 100));
-    
-    // Generate the number of items (between 5 and 15)
-    const itemCount = random(5, 15);
-    
-    // Generate items
-    const items: EbaySoldItem[] = [];
-    const dates = ['May 1', 'May 2', 'May 3', 'May 4', 'May 5', 'May 6', 'May 7'];
-    
-    for (let i = 0; i < itemCount; i++) {
-      // Fluctuate price by up to 40% from base price
-      const priceVariance = basePrice * (random(-40, 40) / 100);
-      const price = basePrice + priceVariance;
-      
-      // Create title variations
-      const conditionTerms = ['Mint', 'NM', 'NM-MT', 'VG-EX', 'GD'];
-      const extraTerms = ['Shipped in Top Loader', 'w/ One Touch', 'HOT!', 'LOOK'];
-      
-      const condition = conditionTerms[random(0, conditionTerms.length - 1)];
-      const extra = random(0, 1) === 1 ? extraTerms[random(0, extraTerms.length - 1)] : '';
-      
-      items.push({
-        title: `${searchQuery} - ${condition} ${extra}`.trim(),
-        price: parseFloat(price.toFixed(2)),
-        date: dates[random(0, dates.length - 1)],
-        link: `https://www.ebay.com/itm/${random(100000000, 999999999)}`,
-        imageUrl: `https://i.ebayimg.com/images/g/${random(10000, 99999)}/s-l1600.jpg`
-      });
-    }
-    
-    // Calculate statistics for the generated data
-    const prices = items.map(item => item.price);
-    
-    // Calculate average
-    const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-    
-    // Calculate min and max
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    
-    // Calculate median
-    const sortedPrices = [...prices].sort((a, b) => a - b);
-    const middle = Math.floor(sortedPrices.length / 2);
-    
-    let medianPrice;
-    if (sortedPrices.length % 2 === 0) {
-      medianPrice = (sortedPrices[middle - 1] + sortedPrices[middle]) / 2;
-    } else {
-      medianPrice = sortedPrices[middle];
+/**
+ * The provider selected by the PRICE_PROVIDER env var (defaults to "synthetic")
+ */
+export function getPriceProvider(): PriceProvider {
+  if (!activeProvider) {
+    const name = process.env.PRICE_PROVIDER || 'synthetic';
+    const factory = priceProviders.get(name);
+
+    if (!factory) {
+      throw new Error(
+        `Unknown price provider "${name}". Available providers: ${Array.from(priceProviders.keys()).join(', ')}`
+      );
     }
-    
-    return {
-      items: items.slice(0, 10), // Return only the first 10 items
-      averagePrice,
-      minPrice,
-      maxPrice,
-      medianPrice,
-      totalResults: items.length,
-      searchQuery
-    };
-  } catch (error) {
-    log(`Error generating price analysis: ${error}`, 'price-service');
-    
-    // Return empty results on error
+
+    activeProvider = factory();
+    log(`Using price provider "${activeProvider.name}"`, 'price-service');
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Calculate price statistics for a set of sold listings
+ */
+export function summarizeListings(
+  items: SoldListing[],
+  searchQuery: string,
+  provider: PriceProvider
+): PriceAnalysis {
+  const prices = items.map(item => item.price);
+
+  if (prices.length === 0) {
     return {
       items: [],
       averagePrice: 0,
       minPrice: 0,
       maxPrice: 0,
       medianPrice: 0,
+      trimmedMeanPrice: 0,
+      filteredAveragePrice: 0,
+      recencyWeightedPrice: 0,
+      outlierCount: 0,
+      confidence: 0,
       totalResults: 0,
-      searchQuery
+      searchQuery,
+      provider: provider.name,
+      simulated: provider.simulated,
     };
   }
-}
\ No newline at end of file
+
+  // Drop prices outside the IQR fences before the robust estimates
+  const { lower, upper } = iqrBounds(prices);
+  const inliers = items.filter(item => item.price >= lower && item.price <= upper);
+  const inlierPrices = inliers.map(item => item.price);
+
+  return {
+    items: items.slice(0, MAX_DISPLAY_ITEMS),
+    averagePrice: mean(prices),
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+    medianPrice: median(prices),
+    trimmedMeanPrice: trimmedMean(prices),
+    filteredAveragePrice: mean(inlierPrices),
+    recencyWeightedPrice: recencyWeightedMean(inliers),
+    outlierCount: items.length - inliers.length,
+    confidence: confidenceScore(inlierPrices),
+    totalResults: items.length,
+    searchQuery,
+    provider: provider.name,
+    simulated: provider.simulated,
+  };
+}
+
+/**
+ * Normalize a search query into its cache key, so case, accents, punctuation,
+ * spacing and word order don't split the cache, e.g.
+ * "Topps  2011 Mike Trout" and "2011 topps mike trout" share an entry
+ */
+export function normalizePriceQuery(searchQuery: string): string {
+  const tokens = searchQuery
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Keep card numbers (#175) and half grades (9.5)
+    .replace(/[^a-z0-9#.]+|\.(?!\d)|(?<!\d)\./g, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+  return Array.from(new Set(tokens)).sort().join(' ');
+}
+
+function describeCacheEntry(entry: PriceCacheEntry, hit: boolean, stale: boolean = false): PriceCacheInfo {
+  return {
+    hit,
+    stale,
+    fetchedAt: entry.fetchedAt.toISOString(),
+    ageSeconds: Math.max(0, Math.round((Date.now() - entry.fetchedAt.getTime()) / 1000)),
+  };
+}
+
+/**
+ * Sold listings for a query, from the cache while fresh and from the
+ * provider otherwise. An expired entry is still served if the provider fails.
+ */
+async function fetchSoldListings(
+  provider: PriceProvider,
+  searchQuery: string,
+  options: PriceAnalysisOptions
+): Promise<{ listings: SoldListing[]; cache: PriceCacheInfo }> {
+  const queryKey = normalizePriceQuery(searchQuery);
+  const ttlMs = Number(process.env.PRICE_CACHE_TTL_HOURS ?? DEFAULT_CACHE_TTL_HOURS) * HOUR_MS;
+  const entry = await storage.getPriceCacheEntry(provider.name, queryKey);
+
+  if (entry && !options.refresh && Date.now() - entry.fetchedAt.getTime() < ttlMs) {
+    return { listings: entry.listings, cache: describeCacheEntry(entry, true) };
+  }
+
+  try {
+    await options.beforeFetch?.();
+    const listings = await provider.fetchSoldListings(searchQuery);
+    const saved = await storage.savePriceCacheEntry({
+      provider: provider.name,
+      queryKey,
+      searchQuery,
+      listings,
+      fetchedAt: new Date(),
+    });
+
+    return { listings, cache: describeCacheEntry(saved, false) };
+  } catch (error) {
+    if (!entry) throw error;
+
+    log(`Serving stale listings for "${searchQuery}": ${error}`, 'price-service');
+    return { listings: entry.listings, cache: describeCacheEntry(entry, true, true) };
+  }
+}
+
+export interface PriceAnalysisOptions {
+  // When set, only comps matching this card condition feed the statistics
+  condition?: string;
+  // Skip the cache and fetch fresh listings from the provider
+  refresh?: boolean;
+  // Called right before the provider is hit (not on cache hits), e.g. to throttle
+  beforeFetch?: () => Promise<void>;
+}
+
+/**
+ * Look up recent sales for a search query using the configured provider,
+ * going through the price cache. Provider and cache errors are thrown, so a
+ * failed lookup isn't mistaken for a query without sales.
+ */
+export async function getPriceAnalysis(
+  searchQuery: string,
+  options: PriceAnalysisOptions = {}
+): Promise<PriceAnalysis> {
+  const provider = getPriceProvider();
+  log(`Generating price analysis for "${searchQuery}" via ${provider.name}`, 'price-service');
+
+  const { listings, cache } = await fetchSoldListings(provider, searchQuery, options);
+
+  if (!options.condition) {
+    return { ...summarizeListings(listings, searchQuery, provider), cache };
+  }
+
+  const comps = matchComps(listings, options.condition);
+  const included = comps
+    .filter(comp => comp.included)
+    .map(({ grade, included, reason, ...listing }) => listing);
+
+  return {
+    ...summarizeListings(included, searchQuery, provider),
+    condition: options.condition,
+    comps,
+    cache,
+  };
+}
@@ -0,0 +1,127 @@
+import type { SoldListing } from '@shared/schema';
+
+// Sales this many days old count half as much in the recency-weighted estimate
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// Fraction cut from each end for the trimmed mean
+const TRIM_FRACTION = 0.1;
+
+// Number of comps at which sample size stops limiting confidence
+const FULL_CONFIDENCE_SAMPLE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date strings need a month name or a numeric day/month to count as dates;
+// Date() alone happily parses arbitrary text
+const DATE_LIKE_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b|\d{1,4}[/-]\d{1,2}/i;
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Linear-interpolated quantile (q between 0 and 1) of a sorted array
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Mean after dropping the lowest and highest TRIM_FRACTION of values
+ */
+export function trimmedMean(values: number[], fraction: number = TRIM_FRACTION): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const cut = Math.floor(sorted.length * fraction);
+  return mean(sorted.slice(cut, sorted.length - cut));
+}
+
+/**
+ * Tukey fences: a value is an outlier when it falls more than 1.5 IQR
+ * outside the first or third quartile. Needs at least 4 values to judge.
+ */
+export function iqrBounds(values: number[]): { lower: number; upper: number } {
+  if (values.length < 4) {
+    return { lower: -Infinity, upper: Infinity };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+
+  return { lower: q1 - 1.5 * iqr, upper: q3 + 1.5 * iqr };
+}
+
+/**
+ * Parse a listing's sold date. Dates without a year ("May 1") are taken to
+ * be the most recent such day that isn't in the future.
+ */
+export function parseSoldDate(date: string, now: Date = new Date()): Date | null {
+  if (!date || !DATE_LIKE_PATTERN.test(date)) return null;
+
+  const hasYear = /\b\d{4}\b/.test(date);
+  const parsed = new Date(hasYear ? date : `${date} ${now.getFullYear()}`);
+  if (isNaN(parsed.getTime())) return null;
+
+  if (!hasYear && parsed.getTime() > now.getTime()) {
+    parsed.setFullYear(parsed.getFullYear() - 1);
+  }
+
+  return parsed;
+}
+
+/**
+ * Weighted mean where each sale's weight halves every RECENCY_HALF_LIFE_DAYS.
+ * Sales without a usable date get the weight of a sale from today.
+ */
+export function recencyWeightedMean(listings: SoldListing[], now: Date = new Date()): number {
+  if (listings.length === 0) return 0;
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const listing of listings) {
+    const soldAt = parseSoldDate(listing.date, now);
+    const ageDays = soldAt ? Math.max(0, (now.getTime() - soldAt.getTime()) / DAY_MS) : 0;
+    const weight = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+    weightedSum += listing.price * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * Confidence from 0 to 1. Small samples and widely spread prices (high
+ * coefficient of variation) both lower it.
+ */
+export function confidenceScore(values: number[]): number {
+  if (values.length === 0) return 0;
+
+  const average = mean(values);
+  const variance = mean(values.map(value => (value - average) ** 2));
+  const coefficientOfVariation = average > 0 ? Math.sqrt(variance) / average : 1;
+
+  const sampleScore = Math.min(1, values.length / FULL_CONFIDENCE_SAMPLE);
+  const dispersionScore = Math.max(0, 1 - coefficientOfVariation);
+
+  return Math.round(sampleScore * dispersionScore * 100) / 100;
+}
@@ -0,0 +1,151 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { InsertCard } from '@shared/schema';
+import type { CardRecognizer, RecognitionImage } from '../imageRecognitionService';
+import { MAX_DETECTIONS, parseJsonReply, toCardFields, toDetections } from '../recognitionReplies';
+
+// The newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+const DEFAULT_MODEL = 'claude-3-7-sonnet-20250219';
+
+const CARD_FIELDS_PROMPT = `- Player name
+- Sport (baseball, basketball, football, hockey, soccer, etc.)
+- Card year
+- Card brand (manufacturer like Topps, Panini, Upper Deck, etc.)
+- Card set name
+- Card number (if visible)
+- Condition (assume "new" if not clearly damaged)`;
+
+/**
+ * Maps MIME types to the formats Anthropic API accepts
+ */
+function getValidMediaType(contentType: string): "image/jpeg" | "image/png" | "image/gif" | "image/webp" {
+  const loweredType = contentType.toLowerCase();
+  if (loweredType.includes('jpeg') || loweredType.includes('jpg')) {
+    return "image/jpeg";
+  } else if (loweredType.includes('png')) {
+    return "image/png";
+  } else if (loweredType.includes('gif')) {
+    return "image/gif";
+  } else if (loweredType.includes('webp')) {
+    return "image/webp";
+  }
+
+  // Default to JPEG if we can't determine
+  return "image/jpeg";
+}
+
+function imageBlock(image: RecognitionImage): Anthropic.ImageBlockParam {
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: getValidMediaType(image.contentType),
+      data: image.data.toString('base64'),
+    },
+  };
+}
+
+function replyText(response: Anthropic.Message, fallback: string): string {
+  return response.content[0]?.type === 'text' ? response.content[0].text : fallback;
+}
+
+/**
+ * Reads cards with a Claude vision model. The client doesn't retry or time
+ * out on its own; the recognition service's policy does both.
+ */
+export function createClaudeCardRecognizer(
+  apiKey: string | undefined = process.env.ANTHROPIC_API_KEY,
+  model: string = process.env.RECOGNITION_MODEL || DEFAULT_MODEL
+): CardRecognizer {
+  const anthropic = new Anthropic({ apiKey, maxRetries: 0 });
+
+  return {
+    name: 'claude',
+
+    async identify(image, { signal }): Promise<Partial<InsertCard>> {
+      const systemPrompt = `You are a trading card recognition expert.
+Analyze the image of the trading card and extract the following information:
+${CARD_FIELDS_PROMPT}
+
+If any information is not visible or cannot be determined, leave it blank.
+Return the information as valid JSON with these exact keys: playerName, sport, year, brand, cardSet, cardNumber, condition.
+ONLY return the JSON, nothing else.`;
+
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: 1024,
+        system: systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              imageBlock(image),
+              {
+                type: 'text',
+                text: 'Analyze this trading card and extract the information as JSON as specified in your instructions.',
+              },
+            ],
+          },
+        ],
+      }, { signal });
+
+      return toCardFields(parseJsonReply(replyText(response, '{}'), /\{[\s\S]*\}/));
+    },
+
+    async identifyBatch(image, { signal }) {
+      const systemPrompt = `You are a trading card recognition expert.
+The image is a scan or photo of several trading cards, such as a binder page or a flatbed scan.
+Find every card in it, up to ${MAX_DETECTIONS}, and for each one extract:
+${CARD_FIELDS_PROMPT}
+- Its bounding box, as fractions of the image's width and height from the top left corner
+
+If any information is not visible or cannot be determined, leave it blank.
+Return a valid JSON array with one object per card, in reading order (left to right, top to bottom).
+Each object has these exact keys: playerName, sport, year, brand, cardSet, cardNumber, condition, box.
+box is an object with the keys x, y, width and height, each between 0 and 1.
+ONLY return the JSON array, nothing else.`;
+
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: 4096,
+        system: systemPrompt,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              imageBlock(image),
+              {
+                type: 'text',
+                text: 'Find the trading cards in this image and extract their information as a JSON array as specified in your instructions.',
+              },
+            ],
+          },
+        ],
+      }, { signal });
+
+      return toDetections(parseJsonReply(replyText(response, '[]'), /\[[\s\S]*\]/));
+    },
+
+    async describe(card, { signal }): Promise<string> {
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: 1024,
+        messages: [
+          {
+            role: 'user',
+            content: `Generate a brief, professional description for this trading card:
+Player: ${card.playerName}
+Sport: ${card.sport}
+Year: ${card.year}
+Brand: ${card.brand}
+Set: ${card.cardSet || 'Unknown'}
+Card Number: ${card.cardNumber || 'Unknown'}
+
+Please keep it factual and focused on what makes this card noteworthy.`,
+          },
+        ],
+      }, { signal });
+
+      return replyText(response, '').trim();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { CardRecognizer } from '../imageRecognitionService';
+import { toCardFields, toDetections } from '../recognitionReplies';
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'server', 'fixtures', 'recognition');
+
+// Used when there is no fixture recorded for an image
+const FALLBACK_FIXTURE = '_default';
+
+// Recorded replies for one image, in the JSON shape the model replies with.
+// `error` makes every call for the image fail instead, e.g. to exercise retries.
+const recognitionFixtureSchema = z.object({
+  card: z.record(z.unknown()).optional(),
+  cards: z.array(z.unknown()).optional(),
+  error: z.object({ message: z.string(), status: z.number().int().optional() }).optional(),
+});
+
+type RecognitionFixture = z.infer<typeof recognitionFixtureSchema>;
+
+// Errors carry a status like API errors do, so the retry policy treats them alike
+function fixtureError(message: string, status?: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Replays recorded recognition replies from disk, for working offline and in
+ * tests. Each image is looked up as <sha256 of its bytes>.json in the
+ * fixtures directory, falling back to _default.json. Descriptions are made
+ * up from the card's fields.
+ */
+export function createFixtureCardRecognizer(fixturesDir: string = DEFAULT_FIXTURES_DIR): CardRecognizer {
+  const readFixture = async (key: string): Promise<RecognitionFixture | null> => {
+    const jsonPath = path.join(fixturesDir, `${key}.json`);
+    if (!fs.existsSync(jsonPath)) return null;
+
+    const raw = JSON.parse(await fs.promises.readFile(jsonPath, 'utf-8'));
+    return recognitionFixtureSchema.parse(raw);
+  };
+
+  const fixtureFor = async (data: Buffer): Promise<RecognitionFixture> => {
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+    const fixture = (await readFixture(hash)) ?? (await readFixture(FALLBACK_FIXTURE));
+
+    if (!fixture) {
+      throw fixtureError(`No recognition fixture recorded for image ${hash}`, 404);
+    }
+    if (fixture.error) {
+      throw fixtureError(fixture.error.message, fixture.error.status);
+    }
+    return fixture;
+  };
+
+  return {
+    name: 'fixture',
+
+    async identify(image) {
+      const fixture = await fixtureFor(image.data);
+      if (!fixture.card) {
+        throw fixtureError('The fixture has no single-card reply', 404);
+      }
+      return toCardFields(fixture.card);
+    },
+
+    async identifyBatch(image) {
+      const fixture = await fixtureFor(image.data);
+      if (!fixture.cards) {
+        throw fixtureError('The fixture has no multi-card reply', 404);
+      }
+      return toDetections(fixture.cards);
+    },
+
+    async describe(card) {
+      const number = card.cardNumber ? ` #${card.cardNumber}` : '';
+      return `${card.year} ${card.brand} ${card.cardSet || ''}${number} card of ${card.playerName}.`.replace(/\s+/g, ' ');
+    },
+  };
+}
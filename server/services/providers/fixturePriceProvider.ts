@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import * as cheerio from 'cheerio';
+import { z } from 'zod';
+import type { SoldListing } from '@shared/schema';
+import type { PriceProvider } from '../priceService';
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'server', 'fixtures', 'prices');
+
+// Used for queries without a recorded fixture, when the fallback is enabled
+const FALLBACK_FIXTURE = '_default';
+
+const soldListingSchema = z.object({
+  title: z.string(),
+  price: z.coerce.number(),
+  date: z.string().default(''),
+  link: z.string().optional(),
+  imageUrl: z.string().optional(),
+});
+
+// Either a bare array of listings or { listings: [...] }
+const listingFixtureSchema = z.union([
+  z.array(soldListingSchema),
+  z.object({ listings: z.array(soldListingSchema) }).transform(fixture => fixture.listings),
+]);
+
+/**
+ * Turn a search query into the file name its fixture is recorded under,
+ * e.g. "Lionel Messi #10 2024 Topps" -> "lionel-messi-10-2024-topps"
+ */
+export function fixtureKey(searchQuery: string): string {
+  return searchQuery
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse a price such as "$1,234.50" or "$10.00 to $15.00" (takes the first)
+ */
+function parsePrice(text: string): number | null {
+  const match = text.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Extract sold listings from a saved eBay sold/completed search results page
+ */
+export function parseSoldListingsHtml(html: string): SoldListing[] {
+  const $ = cheerio.load(html);
+  const listings: SoldListing[] = [];
+
+  $('li.s-item, div.s-item').each((_, element) => {
+    const item = $(element);
+
+    // eBay adds "New Listing" badges inside the title element
+    const titleElement = item.find('.s-item__title').first().clone();
+    titleElement.find('.LIGHT_HIGHLIGHT, .s-item__new-listing').remove();
+    const title = titleElement.text().trim();
+
+    // The first result is a "Shop on eBay" placeholder
+    if (!title || /^shop on ebay$/i.test(title)) return;
+
+    const price = parsePrice(item.find('.s-item__price').first().text());
+    if (price === null) return;
+
+    const soldText = item
+      .find('.s-item__caption--signal, .s-item__title--tagblock .POSITIVE, .s-item__ended-date')
+      .first()
+      .text()
+      .trim();
+    const date = soldText.replace(/^sold\s*/i, '').trim();
+
+    const link = item.find('a.s-item__link').attr('href');
+    const imageUrl = item.find('.s-item__image-img, .s-item__image img').first().attr('src');
+
+    listings.push({
+      title,
+      price,
+      date,
+      ...(link ? { link } : {}),
+      ...(imageUrl ? { imageUrl } : {}),
+    });
+  });
+
+  return listings;
+}
+
+/**
+ * Replays recorded sold listings from disk. For each query it looks for
+ * <key>.json (listings) or <key>.html (a saved results page) in the fixtures
+ * directory. Queries without one find no listings, unless `useFallback` is
+ * set: then they get _default.json / _default.html, and since those aren't
+ * sales of the card asked about, the provider counts as simulated.
+ */
+export function createFixturePriceProvider(
+  fixturesDir: string = DEFAULT_FIXTURES_DIR,
+  useFallback = false
+): PriceProvider {
+  const readFixture = async (key: string): Promise<SoldListing[] | null> => {
+    const jsonPath = path.join(fixturesDir, `${key}.json`);
+    if (fs.existsSync(jsonPath)) {
+      const raw = JSON.parse(await fs.promises.readFile(jsonPath, 'utf-8'));
+      return listingFixtureSchema.parse(raw);
+    }
+
+    const htmlPath = path.join(fixturesDir, `${key}.html`);
+    if (fs.existsSync(htmlPath)) {
+      return parseSoldListingsHtml(await fs.promises.readFile(htmlPath, 'utf-8'));
+    }
+
+    return null;
+  };
+
+  return {
+    name: 'fixture',
+    simulated: useFallback,
+
+    async fetchSoldListings(searchQuery: string): Promise<SoldListing[]> {
+      return (await readFixture(fixtureKey(searchQuery)))
+        ?? (useFallback ? await readFixture(FALLBACK_FIXTURE) : null)
+        ?? [];
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import type { ImageStore } from '../imageService';
+
+const DEFAULT_IMAGE_DIR = path.resolve(process.cwd(), 'uploads', 'images');
+
+/**
+ * Keeps image files under a directory on local disk, one file per key
+ */
+export function createLocalImageStore(rootDir: string = DEFAULT_IMAGE_DIR): ImageStore {
+  // Keys come from the image service, but never let one escape the root
+  const filePath = (key: string) => {
+    const resolved = path.resolve(rootDir, key);
+    if (!resolved.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid image key "${key}"`);
+    }
+    return resolved;
+  };
+
+  return {
+    name: 'local',
+
+    async exists(key: string): Promise<boolean> {
+      return fs.existsSync(filePath(key));
+    },
+
+    async put(key: string, data: Buffer): Promise<void> {
+      const target = filePath(key);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // Write then rename so a half-written file is never served
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, data);
+      await fs.promises.rename(temp, target);
+    },
+
+    async get(key: string): Promise<Buffer | null> {
+      try {
+        return await fs.promises.readFile(filePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+  };
+}
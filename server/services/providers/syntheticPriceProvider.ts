@@ -1,33 +1,16 @@
-import { log } from '../vite';
-import * as https from 'https';
+import type { SoldListing } from '@shared/schema';
+import type { PriceProvider } from '../priceService';
 
-interface EbaySoldItem {
-  title: string;
-  price: number;
-  date: string;
-  link: string;
-  imageUrl?: string;
-}
+/**
+ * Generates plausible-looking sold listings from the search query.
+ * This is NOT market data: results are seeded from the query so they are
+ * stable per card, and are flagged as simulated all the way to the UI.
+ */
+export const syntheticPriceProvider: PriceProvider = {
+  name: 'synthetic',
+  simulated: true,
 
-interface PriceAnalysis {
-  items: EbaySoldItem[];
-  averagePrice: number;
-  minPrice: number;
-  maxPrice: number;
-  medianPrice: number;
-  totalResults: number;
-  searchQuery: string;
-}
-
-// Function to get simulated sample price data
-export async function scrapeEbayPrices(searchQuery: string): Promise<PriceAnalysis> {
-  log(`Generating price analysis for "${searchQuery}"`, 'price-service');
-  
-  try {
-    // Since we can't reliably scrape eBay due to puppeteer dependencies, 
-    // we'll generate realistic sample data based on the search query
-    // This is a simpler approach for the demo
-    
+  async fetchSoldListings(searchQuery: string): Promise<SoldListing[]> {
     // Seed a random number based on search query for consistent results per card
     let seed = searchQuery.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
     const random = (min: number, max: number) => {
@@ -58,7 +41,7 @@ export async function scrapeEbayPrices(searchQuery: string): Promise<PriceAnalys
     const itemCount = random(5, 15);
     
     // Generate items
-    const items: EbaySoldItem[] = [];
+    const items: SoldListing[] = [];
     const dates = ['May 1', 'May 2', 'May 3', 'May 4', 'May 5', 'May 6', 'May 7'];
     
     for (let i = 0; i < itemCount; i++) {
@@ -73,57 +56,14 @@ export async function scrapeEbayPrices(searchQuery: string): Promise<PriceAnalys
       const condition = conditionTerms[random(0, conditionTerms.length - 1)];
       const extra = random(0, 1) === 1 ? extraTerms[random(0, extraTerms.length - 1)] : '';
       
+      // No link or image: there is no real listing behind a simulated sale
       items.push({
         title: `${searchQuery} - ${condition} ${extra}`.trim(),
         price: parseFloat(price.toFixed(2)),
         date: dates[random(0, dates.length - 1)],
-        link: `https://www.ebay.com/itm/${random(100000000, 999999999)}`,
-        imageUrl: `https://i.ebayimg.com/images/g/${random(10000, 99999)}/s-l1600.jpg`
       });
     }
     
-    // Calculate statistics for the generated data
-    const prices = items.map(item => item.price);
-    
-    // Calculate average
-    const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-    
-    // Calculate min and max
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    
-    // Calculate median
-    const sortedPrices = [...prices].sort((a, b) => a - b);
-    const middle = Math.floor(sortedPrices.length / 2);
-    
-    let medianPrice;
-    if (sortedPrices.length % 2 === 0) {
-      medianPrice = (sortedPrices[middle - 1] + sortedPrices[middle]) / 2;
-    } else {
-      medianPrice = sortedPrices[middle];
-    }
-    
-    return {
-      items: items.slice(0, 10), // Return only the first 10 items
-      averagePrice,
-      minPrice,
-      maxPrice,
-      medianPrice,
-      totalResults: items.length,
-      searchQuery
-    };
-  } catch (error) {
-    log(`Error generating price analysis: ${error}`, 'price-service');
-    
-    // Return empty results on error
-    return {
-      items: [],
-      averagePrice: 0,
-      minPrice: 0,
-      maxPrice: 0,
-      medianPrice: 0,
-      totalResults: 0,
-      searchQuery
-    };
-  }
-}
\ No newline at end of file
+    return items;
+  },
+};
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { detectionBoxSchema, type DetectionBox, type InsertCard } from '@shared/schema';
+
+// Turning what a recognizer read off a photo into card fields. Every
+// recognizer replies in the same JSON shape, so fixtures can be recorded
+// model replies.
+
+// The most cards a multi-card scan is read for; a 9-pocket page plus a few spare
+export const MAX_DETECTIONS = 12;
+
+export interface Detection {
+  box: DetectionBox;
+  card: Partial<InsertCard>;
+}
+
+// What was read off one card. Fields the reply leaves out or gives the wrong
+// type count as blank.
+const blankable = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+const cardReplySchema = z.object({
+  playerName: blankable(z.string()),
+  sport: blankable(z.string()),
+  year: blankable(z.union([z.string(), z.number()])),
+  brand: blankable(z.string()),
+  cardSet: blankable(z.string()),
+  cardNumber: blankable(z.union([z.string(), z.number()]).transform(String)),
+  condition: blankable(z.string()),
+});
+
+// A card read off a multi-card scan, with where it is in the scan
+const detectionReplySchema = z.object({ box: detectionBoxSchema });
+
+/**
+ * Parse the JSON in a model's reply, which may wrap it in other text
+ */
+export function parseJsonReply(text: string, fallbackPattern: RegExp): unknown {
+  try {
+    // Try direct parsing first
+    return JSON.parse(text);
+  } catch (e) {
+    // Try to extract JSON from text if direct parsing fails
+    const jsonMatch = text.match(fallbackPattern);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]);
+    }
+    throw new Error("Could not parse JSON from response");
+  }
+}
+
+/**
+ * Card fields from what was read off a card
+ */
+export function toCardFields(reply: unknown): Partial<InsertCard> {
+  const cardData = cardReplySchema.catch({}).parse(reply);
+  const year = cardData.year !== undefined ? parseInt(String(cardData.year), 10) : NaN;
+
+  return {
+    playerName: cardData.playerName || '',
+    sport: cardData.sport?.toLowerCase() || 'other',
+    year: Number.isNaN(year) ? new Date().getFullYear() : year,
+    brand: cardData.brand || '',
+    cardSet: cardData.cardSet || '',
+    cardNumber: cardData.cardNumber || '',
+    condition: cardData.condition?.toLowerCase() || 'new',
+    purchasePrice: 0,
+    notes: `${cardData.cardSet || ''} ${cardData.cardNumber || ''}`.trim(),
+    imageUrl: '', // Will be filled in by the server if image is uploaded
+  };
+}
+
+/**
+ * The cards read off a scan of several, each with its box. Ones without a
+ * usable box are dropped, as is anything past MAX_DETECTIONS.
+ */
+export function toDetections(reply: unknown): Detection[] {
+  const cardList = z.array(z.unknown()).safeParse(reply);
+  if (!cardList.success) {
+    throw new Error("Expected a JSON array of cards");
+  }
+
+  return cardList.data.slice(0, MAX_DETECTIONS).flatMap((cardData) => {
+    const detection = detectionReplySchema.safeParse(cardData);
+    return detection.success ? [{ box: detection.data.box, card: toCardFields(cardData) }] : [];
+  });
+}
@@ -0,0 +1,243 @@
+import { log } from '../vite';
+import { storage } from '../storage';
+import { getPriceAnalysis } from './priceService';
+import { buildCardSearchQuery } from './compsService';
+import { applyCardQuery } from '../search';
+import {
+  revaluationOptionsSchema,
+  type Card,
+  type InsertRevaluationResult,
+  type PriceAnalysis,
+  type RevaluationJob,
+  type RevaluationOptions,
+  type RevaluationResultStatus,
+} from '@shared/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Minimum gap between upstream price lookups, shared by all running jobs
+const DEFAULT_THROTTLE_MS = 1000;
+
+// Users with a job in progress; each user runs one revaluation at a time
+const activeUsers = new Set<number>();
+
+// Earliest time the next upstream lookup may start
+let nextLookupAt = 0;
+
+type CardOutcome = Omit<InsertRevaluationResult, 'jobId' | 'status'> & { status: RevaluationResultStatus };
+
+// Job progress counter bumped for each result status
+const STATUS_COUNTERS = {
+  updated: 'updatedCards',
+  unchanged: 'unchangedCards',
+  skipped: 'skippedCards',
+  failed: 'failedCards',
+} as const;
+
+function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait for the next free lookup slot. Slots are reserved synchronously, so
+ * concurrent jobs queue up instead of all firing at once.
+ */
+async function throttle(): Promise<void> {
+  const throttleMs = Number(process.env.REVALUATION_THROTTLE_MS ?? DEFAULT_THROTTLE_MS);
+  const now = Date.now();
+  const slot = Math.max(now, nextLookupAt);
+  nextLookupAt = slot + throttleMs;
+
+  if (slot > now) await sleep(slot - now);
+}
+
+/**
+ * Price lookups for a single job, analysing each distinct query only once.
+ * Only cache misses wait for a throttle slot.
+ */
+function createJobLookup() {
+  const analyses = new Map<string, Promise<PriceAnalysis>>();
+
+  return (searchQuery: string, condition: string): Promise<PriceAnalysis> => {
+    // Comps are matched against the condition, so it's part of the key
+    const key = `${searchQuery}|${condition}`;
+    let analysis = analyses.get(key);
+
+    if (!analysis) {
+      analysis = getPriceAnalysis(searchQuery, { condition, beforeFetch: throttle });
+      analyses.set(key, analysis);
+    }
+
+    return analysis;
+  };
+}
+
+/**
+ * Price one card and apply the new value when the analysis is trustworthy
+ */
+async function revalueCard(
+  card: Card,
+  options: RevaluationOptions,
+  lookup: ReturnType<typeof createJobLookup>
+): Promise<CardOutcome> {
+  const searchQuery = buildCardSearchQuery(card);
+  const previousValue = card.currentValue ?? 0;
+  const outcome = { cardId: card.id, playerName: card.playerName, searchQuery, previousValue };
+
+  try {
+    const analysis = await lookup(searchQuery, card.condition);
+
+    if (analysis.totalResults === 0) {
+      return { ...outcome, status: 'skipped', reason: 'No comparable sales found' };
+    }
+
+    const newValue = roundToCents(analysis[options.estimate]);
+    const { confidence } = analysis;
+
+    if (confidence < options.minConfidence) {
+      return {
+        ...outcome,
+        status: 'skipped',
+        newValue,
+        confidence,
+        reason: `Confidence ${Math.round(confidence * 100)}% is below the ${Math.round(options.minConfidence * 100)}% minimum`,
+      };
+    }
+
+    if (newValue === roundToCents(previousValue)) {
+      return { ...outcome, status: 'unchanged', newValue, confidence };
+    }
+
+    await storage.updateCard(card.userId!, card.id, { currentValue: newValue }, {
+      source: 'revaluation',
+      stats: {
+        averagePrice: analysis.averagePrice,
+        minPrice: analysis.minPrice,
+        maxPrice: analysis.maxPrice,
+        medianPrice: analysis.medianPrice,
+        totalResults: analysis.totalResults,
+        searchQuery: analysis.searchQuery,
+        estimate: options.estimate,
+        confidence,
+      },
+    });
+
+    return { ...outcome, status: 'updated', newValue, confidence };
+  } catch (error) {
+    log(`Error revaluing card ${card.id}: ${error}`, 'revaluation');
+    return { ...outcome, status: 'failed', reason: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function runRevaluation(job: RevaluationJob): Promise<void> {
+  const { options } = job;
+  const lookup = createJobLookup();
+
+  try {
+    const query = applyCardQuery(options.filters);
+    if (!query.success) throw new Error(query.error.message);
+
+    const cards = await storage.getFilteredCards(job.userId, query.params);
+    await storage.updateRevaluationJob(job.id, {
+      status: 'running',
+      totalCards: cards.length,
+      startedAt: new Date(),
+    });
+
+    const counts = { processedCards: 0, updatedCards: 0, unchangedCards: 0, skippedCards: 0, failedCards: 0 };
+
+    for (const card of cards) {
+      const outcome = await revalueCard(card, options, lookup);
+      await storage.addRevaluationResult({ jobId: job.id, ...outcome });
+
+      counts.processedCards++;
+      counts[STATUS_COUNTERS[outcome.status]]++;
+      await storage.updateRevaluationJob(job.id, counts);
+    }
+
+    await storage.updateRevaluationJob(job.id, { status: 'completed', finishedAt: new Date() });
+    log(`Revaluation job ${job.id} finished: ${counts.updatedCards} of ${cards.length} cards updated`, 'revaluation');
+  } catch (error) {
+    log(`Revaluation job ${job.id} failed: ${error}`, 'revaluation');
+    await storage.updateRevaluationJob(job.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    });
+  }
+}
+
+export function isRevaluationRunning(userId: number): boolean {
+  return activeUsers.has(userId);
+}
+
+/**
+ * Queue a revaluation of the user's matching cards and run it in the
+ * background. Resolves with the new job, or undefined when the user already
+ * has one running.
+ */
+export async function startRevaluation(
+  userId: number,
+  options: RevaluationOptions,
+  trigger: 'manual' | 'scheduled' = 'manual'
+): Promise<RevaluationJob | undefined> {
+  if (activeUsers.has(userId)) return undefined;
+  activeUsers.add(userId);
+
+  try {
+    const job = await storage.createRevaluationJob({ userId, trigger, options });
+
+    runRevaluation(job)
+      .catch(error => log(`Revaluation job ${job.id} crashed: ${error}`, 'revaluation'))
+      .finally(() => activeUsers.delete(userId));
+
+    return job;
+  } catch (error) {
+    activeUsers.delete(userId);
+    throw error;
+  }
+}
+
+/**
+ * Start a revaluation of every user's whole collection with default options
+ */
+export async function revalueAllPortfolios(): Promise<number> {
+  const userIds = await storage.getUserIds();
+  const options = revaluationOptionsSchema.parse({});
+  let started = 0;
+
+  for (const userId of userIds) {
+    try {
+      if (await startRevaluation(userId, options, 'scheduled')) started++;
+    } catch (error) {
+      log(`Error starting revaluation for user ${userId}: ${error}`, 'revaluation');
+    }
+  }
+
+  return started;
+}
+
+/**
+ * Revalue every collection every REVALUATION_INTERVAL_HOURS. Disabled when
+ * the variable isn't set, since it overwrites values without review.
+ */
+export function startRevaluationScheduler(
+  intervalMs: number = Number(process.env.REVALUATION_INTERVAL_HOURS || 0) * HOUR_MS
+): NodeJS.Timeout | undefined {
+  if (!intervalMs) return undefined;
+
+  const timer = setInterval(() => {
+    revalueAllPortfolios()
+      .then(count => log(`Started scheduled revaluation for ${count} users`, 'revaluation'))
+      .catch(error => log(`Scheduled revaluation failed: ${error}`, 'revaluation'));
+  }, intervalMs);
+
+  // Don't keep the process alive just for revaluations
+  timer.unref();
+  log(`Revaluing collections every ${intervalMs / HOUR_MS} hours`, 'revaluation');
+  return timer;
+}
@@ -0,0 +1,31 @@
+import { cardCostBasis } from '@shared/costBasis';
+import type { Card, CardSale, RealizedGainsReport, RealizedGainsTotals, RealizedSale } from '@shared/schema';
+
+/**
+ * What a sale made: proceeds after fees and shipping, less the card's fully
+ * loaded cost
+ */
+export function toRealizedSale(sale: CardSale, card: Card): RealizedSale {
+  const costBasis = cardCostBasis(card);
+  const netProceeds = sale.salePrice - sale.fees - sale.shippingCost;
+  return { ...sale, card, costBasis, netProceeds, realizedGain: netProceeds - costBasis };
+}
+
+/**
+ * Realized gains over a set of sales, with their totals
+ */
+export function buildRealizedGainsReport(rows: { sale: CardSale; card: Card }[]): RealizedGainsReport {
+  const sales = rows.map(({ sale, card }) => toRealizedSale(sale, card));
+
+  const totals = sales.reduce<RealizedGainsTotals>((acc, sale) => ({
+    count: acc.count + 1,
+    salePrice: acc.salePrice + sale.salePrice,
+    fees: acc.fees + sale.fees,
+    shippingCost: acc.shippingCost + sale.shippingCost,
+    netProceeds: acc.netProceeds + sale.netProceeds,
+    costBasis: acc.costBasis + sale.costBasis,
+    realizedGain: acc.realizedGain + sale.realizedGain,
+  }), { count: 0, salePrice: 0, fees: 0, shippingCost: 0, netProceeds: 0, costBasis: 0, realizedGain: 0 });
+
+  return { sales, totals };
+}
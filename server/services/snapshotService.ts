@@ -0,0 +1,82 @@
+import { log } from '../vite';
+import { storage } from '../storage';
+import { format } from 'date-fns';
+import { cardCostBasis } from '@shared/costBasis';
+import type { Card, InsertPortfolioSnapshot, PortfolioSnapshot } from '@shared/schema';
+
+// How often the scheduler checks whether today's snapshots need refreshing
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+function countBy(cards: Card[], key: (card: Card) => string): Record<string, number> {
+  return cards.reduce((acc, card) => {
+    const value = key(card) || 'unknown';
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Summarise a set of cards into a snapshot for the given day
+ */
+export function buildPortfolioSnapshot(
+  userId: number,
+  cards: Card[],
+  date: Date = new Date()
+): InsertPortfolioSnapshot {
+  return {
+    userId,
+    snapshotDate: format(date, 'yyyy-MM-dd'),
+    totalCards: cards.length,
+    totalCost: cards.reduce((sum, card) => sum + cardCostBasis(card), 0),
+    totalValue: cards.reduce((sum, card) => sum + (card.currentValue || 0), 0),
+    countsBySport: countBy(cards, card => card.sport),
+    countsByCondition: countBy(cards, card => card.condition),
+    countsByBrand: countBy(cards, card => card.brand),
+  };
+}
+
+/**
+ * Record (or refresh) today's snapshot for one user
+ */
+export async function snapshotPortfolio(userId: number): Promise<PortfolioSnapshot> {
+  // Sold cards no longer count towards the collection's value
+  const cards = await storage.getFilteredCards(userId, { status: 'active' });
+  return await storage.savePortfolioSnapshot(buildPortfolioSnapshot(userId, cards));
+}
+
+/**
+ * Record today's snapshot for every user
+ */
+export async function snapshotAllPortfolios(): Promise<number> {
+  const userIds = await storage.getUserIds();
+
+  for (const userId of userIds) {
+    try {
+      await snapshotPortfolio(userId);
+    } catch (error) {
+      log(`Error snapshotting portfolio for user ${userId}: ${error}`, 'snapshot-service');
+    }
+  }
+
+  return userIds.length;
+}
+
+/**
+ * Keep daily snapshots up to date for as long as the server runs
+ */
+export function startSnapshotScheduler(intervalMs: number = SNAPSHOT_INTERVAL_MS): NodeJS.Timeout {
+  const run = async () => {
+    const count = await snapshotAllPortfolios();
+    log(`Recorded portfolio snapshots for ${count} users`, 'snapshot-service');
+  };
+
+  run().catch(error => log(`Snapshot run failed: ${error}`, 'snapshot-service'));
+
+  const timer = setInterval(() => {
+    run().catch(error => log(`Snapshot run failed: ${error}`, 'snapshot-service'));
+  }, intervalMs);
+
+  // Don't keep the process alive just for snapshots
+  timer.unref();
+  return timer;
+}
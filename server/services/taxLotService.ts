@@ -0,0 +1,128 @@
+import { addYears, format, parseISO } from 'date-fns';
+import { cardCostBasis } from '@shared/costBasis';
+import type { Card, CardSale, TaxLot, TaxLotMethod, TaxLotReport } from '@shared/schema';
+
+// Sports cards are collectibles, so long-term gains fall under the 28% maximum rate
+const CLASSIFICATIONS: Record<TaxLot['term'], string> = {
+  short: 'Short-term (ordinary income rates)',
+  long: 'Long-term collectibles gain (28% maximum rate)',
+};
+
+/**
+ * When a card was acquired: its purchase date, or failing that the day it was added
+ */
+export function acquisitionDate(card: Card): string {
+  return card.purchaseDate ?? format(card.createdAt ?? new Date(), 'yyyy-MM-dd');
+}
+
+/**
+ * Cards that are interchangeable for tax purposes: same player, issue, number and condition
+ */
+function identityKey(card: Card): string {
+  return [card.playerName, card.year, card.brand, card.cardSet, card.cardNumber, card.condition]
+    .map((part) => String(part ?? '').trim().toLowerCase())
+    .join('|');
+}
+
+function describeCard(card: Card): string {
+  const name = [card.year, card.brand, card.cardSet, card.playerName].filter(Boolean).join(' ');
+  return card.cardNumber ? `${name} #${card.cardNumber}` : name;
+}
+
+// Held more than one year, counting from the day after acquisition
+function holdingTerm(acquiredAt: string, soldAt: string): TaxLot['term'] {
+  return soldAt > format(addYears(parseISO(acquiredAt), 1), 'yyyy-MM-dd') ? 'long' : 'short';
+}
+
+function compareLots(a: Card, b: Card): number {
+  const dateA = acquisitionDate(a);
+  const dateB = acquisitionDate(b);
+  return dateA < dateB ? -1 : dateA > dateB ? 1 : a.id - b.id;
+}
+
+/**
+ * Pair each sale with the purchase it disposes of. Specific identification uses
+ * the card that was marked sold; FIFO uses the earliest purchase of an
+ * identical card, made by the sale date, that no earlier sale has used up.
+ */
+export function matchTaxLots(
+  cards: Card[],
+  sales: { sale: CardSale; card: Card }[],
+  method: TaxLotMethod
+): TaxLot[] {
+  const ordered = [...sales].sort((a, b) =>
+    a.sale.soldAt < b.sale.soldAt ? -1 : a.sale.soldAt > b.sale.soldAt ? 1 : a.sale.id - b.sale.id
+  );
+
+  // Purchases still available to FIFO, per group of identical cards, oldest first
+  const openLots = new Map<string, Card[]>();
+  for (const card of [...cards].sort(compareLots)) {
+    const key = identityKey(card);
+    openLots.set(key, [...(openLots.get(key) ?? []), card]);
+  }
+
+  return ordered.map(({ sale, card }) => {
+    let lot = card;
+    if (method === 'fifo') {
+      const open = openLots.get(identityKey(card)) ?? [];
+      // The oldest purchase made by the sale date. A later purchase can't have
+      // been sold, so without one the sale uses up the sold card itself.
+      const index = open.findIndex((candidate) => acquisitionDate(candidate) <= sale.soldAt);
+      const own = open.findIndex((candidate) => candidate.id === card.id);
+      if (index !== -1) lot = open.splice(index, 1)[0];
+      else if (own !== -1) open.splice(own, 1);
+    }
+
+    const acquiredAt = acquisitionDate(lot);
+    const costBasis = cardCostBasis(lot);
+    const proceeds = sale.salePrice - sale.fees - sale.shippingCost;
+    const term = holdingTerm(acquiredAt, sale.soldAt);
+
+    return {
+      saleId: sale.id,
+      cardId: card.id,
+      lotCardId: lot.id,
+      description: describeCard(card),
+      acquiredAt,
+      soldAt: sale.soldAt,
+      costBasis,
+      proceeds,
+      gain: proceeds - costBasis,
+      term,
+      classification: CLASSIFICATIONS[term],
+    };
+  });
+}
+
+/**
+ * Realized gains for one calendar year, with every sale before it
+ * matched first so FIFO starts from the right lots
+ */
+export function buildTaxLotReport(
+  cards: Card[],
+  sales: { sale: CardSale; card: Card }[],
+  year: number,
+  method: TaxLotMethod
+): TaxLotReport {
+  const lots = matchTaxLots(cards, sales, method).filter((lot) => lot.soldAt.startsWith(`${year}-`));
+  const years = Array.from(new Set(sales.map(({ sale }) => Number(sale.soldAt.slice(0, 4))))).sort((a, b) => b - a);
+
+  const sum = (items: TaxLot[], key: 'proceeds' | 'costBasis' | 'gain') =>
+    items.reduce((total, lot) => total + lot[key], 0);
+  const shortTermGain = sum(lots.filter((lot) => lot.term === 'short'), 'gain');
+  const longTermGain = sum(lots.filter((lot) => lot.term === 'long'), 'gain');
+
+  return {
+    year,
+    method,
+    years,
+    lots,
+    totals: {
+      proceeds: sum(lots, 'proceeds'),
+      costBasis: sum(lots, 'costBasis'),
+      shortTermGain,
+      longTermGain,
+      totalGain: shortTermGain + longTermGain,
+    },
+  };
+}
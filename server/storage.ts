@@ -1,32 +1,318 @@
-import { cards, type Card, type InsertCard, users, type User, type InsertUser } from "@shared/schema";
-import { db } from "./db";
-import { eq, like, and, or, gte, lte, lt, desc, asc } from "drizzle-orm";
+import { cards, type Card, type CardSummary, cardFacetFields, type CardFacets, type CardFacetField, type FacetValue, type InsertCard, users, type User, type InsertUser, cardValuations, type CardValuation, type ValuationMeta, portfolioSnapshots, type PortfolioSnapshot, type InsertPortfolioSnapshot, revaluationJobs, type RevaluationJob, type InsertRevaluationJob, revaluationResults, type RevaluationResult, type InsertRevaluationResult, priceCache, type PriceCacheEntry, type InsertPriceCacheEntry, savedSearches, type SavedSearch, type InsertSavedSearch, tags, cardTags, type Tag, type TagWithCount, storageLocations, type StorageLocation, type StorageLocationWithCount, type InsertStorageLocation, type MoveCards, portfolios, type Portfolio, cardSales, type CardSale, type InsertCardSale, type CardStatus, acquisitionLots, type AcquisitionLot, type AcquisitionLotWithCount, type InsertAcquisitionLot, type LotCostShare, uploadedImages, type UploadedImage, type InsertUploadedImage, cardImages, type CardImage, type CardImageInput, cardEdits, type CardEdit } from "@shared/schema";
+import { uniqueTagNames } from "@shared/tags";
+import { locationSubtreeIds } from "@shared/locations";
+import { cardCostBasis } from "@shared/costBasis";
+import { diffCardEdits } from "@shared/cardHistory";
+import { coverImageUrl, imagesFromUrlList, uploadedImageHash } from "@shared/cardImages";
+import { db, pool, hasDatabase } from "./db";
+import { buildCardSearchText, cardQueryClauseSql, matchesCardQueryClause, rankSearchText, toPrefixTsQuery, tokenizeSearch } from "./search";
+import type { CardQueryClause } from "@shared/cardQuery";
+import { eq, ne, and, or, gt, gte, lte, lt, desc, asc, sql, inArray, notInArray, isNull, exists, notExists, getTableColumns, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+export interface CardFilterParams {
+  search?: string;
+  sport?: string;
+  year?: string;
+  brand?: string;
+  condition?: string;
+  cardSet?: string;
+  tags?: string[];
+  tagMode?: 'any' | 'all'; // defaults to any
+  portfolioId?: number | null; // null for cards in no portfolio; undefined for every card
+  status?: CardStatus; // defaults to active, leaving sold cards out
+  sortBy?: string;
+  // Field terms parsed from the search box; see applyCardQuery
+  clauses?: CardQueryClause[];
+}
+
+// Position after the last card of a page: its sort value and id
+export interface CardCursor {
+  sort: string; // the order the cursor pages through, see cardSortName
+  value: string | number;
+  id: number;
+}
+
+export interface CardPageParams {
+  limit: number;
+  offset?: number; // ignored when a cursor is given
+  cursor?: CardCursor;
+}
+
+export interface CardPageResult {
+  items: Card[];
+  nextCursor: string | null; // null on the last page
+}
+
+export function encodeCardCursor(cursor: CardCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the API, returning undefined if it's malformed or was
+ * made for a different sort than the one requested
+ */
+export function decodeCardCursor(encoded: string, params: CardFilterParams): CardCursor | undefined {
+  try {
+    const [sort, value, id] = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    const valueType = resolveCardSort(params).sort?.field === 'playerName' ? 'string' : 'number';
+    if (sort !== cardSortName(params) || typeof value !== valueType || !Number.isInteger(id)) {
+      return undefined;
+    }
+    return { sort, value, id };
+  } catch {
+    return undefined;
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Copy each card with its tag names, which arrive in alphabetical order
+function attachTags(rows: Card[], links: { cardId: number; name: string }[]): Card[] {
+  const names = new Map<number, string[]>();
+  for (const link of links) {
+    names.set(link.cardId, [...(names.get(link.cardId) ?? []), link.name]);
+  }
+  return rows.map((card) => ({ ...card, tags: names.get(card.id) ?? [] }));
+}
+
+// Filters for the sales report; dates are YYYY-MM-DD and inclusive
+export interface SaleFilterParams {
+  from?: string;
+  to?: string;
+  portfolioId?: number | null;
+}
+
+// A lot's own fields; its cards are set separately
+export type AcquisitionLotFields = Omit<InsertAcquisitionLot, 'cardIds'>;
+
+function compareTagNames(a: string, b: string): number {
+  return a.toLowerCase().localeCompare(b.toLowerCase());
+}
+
+// Most common values first; years newest first
+function sortFacetValues(field: CardFacetField, values: FacetValue[]): FacetValue[] {
+  return values
+    .filter((facet) => facet.value !== '')
+    .sort((a, b) =>
+      field === 'year'
+        ? Number(b.value) - Number(a.value)
+        : b.count - a.count || a.value.localeCompare(b.value),
+    );
+}
+
+type CardSortField = 'createdAt' | 'playerName' | 'currentValue' | 'year' | 'relevance';
+
+// Sort field and direction for each cardSortOptions value. Ties are broken by
+// id in the same direction; unknown sorts order by id, newest first.
+const cardSorts: Record<string, { field: CardSortField; direction: 'asc' | 'desc' }> = {
+  recent: { field: 'createdAt', direction: 'desc' },
+  relevance: { field: 'relevance', direction: 'desc' },
+  playerNameAsc: { field: 'playerName', direction: 'asc' },
+  playerNameDesc: { field: 'playerName', direction: 'desc' },
+  valueDesc: { field: 'currentValue', direction: 'desc' },
+  valueAsc: { field: 'currentValue', direction: 'asc' },
+  yearDesc: { field: 'year', direction: 'desc' },
+  yearAsc: { field: 'year', direction: 'asc' },
+};
+
+// Sorting by relevance without a search term falls back to the default order
+function resolveCardSort(params: CardFilterParams) {
+  const sort = params.sortBy ? cardSorts[params.sortBy] : undefined;
+  const tokens = tokenizeSearch(params.search ?? '');
+  return sort?.field === 'relevance' && tokens.length === 0 ? { sort: undefined, tokens } : { sort, tokens };
+}
+
+// The field and direction a listing is ordered by, which its cursors are only good for
+function cardSortName(params: CardFilterParams): string {
+  const { sort } = resolveCardSort(params);
+  return sort ? `${sort.field}:${sort.direction}` : 'id:desc';
+}
+
+// Nulls count as zero, and timestamps are compared in whole milliseconds so
+// cursors survive the round trip through JavaScript
+function cardSortExpression(params: CardFilterParams): { expression: SQL; direction: 'asc' | 'desc' } {
+  const { sort, tokens } = resolveCardSort(params);
+  if (!sort) return { expression: sql`${cards.id}`, direction: 'desc' };
+
+  const expressions: Record<CardSortField, () => SQL> = {
+    createdAt: () => sql`floor(extract(epoch from coalesce(${cards.createdAt}, 'epoch'::timestamp)) * 1000)::double precision`,
+    playerName: () => sql`${cards.playerName}`,
+    currentValue: () => sql`coalesce(${cards.currentValue}, 0)`,
+    year: () => sql`${cards.year}`,
+    relevance: () => sql`ts_rank(to_tsvector('simple', ${cards.searchText}), to_tsquery('simple', ${toPrefixTsQuery(tokens)}))::double precision`,
+  };
+
+  return { expression: expressions[sort.field](), direction: sort.direction };
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUserIds(): Promise<number[]>;
   
-  // Card operations
-  getAllCards(): Promise<Card[]>;
-  getCard(id: number): Promise<Card | undefined>;
-  createCard(card: InsertCard): Promise<Card>;
-  updateCard(id: number, card: Partial<InsertCard>): Promise<Card | undefined>;
-  deleteCard(id: number): Promise<boolean>;
-  deleteAllCards(): Promise<number>; // Returns count of deleted cards
+  // Card operations, always scoped to the owning user. Only getCard includes
+  // the card's images; `images` on create and update replaces them, as does
+  // `imageUrl` when `images` isn't given.
+  getAllCards(userId: number): Promise<Card[]>;
+  getCard(userId: number, id: number): Promise<Card | undefined>;
+  // Any change to currentValue also appends a valuation, attributed to `valuation`,
+  // and updates to the fields in cardEditFieldLabels append an edit
+  createCard(card: InsertCard & { userId: number }, valuation?: ValuationMeta): Promise<Card>;
+  updateCard(userId: number, id: number, card: Partial<InsertCard>, valuation?: ValuationMeta): Promise<Card | undefined>;
+  deleteCard(userId: number, id: number): Promise<boolean>;
+  deleteAllCards(userId: number): Promise<number>; // Returns count of deleted cards
   
   // Get cards with filtering and sorting
-  getFilteredCards(params: {
-    search?: string;
-    sport?: string;
-    year?: string;
-    brand?: string;
-    condition?: string;
-    sortBy?: string;
-  }): Promise<Card[]>;
+  getFilteredCards(userId: number, params: CardFilterParams): Promise<Card[]>;
+  // One page of the same list, by offset or by cursor
+  getFilteredCardPage(userId: number, params: CardFilterParams, page: CardPageParams): Promise<CardPageResult>;
+  // Count and value totals over every matching card
+  summarizeFilteredCards(userId: number, params: CardFilterParams): Promise<CardSummary>;
+  // Distinct values and counts for each facet field under the filters
+  getCardFacets(userId: number, params: CardFilterParams): Promise<CardFacets>;
+  // Fill in search text for cards that predate it, or redo it where the
+  // tokenizer has changed since; returns how many were updated
+  rebuildSearchText(): Promise<number>;
+  // Move photo URLs of cards that predate card_images into it; returns how
+  // many cards were updated
+  migrateLegacyCardImages(): Promise<number>;
+  
+  // Valuation history, oldest first
+  getCardValuations(userId: number, cardId: number): Promise<CardValuation[]>;
+  // Edits to a card's details, oldest first
+  getCardEdits(userId: number, cardId: number): Promise<CardEdit[]>;
+  
+  // Daily portfolio snapshots; saving replaces the user's snapshot for that date
+  savePortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot>;
+  getPortfolioSnapshots(userId: number): Promise<PortfolioSnapshot[]>;
+  
+  // Cached sold listings; saving replaces the entry for the same provider and query
+  getPriceCacheEntry(provider: string, queryKey: string): Promise<PriceCacheEntry | undefined>;
+  savePriceCacheEntry(entry: InsertPriceCacheEntry): Promise<PriceCacheEntry>;
+  
+  // Photos a user has uploaded, by content hash; saving the same photo again
+  // returns the existing record
+  getUploadedImage(userId: number, hash: string): Promise<UploadedImage | undefined>;
+  saveUploadedImage(image: InsertUploadedImage): Promise<UploadedImage>;
+  
+  // Bulk revaluation jobs, newest first, and their per-card results in run order
+  createRevaluationJob(job: InsertRevaluationJob): Promise<RevaluationJob>;
+  updateRevaluationJob(id: number, job: Partial<InsertRevaluationJob>): Promise<RevaluationJob | undefined>;
+  getRevaluationJob(userId: number, id: number): Promise<RevaluationJob | undefined>;
+  getRevaluationJobs(userId: number): Promise<RevaluationJob[]>;
+  addRevaluationResult(result: InsertRevaluationResult): Promise<RevaluationResult>;
+  getRevaluationResults(jobId: number): Promise<RevaluationResult[]>;
+  
+  // Tags, alphabetical; a card's tags are set through createCard and updateCard
+  getTags(userId: number): Promise<TagWithCount[]>;
+  getTagByName(userId: number, name: string): Promise<Tag | undefined>; // ignores case
+  createTag(userId: number, name: string): Promise<Tag>;
+  renameTag(userId: number, id: number, name: string): Promise<Tag | undefined>;
+  deleteTag(userId: number, id: number): Promise<boolean>;
+  
+  // Portfolios, by name; deleting one leaves its cards outside every portfolio
+  getPortfolios(userId: number): Promise<Portfolio[]>;
+  getPortfolio(userId: number, id: number): Promise<Portfolio | undefined>;
+  getPortfolioByName(userId: number, name: string): Promise<Portfolio | undefined>; // ignores case
+  createPortfolio(userId: number, name: string): Promise<Portfolio>;
+  renamePortfolio(userId: number, id: number, name: string): Promise<Portfolio | undefined>;
+  deletePortfolio(userId: number, id: number): Promise<boolean>;
+  // Returns how many of the user's cards were moved
+  movePortfolioCards(userId: number, cardIds: number[], portfolioId: number | null): Promise<number>;
+  
+  // Sales; a card has at most one, and undoing it returns the card to the active inventory
+  getCardSale(userId: number, cardId: number): Promise<CardSale | undefined>;
+  // Also takes the card out of its storage location
+  recordCardSale(userId: number, cardId: number, sale: InsertCardSale): Promise<CardSale>;
+  deleteCardSale(userId: number, cardId: number): Promise<boolean>;
+  // Sales with their cards, newest sale first
+  getSales(userId: number, params: SaleFilterParams): Promise<{ sale: CardSale; card: Card }[]>;
+  
+  // Group purchases, newest first; deleting one leaves its cards with the costs already allocated
+  getAcquisitionLots(userId: number): Promise<AcquisitionLotWithCount[]>;
+  getAcquisitionLot(userId: number, id: number): Promise<AcquisitionLot | undefined>;
+  createAcquisitionLot(lot: AcquisitionLotFields & { userId: number }): Promise<AcquisitionLot>;
+  updateAcquisitionLot(userId: number, id: number, lot: Partial<AcquisitionLotFields>): Promise<AcquisitionLot | undefined>;
+  deleteAcquisitionLot(userId: number, id: number): Promise<boolean>;
+  getLotCards(userId: number, lotId: number): Promise<Card[]>;
+  // Make these cards the lot's, clearing the costs of cards that leave it;
+  // returns the other lots that lost cards to it
+  setLotCards(userId: number, lotId: number, cardIds: number[]): Promise<number[]>;
+  // Give each card its share of the lot's costs and the lot's purchase details
+  applyLotCosts(userId: number, lot: AcquisitionLot, shares: LotCostShare[]): Promise<void>;
+  
+  // Physical storage locations, by name; deleting one empties every card in it or below it
+  getStorageLocations(userId: number): Promise<StorageLocationWithCount[]>;
+  getStorageLocation(userId: number, id: number): Promise<StorageLocation | undefined>;
+  createStorageLocation(location: InsertStorageLocation & { userId: number }): Promise<StorageLocation>;
+  updateStorageLocation(userId: number, id: number, location: Partial<InsertStorageLocation>): Promise<StorageLocation | undefined>;
+  deleteStorageLocation(userId: number, id: number): Promise<boolean>;
+  // Cards kept directly in a location, in slot order
+  getLocationCards(userId: number, locationId: number): Promise<Card[]>;
+  // Returns how many of the user's cards were moved
+  moveCards(userId: number, move: MoveCards): Promise<number>;
+  
+  // Saved searches, ordered by name
+  getSavedSearches(userId: number): Promise<SavedSearch[]>;
+  getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined>;
+  createSavedSearch(search: InsertSavedSearch & { userId: number }): Promise<SavedSearch>;
+  updateSavedSearch(userId: number, id: number, search: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(userId: number, id: number): Promise<boolean>;
 }
 
+// The photos a card update asks for: `images`, or else the URLs in `imageUrl`
+function requestedImages(data: Partial<InsertCard>): CardImageInput[] | undefined {
+  if (data.images) return data.images;
+  return data.imageUrl !== undefined ? imagesFromUrlList(data.imageUrl) : undefined;
+}
+
+// card_images rows for a card's photos, with the hash and size of uploaded ones
+function toCardImageRows(cardId: number, images: CardImageInput[], uploads: UploadedImage[]) {
+  const byHash = new Map(uploads.map((upload) => [upload.hash, upload]));
+  return images.map((image, position) => {
+    const upload = byHash.get(uploadedImageHash(image.url) ?? "");
+    return {
+      cardId,
+      role: image.role,
+      position,
+      url: image.url,
+      hash: upload?.hash ?? null,
+      width: upload?.width ?? null,
+      height: upload?.height ?? null,
+    };
+  });
+}
+
+// A card leaving a lot, without the share of its costs it was given; the lot
+// passes those on to its remaining cards, so the card can't keep them too
+const leftLot = {
+  lotId: null,
+  lotWeight: null,
+  purchasePrice: 0,
+  purchaseFees: 0,
+  purchaseShipping: 0,
+  purchaseTax: 0,
+};
+
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -45,77 +331,218 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getAllCards(): Promise<Card[]> {
-    return await db.select().from(cards).orderBy(desc(cards.id));
+  async getUserIds(): Promise<number[]> {
+    const rows = await db.select({ id: users.id }).from(users);
+    return rows.map((row) => row.id);
+  }
+
+  // Tag names for each card. Small batches look up their own links; whole
+  // collections fetch every link the user has rather than listing every id.
+  private async withTags(userId: number, rows: Card[]): Promise<Card[]> {
+    if (rows.length === 0) return rows;
+
+    const links = await db
+      .select({ cardId: cardTags.cardId, name: tags.name })
+      .from(cardTags)
+      .innerJoin(tags, eq(tags.id, cardTags.tagId))
+      .where(rows.length <= 500 ? inArray(cardTags.cardId, rows.map((row) => row.id)) : eq(tags.userId, userId))
+      .orderBy(asc(sql`lower(${tags.name})`));
+
+    return attachTags(rows, links);
+  }
+
+  // The sale of each sold card, null for the rest
+  private async withSales(userId: number, rows: Card[]): Promise<Card[]> {
+    if (rows.length === 0) return rows;
+
+    const sales = await db
+      .select()
+      .from(cardSales)
+      .where(rows.length <= 500 ? inArray(cardSales.cardId, rows.map((row) => row.id)) : eq(cardSales.userId, userId));
+
+    const byCard = new Map(sales.map((sale) => [sale.cardId, sale]));
+    return rows.map((card) => ({ ...card, sale: byCard.get(card.id) ?? null }));
+  }
+
+  // A card's photos in display order
+  private async withImages(rows: Card[]): Promise<Card[]> {
+    if (rows.length === 0) return rows;
+
+    const images = await db
+      .select()
+      .from(cardImages)
+      .where(inArray(cardImages.cardId, rows.map((row) => row.id)))
+      .orderBy(asc(cardImages.position));
+
+    return rows.map((card) => ({ ...card, images: images.filter((image) => image.cardId === card.id) }));
+  }
+
+  // Replace a card's photos; the caller keeps its imageUrl cover in step
+  private async setCardImages(tx: Transaction, userId: number | null, cardId: number, images: CardImageInput[]) {
+    await tx.delete(cardImages).where(eq(cardImages.cardId, cardId));
+    if (images.length === 0) return;
+
+    const hashes = images.map((image) => uploadedImageHash(image.url)).filter((hash): hash is string => hash !== null);
+    const uploads = hashes.length > 0 && userId !== null
+      ? await tx.select().from(uploadedImages).where(and(eq(uploadedImages.userId, userId), inArray(uploadedImages.hash, hashes)))
+      : [];
+
+    await tx.insert(cardImages).values(toCardImageRows(cardId, images, uploads));
+  }
+
+  // Replace a card's tags, creating any the user doesn't have yet
+  private async setCardTags(tx: Transaction, userId: number, cardId: number, names: string[]) {
+    await tx.delete(cardTags).where(eq(cardTags.cardId, cardId));
+
+    const unique = uniqueTagNames(names);
+    if (unique.length === 0) return;
+
+    // Existing tags keep their spelling
+    await tx
+      .insert(tags)
+      .values(unique.map((name) => ({ userId, name })))
+      .onConflictDoNothing();
+
+    const rows = await tx
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(eq(tags.userId, userId), inArray(sql`lower(${tags.name})`, unique.map((name) => name.toLowerCase()))));
+
+    await tx.insert(cardTags).values(rows.map((row) => ({ cardId, tagId: row.id })));
   }
 
-  async getCard(id: number): Promise<Card | undefined> {
-    const [card] = await db.select().from(cards).where(eq(cards.id, id));
-    return card || undefined;
+  async getAllCards(userId: number): Promise<Card[]> {
+    const rows = await db.select().from(cards).where(eq(cards.userId, userId)).orderBy(desc(cards.id));
+    return this.withTags(userId, rows);
   }
 
-  async createCard(insertCard: InsertCard): Promise<Card> {
+  async getCard(userId: number, id: number): Promise<Card | undefined> {
     const [card] = await db
-      .insert(cards)
-      .values(insertCard)
-      .returning();
-    return card;
+      .select()
+      .from(cards)
+      .where(and(eq(cards.id, id), eq(cards.userId, userId)));
+    return card ? (await this.withImages(await this.withSales(userId, await this.withTags(userId, [card]))))[0] : undefined;
   }
 
-  async updateCard(id: number, updateData: Partial<InsertCard>): Promise<Card | undefined> {
-    const [updatedCard] = await db
-      .update(cards)
-      .set(updateData)
-      .where(eq(cards.id, id))
-      .returning();
+  async createCard(insertCard: InsertCard & { userId: number }, valuation?: ValuationMeta): Promise<Card> {
+    const { tags: tagNames, images: _images, ...cardData } = insertCard;
+    const images = requestedImages(insertCard) ?? [];
+    
+    const created = await db.transaction(async (tx) => {
+      const [card] = await tx
+        .insert(cards)
+        .values({ ...cardData, imageUrl: coverImageUrl(images), searchText: buildCardSearchText(cardData) })
+        .returning();
+      
+      if (tagNames) {
+        await this.setCardTags(tx, insertCard.userId, card.id, tagNames);
+      }
+      
+      await this.setCardImages(tx, insertCard.userId, card.id, images);
+      
+      if (card.currentValue) {
+        await tx.insert(cardValuations).values({
+          cardId: card.id,
+          value: card.currentValue,
+          source: valuation?.source ?? "manual",
+          stats: valuation?.stats ?? null,
+        });
+      }
+      
+      return card;
+    });
+    
+    return (await this.withTags(insertCard.userId, [created]))[0];
+  }
+
+  async updateCard(userId: number, id: number, updateData: Partial<InsertCard>, valuation?: ValuationMeta): Promise<Card | undefined> {
+    // Ownership can't be changed through an update
+    const { userId: _ignored, tags: tagNames, images: _images, ...data } = updateData;
+    const images = requestedImages(updateData);
+    if (images) {
+      data.imageUrl = coverImageUrl(images);
+    }
     
-    return updatedCard || undefined;
+    const updated = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(cards)
+        .where(and(eq(cards.id, id), eq(cards.userId, userId)));
+      
+      if (!existing) return undefined;
+      
+      const existingTags = tagNames
+        ? await tx
+            .select({ name: tags.name })
+            .from(cardTags)
+            .innerJoin(tags, eq(tags.id, cardTags.tagId))
+            .where(eq(cardTags.cardId, id))
+        : [];
+      const changes = diffCardEdits(
+        { ...existing, tags: existingTags.map((tag) => tag.name) },
+        { ...data, tags: tagNames && uniqueTagNames(tagNames) },
+      );
+      
+      const [updatedCard] = await tx
+        .update(cards)
+        .set({ ...data, searchText: buildCardSearchText({ ...existing, ...data }) })
+        .where(and(eq(cards.id, id), eq(cards.userId, userId)))
+        .returning();
+      
+      if (tagNames) {
+        await this.setCardTags(tx, userId, id, tagNames);
+      }
+      
+      if (images) {
+        await this.setCardImages(tx, userId, id, images);
+      }
+      
+      if (data.currentValue !== undefined && data.currentValue !== existing.currentValue) {
+        await tx.insert(cardValuations).values({
+          cardId: id,
+          value: data.currentValue ?? 0,
+          source: valuation?.source ?? "manual",
+          stats: valuation?.stats ?? null,
+        });
+      }
+      
+      if (changes.length > 0) {
+        await tx.insert(cardEdits).values({ cardId: id, changes });
+      }
+      
+      return updatedCard;
+    });
+    
+    return updated ? (await this.withTags(userId, [updated]))[0] : undefined;
   }
 
-  async deleteCard(id: number): Promise<boolean> {
+  async deleteCard(userId: number, id: number): Promise<boolean> {
     const [deletedCard] = await db
       .delete(cards)
-      .where(eq(cards.id, id))
+      .where(and(eq(cards.id, id), eq(cards.userId, userId)))
       .returning({ id: cards.id });
     
     return !!deletedCard;
   }
   
-  async deleteAllCards(): Promise<number> {
-    // Get the count of cards first
-    const allCards = await db.select({ id: cards.id }).from(cards);
-    const count = allCards.length;
-    
-    // Delete all cards
-    await db.delete(cards);
-    
-    return count;
-  }
-
-  async getFilteredCards(params: {
-    search?: string;
-    sport?: string;
-    year?: string;
-    brand?: string;
-    condition?: string;
-    sortBy?: string;
-  }): Promise<Card[]> {
-    let query = db.select().from(cards);
-    
-    // Build filters
-    const filters = [];
-    
-    // Search filter
-    if (params.search) {
-      const searchTerm = `%${params.search}%`;
-      filters.push(
-        or(
-          like(cards.playerName, searchTerm),
-          like(cards.brand, searchTerm),
-          like(cards.cardSet, searchTerm),
-          like(cards.notes, searchTerm)
-        )
-      );
+  async deleteAllCards(userId: number): Promise<number> {
+    const deletedCards = await db
+      .delete(cards)
+      .where(eq(cards.userId, userId))
+      .returning({ id: cards.id });
+    
+    return deletedCards.length;
+  }
+
+  // WHERE conditions shared by the card list, page and summary queries
+  private cardFilters(userId: number, params: CardFilterParams): SQL[] {
+    // Build filters, starting with the owner
+    const filters: (SQL | undefined)[] = [eq(cards.userId, userId)];
+    
+    // Search filter: every term must prefix a word in the card's search text
+    const tokens = tokenizeSearch(params.search ?? '');
+    if (tokens.length > 0) {
+      filters.push(sql`to_tsvector('simple', ${cards.searchText}) @@ to_tsquery('simple', ${toPrefixTsQuery(tokens)})`);
     }
     
     // Sport filter
@@ -145,46 +572,1662 @@ export class DatabaseStorage implements IStorage {
       filters.push(eq(cards.condition, params.condition));
     }
     
-    // Apply all filters
-    if (filters.length > 0) {
-      query = query.where(and(...filters));
-    }
-    
-    // Apply sorting
-    if (params.sortBy) {
-      switch (params.sortBy) {
-        case 'recent':
-          query = query.orderBy(desc(cards.createdAt));
-          break;
-        case 'playerNameAsc':
-          query = query.orderBy(asc(cards.playerName));
-          break;
-        case 'playerNameDesc':
-          query = query.orderBy(desc(cards.playerName));
-          break;
-        case 'valueDesc':
-          query = query.orderBy(desc(cards.currentValue));
-          break;
-        case 'valueAsc':
-          query = query.orderBy(asc(cards.currentValue));
-          break;
-        case 'yearDesc':
-          query = query.orderBy(desc(cards.year));
-          break;
-        case 'yearAsc':
-          query = query.orderBy(asc(cards.year));
-          break;
-        default:
-          // Default to most recent by ID
-          query = query.orderBy(desc(cards.id));
+    // Set filter
+    if (params.cardSet && params.cardSet !== 'all') {
+      filters.push(eq(cards.cardSet, params.cardSet));
+    }
+    
+    // Portfolio filter
+    if (params.portfolioId !== undefined) {
+      filters.push(params.portfolioId === null ? isNull(cards.portfolioId) : eq(cards.portfolioId, params.portfolioId));
+    }
+    
+    // Status filter: sold cards have a sale
+    if (params.status !== 'all') {
+      const sale = db.select({ id: cardSales.id }).from(cardSales).where(eq(cardSales.cardId, cards.id));
+      filters.push(params.status === 'sold' ? exists(sale) : notExists(sale));
+    }
+    
+    // Tag filter: cards with any, or all, of the named tags
+    const tagNames = uniqueTagNames(params.tags ?? []).map((name) => name.toLowerCase());
+    if (tagNames.length > 0) {
+      const matched = db
+        .select({ count: sql`count(*)` })
+        .from(cardTags)
+        .innerJoin(tags, eq(tags.id, cardTags.tagId))
+        .where(and(eq(cardTags.cardId, cards.id), inArray(sql`lower(${tags.name})`, tagNames)));
+      filters.push(params.tagMode === 'all' ? sql`(${matched}) = ${tagNames.length}` : sql`(${matched}) > 0`);
+    }
+    
+    // Structured query clauses
+    for (const clause of params.clauses ?? []) {
+      filters.push(cardQueryClauseSql(clause));
+    }
+    
+    return filters.filter((filter): filter is SQL => !!filter);
+  }
+
+  async getFilteredCards(userId: number, params: CardFilterParams): Promise<Card[]> {
+    const { expression, direction } = cardSortExpression(params);
+    const order = direction === 'desc' ? desc : asc;
+
+    const rows = await db
+      .select()
+      .from(cards)
+      .where(and(...this.cardFilters(userId, params)))
+      .orderBy(order(expression), order(cards.id));
+    return this.withSales(userId, await this.withTags(userId, rows));
+  }
+
+  async getFilteredCardPage(userId: number, params: CardFilterParams, page: CardPageParams): Promise<CardPageResult> {
+    const { expression, direction } = cardSortExpression(params);
+    const order = direction === 'desc' ? desc : asc;
+    const filters = this.cardFilters(userId, params);
+
+    // Keyset pagination: only rows that sort after the cursor row
+    if (page.cursor) {
+      const after = direction === 'desc' ? lt : gt;
+      const { value, id } = page.cursor;
+      filters.push(or(after(expression, value), and(eq(expression, value), after(cards.id, id)))!);
+    }
+
+    // Fetch one extra row to tell whether there's another page
+    const rows = await db
+      .select({ card: cards, sortValue: expression })
+      .from(cards)
+      .where(and(...filters))
+      .orderBy(order(expression), order(cards.id))
+      .limit(page.limit + 1)
+      .offset(page.cursor ? 0 : page.offset ?? 0);
+
+    const items = rows.slice(0, page.limit).map((row) => row.card);
+    const last = rows[page.limit - 1];
+
+    return {
+      items: await this.withSales(userId, await this.withTags(userId, items)),
+      nextCursor: rows.length > page.limit ? encodeCardCursor({ sort: cardSortName(params), value: last.sortValue as string | number, id: last.card.id }) : null,
+    };
+  }
+
+  async summarizeFilteredCards(userId: number, params: CardFilterParams): Promise<CardSummary> {
+    const where = and(...this.cardFilters(userId, params));
+
+    const [totals] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        totalValue: sql<number>`coalesce(sum(${cards.currentValue}), 0)::double precision`,
+        // Fully loaded: price plus fees, shipping and tax
+        totalCost: sql<number>`coalesce(sum(coalesce(${cards.purchasePrice}, 0) + ${cards.purchaseFees} + ${cards.purchaseShipping} + ${cards.purchaseTax}), 0)::double precision`,
+      })
+      .from(cards)
+      .where(where);
+
+    const sports = await db
+      .select({ sport: cards.sport, count: sql<number>`count(*)::int` })
+      .from(cards)
+      .where(where)
+      .groupBy(cards.sport);
+
+    return {
+      ...totals,
+      countsBySport: Object.fromEntries(sports.map((row) => [row.sport, row.count])),
+    };
+  }
+
+  async getCardFacets(userId: number, params: CardFilterParams): Promise<CardFacets> {
+    const entries = await Promise.all(cardFacetFields.map(async (field) => {
+      const column = cards[field];
+      const rows = await db
+        .select({ value: sql<string>`${column}::text`, count: sql<number>`count(*)::int` })
+        .from(cards)
+        .where(and(...this.cardFilters(userId, { ...params, [field]: undefined })))
+        .groupBy(column);
+      return [field, sortFacetValues(field, rows.map((row) => ({ value: row.value ?? '', count: row.count })))] as const;
+    }));
+
+    return Object.fromEntries(entries) as CardFacets;
+  }
+
+  async rebuildSearchText(): Promise<number> {
+    // Rows created before search_text existed have it empty, and older
+    // tokenizers dropped words outside a-z and 0-9
+    const rows = await db.select().from(cards);
+    
+    let updated = 0;
+    for (const card of rows) {
+      const searchText = buildCardSearchText(card);
+      if (searchText === card.searchText) continue;
+      await db.update(cards).set({ searchText }).where(eq(cards.id, card.id));
+      updated++;
+    }
+    return updated;
+  }
+
+  async migrateLegacyCardImages(): Promise<number> {
+    // Cards with a photo URL but no card_images rows predate the table
+    const legacy = await db
+      .select()
+      .from(cards)
+      .where(and(
+        sql`${cards.imageUrl} <> ''`,
+        notExists(db.select({ id: cardImages.id }).from(cardImages).where(eq(cardImages.cardId, cards.id))),
+      ));
+    
+    for (const card of legacy) {
+      const images = imagesFromUrlList(card.imageUrl);
+      await db.transaction(async (tx) => {
+        await this.setCardImages(tx, card.userId, card.id, images);
+        await tx.update(cards).set({ imageUrl: coverImageUrl(images) }).where(eq(cards.id, card.id));
+      });
+    }
+    return legacy.length;
+  }
+
+  async getCardValuations(userId: number, cardId: number): Promise<CardValuation[]> {
+    return await db
+      .select(getTableColumns(cardValuations))
+      .from(cardValuations)
+      .innerJoin(cards, eq(cards.id, cardValuations.cardId))
+      .where(and(eq(cardValuations.cardId, cardId), eq(cards.userId, userId)))
+      .orderBy(asc(cardValuations.recordedAt), asc(cardValuations.id));
+  }
+
+  async getCardEdits(userId: number, cardId: number): Promise<CardEdit[]> {
+    return await db
+      .select(getTableColumns(cardEdits))
+      .from(cardEdits)
+      .innerJoin(cards, eq(cards.id, cardEdits.cardId))
+      .where(and(eq(cardEdits.cardId, cardId), eq(cards.userId, userId)))
+      .orderBy(asc(cardEdits.editedAt), asc(cardEdits.id));
+  }
+
+  async savePortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const { userId, snapshotDate, ...totals } = snapshot;
+    const [saved] = await db
+      .insert(portfolioSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [portfolioSnapshots.userId, portfolioSnapshots.snapshotDate],
+        set: totals,
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPortfolioSnapshots(userId: number): Promise<PortfolioSnapshot[]> {
+    return await db
+      .select()
+      .from(portfolioSnapshots)
+      .where(eq(portfolioSnapshots.userId, userId))
+      .orderBy(asc(portfolioSnapshots.snapshotDate));
+  }
+
+  async getPriceCacheEntry(provider: string, queryKey: string): Promise<PriceCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(priceCache)
+      .where(and(eq(priceCache.provider, provider), eq(priceCache.queryKey, queryKey)));
+    return entry || undefined;
+  }
+
+  async savePriceCacheEntry(entry: InsertPriceCacheEntry): Promise<PriceCacheEntry> {
+    const { provider, queryKey, ...data } = entry;
+    const [saved] = await db
+      .insert(priceCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [priceCache.provider, priceCache.queryKey],
+        set: { ...data, fetchedAt: entry.fetchedAt ?? new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getUploadedImage(userId: number, hash: string): Promise<UploadedImage | undefined> {
+    const [image] = await db
+      .select()
+      .from(uploadedImages)
+      .where(and(eq(uploadedImages.userId, userId), eq(uploadedImages.hash, hash)));
+    return image || undefined;
+  }
+
+  async saveUploadedImage(image: InsertUploadedImage): Promise<UploadedImage> {
+    const [saved] = await db
+      .insert(uploadedImages)
+      .values(image)
+      .onConflictDoNothing({ target: [uploadedImages.userId, uploadedImages.hash] })
+      .returning();
+    return saved ?? (await this.getUploadedImage(image.userId, image.hash))!;
+  }
+
+  async createRevaluationJob(job: InsertRevaluationJob): Promise<RevaluationJob> {
+    const [created] = await db
+      .insert(revaluationJobs)
+      .values(job)
+      .returning();
+    return created;
+  }
+
+  async updateRevaluationJob(id: number, job: Partial<InsertRevaluationJob>): Promise<RevaluationJob | undefined> {
+    const [updated] = await db
+      .update(revaluationJobs)
+      .set(job)
+      .where(eq(revaluationJobs.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getRevaluationJob(userId: number, id: number): Promise<RevaluationJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(revaluationJobs)
+      .where(and(eq(revaluationJobs.id, id), eq(revaluationJobs.userId, userId)));
+    return job || undefined;
+  }
+
+  async getRevaluationJobs(userId: number): Promise<RevaluationJob[]> {
+    return await db
+      .select()
+      .from(revaluationJobs)
+      .where(eq(revaluationJobs.userId, userId))
+      .orderBy(desc(revaluationJobs.id));
+  }
+
+  async addRevaluationResult(result: InsertRevaluationResult): Promise<RevaluationResult> {
+    const [created] = await db
+      .insert(revaluationResults)
+      .values(result)
+      .returning();
+    return created;
+  }
+
+  async getRevaluationResults(jobId: number): Promise<RevaluationResult[]> {
+    return await db
+      .select()
+      .from(revaluationResults)
+      .where(eq(revaluationResults.jobId, jobId))
+      .orderBy(asc(revaluationResults.id));
+  }
+
+  async getTags(userId: number): Promise<TagWithCount[]> {
+    return await db
+      .select({ ...getTableColumns(tags), cardCount: sql<number>`count(${cardTags.cardId})::int` })
+      .from(tags)
+      .leftJoin(cardTags, eq(cardTags.tagId, tags.id))
+      .where(eq(tags.userId, userId))
+      .groupBy(tags.id)
+      .orderBy(asc(sql`lower(${tags.name})`));
+  }
+
+  async getTagByName(userId: number, name: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.userId, userId), sql`lower(${tags.name}) = ${name.trim().toLowerCase()}`));
+    return tag || undefined;
+  }
+
+  async createTag(userId: number, name: string): Promise<Tag> {
+    const [created] = await db
+      .insert(tags)
+      .values({ userId, name: name.trim() })
+      .returning();
+    return created;
+  }
+
+  async renameTag(userId: number, id: number, name: string): Promise<Tag | undefined> {
+    const [renamed] = await db
+      .update(tags)
+      .set({ name: name.trim() })
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+      .returning();
+    return renamed || undefined;
+  }
+
+  async deleteTag(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(tags)
+      .where(and(eq(tags.id, id), eq(tags.userId, userId)))
+      .returning({ id: tags.id });
+    return !!deleted;
+  }
+
+  async getPortfolios(userId: number): Promise<Portfolio[]> {
+    return await db
+      .select()
+      .from(portfolios)
+      .where(eq(portfolios.userId, userId))
+      .orderBy(asc(sql`lower(${portfolios.name})`));
+  }
+
+  async getPortfolio(userId: number, id: number): Promise<Portfolio | undefined> {
+    const [portfolio] = await db
+      .select()
+      .from(portfolios)
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId)));
+    return portfolio || undefined;
+  }
+
+  async getPortfolioByName(userId: number, name: string): Promise<Portfolio | undefined> {
+    const [portfolio] = await db
+      .select()
+      .from(portfolios)
+      .where(and(eq(portfolios.userId, userId), sql`lower(${portfolios.name}) = ${name.trim().toLowerCase()}`));
+    return portfolio || undefined;
+  }
+
+  async createPortfolio(userId: number, name: string): Promise<Portfolio> {
+    const [created] = await db
+      .insert(portfolios)
+      .values({ userId, name: name.trim() })
+      .returning();
+    return created;
+  }
+
+  async renamePortfolio(userId: number, id: number, name: string): Promise<Portfolio | undefined> {
+    const [renamed] = await db
+      .update(portfolios)
+      .set({ name: name.trim() })
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId)))
+      .returning();
+    return renamed || undefined;
+  }
+
+  async deletePortfolio(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(portfolios)
+      .where(and(eq(portfolios.id, id), eq(portfolios.userId, userId)))
+      .returning({ id: portfolios.id });
+    return !!deleted;
+  }
+
+  async movePortfolioCards(userId: number, cardIds: number[], portfolioId: number | null): Promise<number> {
+    const moved = await db
+      .update(cards)
+      .set({ portfolioId })
+      .where(and(eq(cards.userId, userId), inArray(cards.id, cardIds)))
+      .returning({ id: cards.id });
+    return moved.length;
+  }
+
+  async getCardSale(userId: number, cardId: number): Promise<CardSale | undefined> {
+    const [sale] = await db
+      .select()
+      .from(cardSales)
+      .where(and(eq(cardSales.cardId, cardId), eq(cardSales.userId, userId)));
+    return sale || undefined;
+  }
+
+  async recordCardSale(userId: number, cardId: number, sale: InsertCardSale): Promise<CardSale> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(cardSales)
+        .values({ ...sale, cardId, userId })
+        .returning();
+      
+      // A sold card has left the boxes and binders
+      await tx
+        .update(cards)
+        .set({ locationId: null, locationSlot: null })
+        .where(and(eq(cards.id, cardId), eq(cards.userId, userId)));
+      
+      return created;
+    });
+  }
+
+  async deleteCardSale(userId: number, cardId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(cardSales)
+      .where(and(eq(cardSales.cardId, cardId), eq(cardSales.userId, userId)))
+      .returning({ id: cardSales.id });
+    return !!deleted;
+  }
+
+  async getSales(userId: number, params: SaleFilterParams): Promise<{ sale: CardSale; card: Card }[]> {
+    const filters: (SQL | undefined)[] = [eq(cardSales.userId, userId)];
+    if (params.from) filters.push(gte(cardSales.soldAt, params.from));
+    if (params.to) filters.push(lte(cardSales.soldAt, params.to));
+    if (params.portfolioId !== undefined) {
+      filters.push(params.portfolioId === null ? isNull(cards.portfolioId) : eq(cards.portfolioId, params.portfolioId));
+    }
+    
+    const rows = await db
+      .select({ sale: cardSales, card: cards })
+      .from(cardSales)
+      .innerJoin(cards, eq(cards.id, cardSales.cardId))
+      .where(and(...filters))
+      .orderBy(desc(cardSales.soldAt), desc(cardSales.id));
+    
+    const withTags = await this.withTags(userId, rows.map((row) => row.card));
+    return rows.map((row, index) => ({ sale: row.sale, card: { ...withTags[index], sale: row.sale } }));
+  }
+
+  async getAcquisitionLots(userId: number): Promise<AcquisitionLotWithCount[]> {
+    return await db
+      .select({
+        ...getTableColumns(acquisitionLots),
+        cardCount: sql<number>`(select count(*) from ${cards} where ${cards.lotId} = ${acquisitionLots.id})::int`,
+      })
+      .from(acquisitionLots)
+      .where(eq(acquisitionLots.userId, userId))
+      .orderBy(sql`${acquisitionLots.purchaseDate} desc nulls last`, desc(acquisitionLots.id));
+  }
+
+  async getAcquisitionLot(userId: number, id: number): Promise<AcquisitionLot | undefined> {
+    const [lot] = await db
+      .select()
+      .from(acquisitionLots)
+      .where(and(eq(acquisitionLots.id, id), eq(acquisitionLots.userId, userId)));
+    return lot || undefined;
+  }
+
+  async createAcquisitionLot(lot: AcquisitionLotFields & { userId: number }): Promise<AcquisitionLot> {
+    const [created] = await db.insert(acquisitionLots).values(lot).returning();
+    return created;
+  }
+
+  async updateAcquisitionLot(userId: number, id: number, lot: Partial<AcquisitionLotFields>): Promise<AcquisitionLot | undefined> {
+    const [updated] = await db
+      .update(acquisitionLots)
+      .set(lot)
+      .where(and(eq(acquisitionLots.id, id), eq(acquisitionLots.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAcquisitionLot(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(acquisitionLots)
+      .where(and(eq(acquisitionLots.id, id), eq(acquisitionLots.userId, userId)))
+      .returning({ id: acquisitionLots.id });
+    return !!deleted;
+  }
+
+  async getLotCards(userId: number, lotId: number): Promise<Card[]> {
+    const rows = await db
+      .select()
+      .from(cards)
+      .where(and(eq(cards.userId, userId), eq(cards.lotId, lotId)))
+      .orderBy(asc(cards.id));
+    return this.withSales(userId, await this.withTags(userId, rows));
+  }
+
+  async setLotCards(userId: number, lotId: number, cardIds: number[]): Promise<number[]> {
+    return await db.transaction(async (tx) => {
+      const previous = await tx
+        .selectDistinct({ lotId: cards.lotId })
+        .from(cards)
+        .where(and(eq(cards.userId, userId), inArray(cards.id, cardIds)));
+      
+      await tx
+        .update(cards)
+        .set(leftLot)
+        .where(and(eq(cards.userId, userId), eq(cards.lotId, lotId), notInArray(cards.id, cardIds)));
+      // Cards joining the lot are weighted by their value now; ones already in it keep their weight
+      await tx
+        .update(cards)
+        .set({ lotId, lotWeight: sql`greatest(coalesce(${cards.currentValue}, 0), 0)` })
+        .where(and(
+          eq(cards.userId, userId),
+          inArray(cards.id, cardIds),
+          or(isNull(cards.lotId), ne(cards.lotId, lotId)),
+        ));
+      
+      return previous
+        .map((row) => row.lotId)
+        .filter((id): id is number => id !== null && id !== lotId);
+    });
+  }
+
+  async applyLotCosts(userId: number, lot: AcquisitionLot, shares: LotCostShare[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { cardId, ...costs } of shares) {
+        await tx
+          .update(cards)
+          .set({
+            ...costs,
+            purchaseDate: lot.purchaseDate,
+            purchaseSource: lot.source,
+            purchaseSeller: lot.seller,
+          })
+          .where(and(eq(cards.id, cardId), eq(cards.userId, userId), eq(cards.lotId, lot.id)));
       }
-    } else {
-      // Default sort by most recent
-      query = query.orderBy(desc(cards.id));
+    });
+  }
+
+  async getStorageLocations(userId: number): Promise<StorageLocationWithCount[]> {
+    return await db
+      .select({ ...getTableColumns(storageLocations), cardCount: sql<number>`count(${cards.id})::int` })
+      .from(storageLocations)
+      .leftJoin(cards, eq(cards.locationId, storageLocations.id))
+      .where(eq(storageLocations.userId, userId))
+      .groupBy(storageLocations.id)
+      .orderBy(asc(storageLocations.name), asc(storageLocations.id));
+  }
+
+  async getStorageLocation(userId: number, id: number): Promise<StorageLocation | undefined> {
+    const [location] = await db
+      .select()
+      .from(storageLocations)
+      .where(and(eq(storageLocations.id, id), eq(storageLocations.userId, userId)));
+    return location || undefined;
+  }
+
+  async createStorageLocation(location: InsertStorageLocation & { userId: number }): Promise<StorageLocation> {
+    const [created] = await db
+      .insert(storageLocations)
+      .values(location)
+      .returning();
+    return created;
+  }
+
+  async updateStorageLocation(userId: number, id: number, location: Partial<InsertStorageLocation>): Promise<StorageLocation | undefined> {
+    const [updated] = await db
+      .update(storageLocations)
+      .set(location)
+      .where(and(eq(storageLocations.id, id), eq(storageLocations.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteStorageLocation(userId: number, id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const locations = await tx
+        .select({ id: storageLocations.id, parentId: storageLocations.parentId })
+        .from(storageLocations)
+        .where(eq(storageLocations.userId, userId));
+      
+      if (!locations.some((location) => location.id === id)) return false;
+      
+      // The foreign key only clears location_id, so drop the slots as well
+      await tx
+        .update(cards)
+        .set({ locationId: null, locationSlot: null })
+        .where(and(eq(cards.userId, userId), inArray(cards.locationId, locationSubtreeIds(locations, id))));
+      
+      await tx.delete(storageLocations).where(eq(storageLocations.id, id));
+      return true;
+    });
+  }
+
+  async getLocationCards(userId: number, locationId: number): Promise<Card[]> {
+    const rows = await db
+      .select()
+      .from(cards)
+      .where(and(eq(cards.userId, userId), eq(cards.locationId, locationId)))
+      .orderBy(sql`${cards.locationSlot} asc nulls last`, asc(cards.id));
+    return this.withTags(userId, rows);
+  }
+
+  async moveCards(userId: number, move: MoveCards): Promise<number> {
+    const { cardIds, locationId, startSlot } = move;
+    
+    if (locationId === null) {
+      const moved = await db
+        .update(cards)
+        .set({ locationId, locationSlot: null })
+        .where(and(eq(cards.userId, userId), inArray(cards.id, cardIds)))
+        .returning({ id: cards.id });
+      return moved.length;
     }
     
-    return await query;
+    return await db.transaction(async (tx) => {
+      const current = await tx
+        .select({ id: cards.id, locationId: cards.locationId })
+        .from(cards)
+        .where(and(eq(cards.userId, userId), inArray(cards.id, cardIds)));
+      const currentLocations = new Map(current.map((card) => [card.id, card.locationId]));
+      const [{ lastSlot }] = await tx
+        .select({ lastSlot: sql<number | null>`max(${cards.locationSlot})` })
+        .from(cards)
+        .where(and(eq(cards.userId, userId), eq(cards.locationId, locationId)));
+      
+      if (startSlot !== undefined) {
+        // Make room: cards from startSlot on that aren't moving go up past the moved ones
+        await tx
+          .update(cards)
+          .set({ locationSlot: sql`${cards.locationSlot} + ${current.length}` })
+          .where(and(
+            eq(cards.userId, userId),
+            eq(cards.locationId, locationId),
+            gte(cards.locationSlot, startSlot),
+            notInArray(cards.id, cardIds),
+          ));
+      }
+      
+      let nextSlot = startSlot ?? (lastSlot ?? 0) + 1;
+      let moved = 0;
+      for (const id of cardIds) {
+        if (!currentLocations.has(id)) continue;
+        moved++;
+        if (startSlot === undefined && currentLocations.get(id) === locationId) continue;
+        
+        await tx
+          .update(cards)
+          .set({ locationId, locationSlot: nextSlot++ })
+          .where(and(eq(cards.id, id), eq(cards.userId, userId)));
+      }
+      return moved;
+    });
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(asc(savedSearches.name), asc(savedSearches.id));
+  }
+
+  async getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined> {
+    const [search] = await db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return search || undefined;
+  }
+
+  async createSavedSearch(search: InsertSavedSearch & { userId: number }): Promise<SavedSearch> {
+    const [created] = await db
+      .insert(savedSearches)
+      .values(search)
+      .returning();
+    return created;
   }
+
+  async updateSavedSearch(userId: number, id: number, search: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set(search)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id });
+    return !!deleted;
+  }
+}
+
+/**
+ * In-memory storage used when no database is configured, so the app and
+ * HTTP tests can run without Postgres. Mirrors DatabaseStorage semantics,
+ * including the prefix-matching full-text search used by getFilteredCards.
+ */
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<number, User>;
+  private cards: Map<number, Card>;
+  private valuations: Map<number, CardValuation>;
+  private cardEdits: Map<number, CardEdit>;
+  private snapshots: Map<string, PortfolioSnapshot>; // keyed by "<userId>:<date>"
+  private priceCache: Map<string, PriceCacheEntry>; // keyed by "<provider>:<queryKey>"
+  private revaluationJobs: Map<number, RevaluationJob>;
+  private revaluationResults: Map<number, RevaluationResult>;
+  private savedSearches: Map<number, SavedSearch>;
+  private tags: Map<number, Tag>;
+  private cardTagIds: Map<number, Set<number>>; // card id -> tag ids
+  private storageLocations: Map<number, StorageLocation>;
+  private portfolios: Map<number, Portfolio>;
+  private sales: Map<number, CardSale>; // keyed by card id
+  private acquisitionLots: Map<number, AcquisitionLot>;
+  private uploadedImages: Map<string, UploadedImage>; // keyed by "<userId>:<hash>"
+  private cardImages: Map<number, CardImage[]>; // card id -> images in display order
+  private currentUserId: number;
+  private currentCardId: number;
+  private currentValuationId: number;
+  private currentCardEditId: number;
+  private currentSnapshotId: number;
+  private currentPriceCacheId: number;
+  private currentRevaluationJobId: number;
+  private currentRevaluationResultId: number;
+  private currentSavedSearchId: number;
+  private currentTagId: number;
+  private currentStorageLocationId: number;
+  private currentPortfolioId: number;
+  private currentSaleId: number;
+  private currentAcquisitionLotId: number;
+  private currentUploadedImageId: number;
+  private currentCardImageId: number;
+
+  constructor() {
+    this.users = new Map();
+    this.cards = new Map();
+    this.valuations = new Map();
+    this.cardEdits = new Map();
+    this.snapshots = new Map();
+    this.priceCache = new Map();
+    this.revaluationJobs = new Map();
+    this.revaluationResults = new Map();
+    this.savedSearches = new Map();
+    this.tags = new Map();
+    this.cardTagIds = new Map();
+    this.storageLocations = new Map();
+    this.portfolios = new Map();
+    this.sales = new Map();
+    this.acquisitionLots = new Map();
+    this.uploadedImages = new Map();
+    this.cardImages = new Map();
+    this.currentUserId = 1;
+    this.currentCardId = 1;
+    this.currentValuationId = 1;
+    this.currentCardEditId = 1;
+    this.currentSnapshotId = 1;
+    this.currentPriceCacheId = 1;
+    this.currentRevaluationJobId = 1;
+    this.currentRevaluationResultId = 1;
+    this.currentSavedSearchId = 1;
+    this.currentTagId = 1;
+    this.currentStorageLocationId = 1;
+    this.currentPortfolioId = 1;
+    this.currentSaleId = 1;
+    this.currentAcquisitionLotId = 1;
+    this.currentUploadedImageId = 1;
+    this.currentCardImageId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired entries every day
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const user: User = { ...insertUser, id };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getUserIds(): Promise<number[]> {
+    return Array.from(this.users.keys());
+  }
+
+  private userCards(userId: number): Card[] {
+    return Array.from(this.cards.values()).filter((card) => card.userId === userId);
+  }
+
+  private ownedCard(userId: number, id: number): Card | undefined {
+    const card = this.cards.get(id);
+    return card && card.userId === userId ? card : undefined;
+  }
+
+  private cardTagNames(cardId: number): string[] {
+    return Array.from(this.cardTagIds.get(cardId) ?? [])
+      .map((tagId) => this.tags.get(tagId)!.name)
+      .sort(compareTagNames);
+  }
+
+  private withTags(rows: Card[]): Card[] {
+    return rows.map((card) => ({ ...card, tags: this.cardTagNames(card.id) }));
+  }
+
+  private withSales(rows: Card[]): Card[] {
+    return rows.map((card) => ({ ...card, sale: this.sales.get(card.id) ?? null }));
+  }
+
+  private withImages(rows: Card[]): Card[] {
+    return rows.map((card) => ({ ...card, images: this.cardImages.get(card.id) ?? [] }));
+  }
+
+  // Replace a card's photos; the caller keeps its imageUrl cover in step
+  private setCardImages(userId: number | null, cardId: number, images: CardImageInput[]) {
+    const uploads = images
+      .map((image) => uploadedImageHash(image.url))
+      .map((hash) => (hash ? this.uploadedImages.get(`${userId}:${hash}`) : undefined))
+      .filter((upload): upload is UploadedImage => upload !== undefined);
+
+    const rows = toCardImageRows(cardId, images, uploads).map((row) => ({
+      ...row,
+      id: this.currentCardImageId++,
+      createdAt: new Date(),
+    }));
+    this.cardImages.set(cardId, rows);
+  }
+
+  // Replace a card's tags, creating any the user doesn't have yet
+  private setCardTags(userId: number, cardId: number, names: string[]) {
+    const tagIds = new Set<number>();
+    for (const name of uniqueTagNames(names)) {
+      const existing = this.findTag(userId, name);
+      tagIds.add(existing ? existing.id : this.addTag(userId, name).id);
+    }
+    this.cardTagIds.set(cardId, tagIds);
+  }
+
+  private findTag(userId: number, name: string): Tag | undefined {
+    const lower = name.trim().toLowerCase();
+    return Array.from(this.tags.values()).find(
+      (tag) => tag.userId === userId && tag.name.toLowerCase() === lower,
+    );
+  }
+
+  private addTag(userId: number, name: string): Tag {
+    const id = this.currentTagId++;
+    const tag: Tag = { id, userId, name: name.trim(), createdAt: new Date() };
+    this.tags.set(id, tag);
+    return tag;
+  }
+
+  async getAllCards(userId: number): Promise<Card[]> {
+    return this.withTags(this.userCards(userId).sort((a, b) => b.id - a.id));
+  }
+
+  async getCard(userId: number, id: number): Promise<Card | undefined> {
+    const card = this.ownedCard(userId, id);
+    return card ? this.withImages(this.withSales(this.withTags([card])))[0] : undefined;
+  }
+
+  private recordValuation(cardId: number, value: number, valuation?: ValuationMeta) {
+    const id = this.currentValuationId++;
+    this.valuations.set(id, {
+      id,
+      cardId,
+      value,
+      source: valuation?.source ?? "manual",
+      stats: valuation?.stats ?? null,
+      recordedAt: new Date(),
+    });
+  }
+
+  async createCard(insertCard: InsertCard & { userId: number }, valuation?: ValuationMeta): Promise<Card> {
+    const id = this.currentCardId++;
+    const images = requestedImages(insertCard) ?? [];
+    // Apply the same defaults as the table definition
+    const card: Card = {
+      id,
+      playerName: insertCard.playerName,
+      sport: insertCard.sport,
+      year: insertCard.year,
+      brand: insertCard.brand,
+      cardSet: insertCard.cardSet ?? "",
+      condition: insertCard.condition,
+      purchasePrice: insertCard.purchasePrice ?? 0,
+      purchaseFees: insertCard.purchaseFees ?? 0,
+      purchaseShipping: insertCard.purchaseShipping ?? 0,
+      purchaseTax: insertCard.purchaseTax ?? 0,
+      purchaseDate: insertCard.purchaseDate ?? null,
+      purchaseSource: insertCard.purchaseSource ?? null,
+      purchaseSeller: insertCard.purchaseSeller ?? "",
+      lotId: null,
+      lotWeight: null,
+      currentValue: insertCard.currentValue ?? 0,
+      notes: insertCard.notes ?? "",
+      imageUrl: coverImageUrl(images),
+      cardNumber: insertCard.cardNumber ?? "",
+      userId: insertCard.userId,
+      createdAt: new Date(),
+      searchText: "",
+      locationId: insertCard.locationId ?? null,
+      locationSlot: insertCard.locationSlot ?? null,
+      portfolioId: insertCard.portfolioId ?? null,
+    };
+    card.searchText = buildCardSearchText(card);
+    this.cards.set(id, card);
+    
+    if (insertCard.tags) {
+      this.setCardTags(insertCard.userId, id, insertCard.tags);
+    }
+    
+    this.setCardImages(insertCard.userId, id, images);
+    
+    if (card.currentValue) {
+      this.recordValuation(id, card.currentValue, valuation);
+    }
+    return this.withTags([card])[0];
+  }
+
+  async updateCard(userId: number, id: number, updateData: Partial<InsertCard>, valuation?: ValuationMeta): Promise<Card | undefined> {
+    const existing = this.ownedCard(userId, id);
+    if (!existing) return undefined;
+
+    // Ownership can't be changed through an update
+    const { userId: _ignored, tags: tagNames, images: _images, ...data } = updateData;
+    const images = requestedImages(updateData);
+    if (images) {
+      data.imageUrl = coverImageUrl(images);
+    }
+    const changes = diffCardEdits(
+      { ...existing, tags: this.withTags([existing])[0].tags },
+      { ...data, tags: tagNames && uniqueTagNames(tagNames) },
+    );
+    const updatedCard: Card = { ...existing, ...data };
+    updatedCard.searchText = buildCardSearchText(updatedCard);
+    this.cards.set(id, updatedCard);
+    
+    if (tagNames) {
+      this.setCardTags(userId, id, tagNames);
+    }
+    
+    if (images) {
+      this.setCardImages(userId, id, images);
+    }
+    
+    if (data.currentValue !== undefined && data.currentValue !== existing.currentValue) {
+      this.recordValuation(id, data.currentValue ?? 0, valuation);
+    }
+    
+    if (changes.length > 0) {
+      const editId = this.currentCardEditId++;
+      this.cardEdits.set(editId, { id: editId, cardId: id, changes, editedAt: new Date() });
+    }
+    return this.withTags([updatedCard])[0];
+  }
+
+  async deleteCard(userId: number, id: number): Promise<boolean> {
+    const card = this.ownedCard(userId, id);
+    if (!card) return false;
+    this.deleteValuations(id);
+    this.deleteCardEdits(id);
+    this.detachRevaluationResults(id);
+    this.cardTagIds.delete(id);
+    this.sales.delete(id); // mirrors the cascade on card_sales
+    this.cardImages.delete(id); // and on card_images
+    return this.cards.delete(id);
+  }
+
+  // Mirrors the ON DELETE CASCADE on card_valuations
+  private deleteValuations(cardId: number) {
+    for (const [id, valuation] of Array.from(this.valuations.entries())) {
+      if (valuation.cardId === cardId) this.valuations.delete(id);
+    }
+  }
+
+  // Mirrors the ON DELETE CASCADE on card_edits
+  private deleteCardEdits(cardId: number) {
+    for (const [id, edit] of Array.from(this.cardEdits.entries())) {
+      if (edit.cardId === cardId) this.cardEdits.delete(id);
+    }
+  }
+
+  // Mirrors the ON DELETE SET NULL on revaluation_results
+  private detachRevaluationResults(cardId: number) {
+    for (const result of Array.from(this.revaluationResults.values())) {
+      if (result.cardId === cardId) result.cardId = null;
+    }
+  }
+
+  async deleteAllCards(userId: number): Promise<number> {
+    const userCards = this.userCards(userId);
+    for (const card of userCards) {
+      this.deleteValuations(card.id);
+      this.deleteCardEdits(card.id);
+      this.detachRevaluationResults(card.id);
+      this.cardTagIds.delete(card.id);
+      this.sales.delete(card.id);
+      this.cardImages.delete(card.id);
+      this.cards.delete(card.id);
+    }
+    return userCards.length;
+  }
+
+  async getFilteredCards(userId: number, params: CardFilterParams): Promise<Card[]> {
+    let result = this.userCards(userId);
+
+    // Search filter: every term must prefix a word, like the tsquery match
+    const tokens = tokenizeSearch(params.search ?? '');
+    if (tokens.length > 0) {
+      result = result.filter((card) => rankSearchText(card.searchText, tokens) > 0);
+    }
+
+    // Sport filter
+    if (params.sport && params.sport !== 'all') {
+      result = result.filter((card) => card.sport === params.sport);
+    }
+
+    // Year filter
+    if (params.year && params.year !== 'all') {
+      if (params.year.includes('-')) {
+        // Handle range like 2010-2019
+        const [start, end] = params.year.split('-').map(Number);
+        result = result.filter((card) => card.year >= start && card.year <= end);
+      } else {
+        // Handle exact year
+        const year = Number(params.year);
+        result = result.filter((card) => card.year === year);
+      }
+    }
+
+    // Brand filter
+    if (params.brand && params.brand !== 'all') {
+      result = result.filter((card) => card.brand === params.brand);
+    }
+
+    // Condition filter
+    if (params.condition && params.condition !== 'all') {
+      result = result.filter((card) => card.condition === params.condition);
+    }
+
+    // Set filter
+    if (params.cardSet && params.cardSet !== 'all') {
+      result = result.filter((card) => card.cardSet === params.cardSet);
+    }
+
+    // Portfolio filter
+    if (params.portfolioId !== undefined) {
+      result = result.filter((card) => (card.portfolioId ?? null) === params.portfolioId);
+    }
+
+    // Status filter: sold cards have a sale
+    if (params.status !== 'all') {
+      const sold = params.status === 'sold';
+      result = result.filter((card) => this.sales.has(card.id) === sold);
+    }
+
+    // Tag filter: cards with any, or all, of the named tags
+    const tagNames = uniqueTagNames(params.tags ?? []).map((name) => name.toLowerCase());
+    if (tagNames.length > 0) {
+      result = result.filter((card) => {
+        const names = this.cardTagNames(card.id).map((name) => name.toLowerCase());
+        const matched = tagNames.filter((name) => names.includes(name)).length;
+        return params.tagMode === 'all' ? matched === tagNames.length : matched > 0;
+      });
+    }
+
+    // Structured query clauses
+    for (const clause of params.clauses ?? []) {
+      result = result.filter((card) => matchesCardQueryClause(card, clause));
+    }
+
+    return this.withSales(this.withTags(result.sort(compareCards(params))));
+  }
+
+  async getFilteredCardPage(userId: number, params: CardFilterParams, page: CardPageParams): Promise<CardPageResult> {
+    let result = await this.getFilteredCards(userId, params);
+
+    if (page.cursor) {
+      // Only cards that sort after the cursor card
+      const { cursor } = page;
+      const direction = resolveCardSort(params).sort?.direction ?? 'desc';
+      result = result.filter((card) => compareSortKeys(cardSortKey(card, params), cursor, direction) > 0);
+    } else {
+      result = result.slice(page.offset ?? 0);
+    }
+
+    const items = result.slice(0, page.limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: result.length > page.limit ? encodeCardCursor(cardSortKey(last, params)) : null,
+    };
+  }
+
+  async summarizeFilteredCards(userId: number, params: CardFilterParams): Promise<CardSummary> {
+    const result = await this.getFilteredCards(userId, params);
+
+    return {
+      count: result.length,
+      totalValue: result.reduce((sum, card) => sum + (card.currentValue ?? 0), 0),
+      totalCost: result.reduce((sum, card) => sum + cardCostBasis(card), 0),
+      countsBySport: result.reduce((acc, card) => {
+        acc[card.sport] = (acc[card.sport] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+    };
+  }
+
+  async getCardFacets(userId: number, params: CardFilterParams): Promise<CardFacets> {
+    const entries = await Promise.all(cardFacetFields.map(async (field) => {
+      const counts = new Map<string, number>();
+      for (const card of await this.getFilteredCards(userId, { ...params, [field]: undefined })) {
+        const value = String(card[field] ?? '');
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+      const values = Array.from(counts, ([value, count]) => ({ value, count }));
+      return [field, sortFacetValues(field, values)] as const;
+    }));
+
+    return Object.fromEntries(entries) as CardFacets;
+  }
+
+  async rebuildSearchText(): Promise<number> {
+    // Cards are always created with their search text
+    return 0;
+  }
+
+  async migrateLegacyCardImages(): Promise<number> {
+    // Cards are always created with their images
+    return 0;
+  }
+
+  async getCardValuations(userId: number, cardId: number): Promise<CardValuation[]> {
+    if (!this.ownedCard(userId, cardId)) return [];
+
+    return Array.from(this.valuations.values())
+      .filter((valuation) => valuation.cardId === cardId)
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime() || a.id - b.id);
+  }
+
+  async getCardEdits(userId: number, cardId: number): Promise<CardEdit[]> {
+    if (!this.ownedCard(userId, cardId)) return [];
+
+    return Array.from(this.cardEdits.values())
+      .filter((edit) => edit.cardId === cardId)
+      .sort((a, b) => a.editedAt.getTime() - b.editedAt.getTime() || a.id - b.id);
+  }
+
+  async savePortfolioSnapshot(snapshot: InsertPortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const key = `${snapshot.userId}:${snapshot.snapshotDate}`;
+    const existing = this.snapshots.get(key);
+    const saved: PortfolioSnapshot = {
+      ...snapshot,
+      id: existing?.id ?? this.currentSnapshotId++,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.snapshots.set(key, saved);
+    return saved;
+  }
+
+  async getPortfolioSnapshots(userId: number): Promise<PortfolioSnapshot[]> {
+    return Array.from(this.snapshots.values())
+      .filter((snapshot) => snapshot.userId === userId)
+      .sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate));
+  }
+
+  async getPriceCacheEntry(provider: string, queryKey: string): Promise<PriceCacheEntry | undefined> {
+    return this.priceCache.get(`${provider}:${queryKey}`);
+  }
+
+  async savePriceCacheEntry(entry: InsertPriceCacheEntry): Promise<PriceCacheEntry> {
+    const key = `${entry.provider}:${entry.queryKey}`;
+    const existing = this.priceCache.get(key);
+    const saved: PriceCacheEntry = {
+      ...entry,
+      id: existing?.id ?? this.currentPriceCacheId++,
+      fetchedAt: entry.fetchedAt ?? new Date(),
+    };
+    this.priceCache.set(key, saved);
+    return saved;
+  }
+
+  async getUploadedImage(userId: number, hash: string): Promise<UploadedImage | undefined> {
+    return this.uploadedImages.get(`${userId}:${hash}`);
+  }
+
+  async saveUploadedImage(image: InsertUploadedImage): Promise<UploadedImage> {
+    const key = `${image.userId}:${image.hash}`;
+    const existing = this.uploadedImages.get(key);
+    if (existing) return existing;
+
+    const saved: UploadedImage = { ...image, id: this.currentUploadedImageId++, createdAt: new Date() };
+    this.uploadedImages.set(key, saved);
+    return saved;
+  }
+
+  async createRevaluationJob(job: InsertRevaluationJob): Promise<RevaluationJob> {
+    const id = this.currentRevaluationJobId++;
+    // Apply the same defaults as the table definition
+    const created: RevaluationJob = {
+      id,
+      userId: job.userId,
+      trigger: job.trigger,
+      status: job.status ?? "queued",
+      options: job.options,
+      totalCards: job.totalCards ?? 0,
+      processedCards: job.processedCards ?? 0,
+      updatedCards: job.updatedCards ?? 0,
+      unchangedCards: job.unchangedCards ?? 0,
+      skippedCards: job.skippedCards ?? 0,
+      failedCards: job.failedCards ?? 0,
+      error: job.error ?? null,
+      createdAt: new Date(),
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
+    };
+    this.revaluationJobs.set(id, created);
+    return created;
+  }
+
+  async updateRevaluationJob(id: number, job: Partial<InsertRevaluationJob>): Promise<RevaluationJob | undefined> {
+    const existing = this.revaluationJobs.get(id);
+    if (!existing) return undefined;
+
+    const updated: RevaluationJob = { ...existing, ...job };
+    this.revaluationJobs.set(id, updated);
+    return updated;
+  }
+
+  async getRevaluationJob(userId: number, id: number): Promise<RevaluationJob | undefined> {
+    const job = this.revaluationJobs.get(id);
+    return job && job.userId === userId ? job : undefined;
+  }
+
+  async getRevaluationJobs(userId: number): Promise<RevaluationJob[]> {
+    return Array.from(this.revaluationJobs.values())
+      .filter((job) => job.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async addRevaluationResult(result: InsertRevaluationResult): Promise<RevaluationResult> {
+    const id = this.currentRevaluationResultId++;
+    const created: RevaluationResult = {
+      id,
+      jobId: result.jobId,
+      cardId: result.cardId ?? null,
+      playerName: result.playerName,
+      searchQuery: result.searchQuery,
+      status: result.status,
+      previousValue: result.previousValue,
+      newValue: result.newValue ?? null,
+      confidence: result.confidence ?? null,
+      reason: result.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.revaluationResults.set(id, created);
+    return created;
+  }
+
+  async getRevaluationResults(jobId: number): Promise<RevaluationResult[]> {
+    return Array.from(this.revaluationResults.values())
+      .filter((result) => result.jobId === jobId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getTags(userId: number): Promise<TagWithCount[]> {
+    const counts = new Map<number, number>();
+    for (const tagIds of Array.from(this.cardTagIds.values())) {
+      for (const tagId of Array.from(tagIds)) counts.set(tagId, (counts.get(tagId) ?? 0) + 1);
+    }
+
+    return Array.from(this.tags.values())
+      .filter((tag) => tag.userId === userId)
+      .sort((a, b) => compareTagNames(a.name, b.name))
+      .map((tag) => ({ ...tag, cardCount: counts.get(tag.id) ?? 0 }));
+  }
+
+  async getTagByName(userId: number, name: string): Promise<Tag | undefined> {
+    return this.findTag(userId, name);
+  }
+
+  async createTag(userId: number, name: string): Promise<Tag> {
+    return this.addTag(userId, name);
+  }
+
+  async renameTag(userId: number, id: number, name: string): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    if (!tag || tag.userId !== userId) return undefined;
+
+    const renamed: Tag = { ...tag, name: name.trim() };
+    this.tags.set(id, renamed);
+    return renamed;
+  }
+
+  // Mirrors the ON DELETE CASCADE on card_tags
+  async deleteTag(userId: number, id: number): Promise<boolean> {
+    const tag = this.tags.get(id);
+    if (!tag || tag.userId !== userId) return false;
+
+    for (const tagIds of Array.from(this.cardTagIds.values())) tagIds.delete(id);
+    return this.tags.delete(id);
+  }
+
+  async getPortfolios(userId: number): Promise<Portfolio[]> {
+    return Array.from(this.portfolios.values())
+      .filter((portfolio) => portfolio.userId === userId)
+      .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+  }
+
+  async getPortfolio(userId: number, id: number): Promise<Portfolio | undefined> {
+    const portfolio = this.portfolios.get(id);
+    return portfolio && portfolio.userId === userId ? portfolio : undefined;
+  }
+
+  async getPortfolioByName(userId: number, name: string): Promise<Portfolio | undefined> {
+    const lower = name.trim().toLowerCase();
+    return Array.from(this.portfolios.values()).find(
+      (portfolio) => portfolio.userId === userId && portfolio.name.toLowerCase() === lower,
+    );
+  }
+
+  async createPortfolio(userId: number, name: string): Promise<Portfolio> {
+    const id = this.currentPortfolioId++;
+    const portfolio: Portfolio = { id, userId, name: name.trim(), createdAt: new Date() };
+    this.portfolios.set(id, portfolio);
+    return portfolio;
+  }
+
+  async renamePortfolio(userId: number, id: number, name: string): Promise<Portfolio | undefined> {
+    const existing = await this.getPortfolio(userId, id);
+    if (!existing) return undefined;
+
+    const renamed: Portfolio = { ...existing, name: name.trim() };
+    this.portfolios.set(id, renamed);
+    return renamed;
+  }
+
+  // Mirrors the ON DELETE SET NULL on cards.portfolio_id
+  async deletePortfolio(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getPortfolio(userId, id))) return false;
+
+    for (const card of this.userCards(userId)) {
+      if (card.portfolioId === id) this.cards.set(card.id, { ...card, portfolioId: null });
+    }
+    return this.portfolios.delete(id);
+  }
+
+  async movePortfolioCards(userId: number, cardIds: number[], portfolioId: number | null): Promise<number> {
+    let moved = 0;
+    for (const id of cardIds) {
+      const card = this.ownedCard(userId, id);
+      if (!card) continue;
+      this.cards.set(id, { ...card, portfolioId });
+      moved++;
+    }
+    return moved;
+  }
+
+  async getCardSale(userId: number, cardId: number): Promise<CardSale | undefined> {
+    const sale = this.sales.get(cardId);
+    return sale && sale.userId === userId ? sale : undefined;
+  }
+
+  async recordCardSale(userId: number, cardId: number, sale: InsertCardSale): Promise<CardSale> {
+    const card = this.ownedCard(userId, cardId);
+    if (!card) throw new Error(`Card ${cardId} not found`);
+    if (this.sales.has(cardId)) throw new Error(`Card ${cardId} is already sold`);
+
+    const created: CardSale = {
+      id: this.currentSaleId++,
+      cardId,
+      userId,
+      salePrice: sale.salePrice,
+      fees: sale.fees ?? 0,
+      shippingCost: sale.shippingCost ?? 0,
+      venue: sale.venue ?? "",
+      soldAt: sale.soldAt,
+      notes: sale.notes ?? "",
+      createdAt: new Date(),
+    };
+    this.sales.set(cardId, created);
+    this.cards.set(cardId, { ...card, locationId: null, locationSlot: null });
+    return created;
+  }
+
+  async deleteCardSale(userId: number, cardId: number): Promise<boolean> {
+    if (!(await this.getCardSale(userId, cardId))) return false;
+    return this.sales.delete(cardId);
+  }
+
+  async getSales(userId: number, params: SaleFilterParams): Promise<{ sale: CardSale; card: Card }[]> {
+    return Array.from(this.sales.values())
+      .filter((sale) => sale.userId === userId)
+      .filter((sale) => !params.from || sale.soldAt >= params.from)
+      .filter((sale) => !params.to || sale.soldAt <= params.to)
+      .map((sale) => ({ sale, card: this.withTags([this.cards.get(sale.cardId)!])[0] }))
+      .filter(({ card }) => params.portfolioId === undefined || (card.portfolioId ?? null) === params.portfolioId)
+      .sort((a, b) => (a.sale.soldAt < b.sale.soldAt ? 1 : a.sale.soldAt > b.sale.soldAt ? -1 : b.sale.id - a.sale.id))
+      .map(({ sale, card }) => ({ sale, card: { ...card, sale } }));
+  }
+
+  async getAcquisitionLots(userId: number): Promise<AcquisitionLotWithCount[]> {
+    const counts = new Map<number, number>();
+    for (const card of Array.from(this.cards.values())) {
+      if (card.lotId != null) counts.set(card.lotId, (counts.get(card.lotId) ?? 0) + 1);
+    }
+
+    // Newest purchase first, undated lots last
+    return Array.from(this.acquisitionLots.values())
+      .filter((lot) => lot.userId === userId)
+      .sort((a, b) => {
+        if (a.purchaseDate !== b.purchaseDate) {
+          if (a.purchaseDate === null) return 1;
+          if (b.purchaseDate === null) return -1;
+          return a.purchaseDate < b.purchaseDate ? 1 : -1;
+        }
+        return b.id - a.id;
+      })
+      .map((lot) => ({ ...lot, cardCount: counts.get(lot.id) ?? 0 }));
+  }
+
+  async getAcquisitionLot(userId: number, id: number): Promise<AcquisitionLot | undefined> {
+    const lot = this.acquisitionLots.get(id);
+    return lot && lot.userId === userId ? lot : undefined;
+  }
+
+  async createAcquisitionLot(lot: AcquisitionLotFields & { userId: number }): Promise<AcquisitionLot> {
+    const id = this.currentAcquisitionLotId++;
+    const created: AcquisitionLot = {
+      id,
+      userId: lot.userId,
+      name: lot.name,
+      purchaseDate: lot.purchaseDate ?? null,
+      source: lot.source ?? null,
+      seller: lot.seller ?? "",
+      totalPrice: lot.totalPrice,
+      fees: lot.fees ?? 0,
+      shipping: lot.shipping ?? 0,
+      tax: lot.tax ?? 0,
+      allocation: lot.allocation ?? "value",
+      createdAt: new Date(),
+    };
+    this.acquisitionLots.set(id, created);
+    return created;
+  }
+
+  async updateAcquisitionLot(userId: number, id: number, lot: Partial<AcquisitionLotFields>): Promise<AcquisitionLot | undefined> {
+    const existing = await this.getAcquisitionLot(userId, id);
+    if (!existing) return undefined;
+
+    const updated: AcquisitionLot = { ...existing, ...lot };
+    this.acquisitionLots.set(id, updated);
+    return updated;
+  }
+
+  // Mirrors the ON DELETE SET NULL on cards.lot_id
+  async deleteAcquisitionLot(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getAcquisitionLot(userId, id))) return false;
+
+    for (const card of this.userCards(userId)) {
+      if (card.lotId === id) this.cards.set(card.id, { ...card, lotId: null });
+    }
+    return this.acquisitionLots.delete(id);
+  }
+
+  async getLotCards(userId: number, lotId: number): Promise<Card[]> {
+    return this.withSales(this.withTags(this.userCards(userId).filter((card) => card.lotId === lotId).sort((a, b) => a.id - b.id)));
+  }
+
+  async setLotCards(userId: number, lotId: number, cardIds: number[]): Promise<number[]> {
+    const previous = new Set<number>();
+    for (const card of this.userCards(userId)) {
+      if (cardIds.includes(card.id)) {
+        if (card.lotId === lotId) continue;
+        if (card.lotId != null) previous.add(card.lotId);
+        // Weighted by its value when it joined the lot
+        this.cards.set(card.id, { ...card, lotId, lotWeight: Math.max(card.currentValue ?? 0, 0) });
+      } else if (card.lotId === lotId) {
+        this.cards.set(card.id, { ...card, ...leftLot });
+      }
+    }
+    return Array.from(previous);
+  }
+
+  async applyLotCosts(userId: number, lot: AcquisitionLot, shares: LotCostShare[]): Promise<void> {
+    for (const { cardId, ...costs } of shares) {
+      const card = this.ownedCard(userId, cardId);
+      if (!card || card.lotId !== lot.id) continue;
+      this.cards.set(cardId, {
+        ...card,
+        ...costs,
+        purchaseDate: lot.purchaseDate,
+        purchaseSource: lot.source,
+        purchaseSeller: lot.seller,
+      });
+    }
+  }
+
+  async getStorageLocations(userId: number): Promise<StorageLocationWithCount[]> {
+    const counts = new Map<number, number>();
+    for (const card of Array.from(this.cards.values())) {
+      if (card.locationId != null) counts.set(card.locationId, (counts.get(card.locationId) ?? 0) + 1);
+    }
+
+    return Array.from(this.storageLocations.values())
+      .filter((location) => location.userId === userId)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : a.id - b.id))
+      .map((location) => ({ ...location, cardCount: counts.get(location.id) ?? 0 }));
+  }
+
+  async getStorageLocation(userId: number, id: number): Promise<StorageLocation | undefined> {
+    const location = this.storageLocations.get(id);
+    return location && location.userId === userId ? location : undefined;
+  }
+
+  async createStorageLocation(location: InsertStorageLocation & { userId: number }): Promise<StorageLocation> {
+    const id = this.currentStorageLocationId++;
+    const created: StorageLocation = {
+      id,
+      userId: location.userId,
+      parentId: location.parentId ?? null,
+      kind: location.kind,
+      name: location.name,
+      createdAt: new Date(),
+    };
+    this.storageLocations.set(id, created);
+    return created;
+  }
+
+  async updateStorageLocation(userId: number, id: number, location: Partial<InsertStorageLocation>): Promise<StorageLocation | undefined> {
+    const existing = await this.getStorageLocation(userId, id);
+    if (!existing) return undefined;
+
+    const updated: StorageLocation = { ...existing, ...location };
+    this.storageLocations.set(id, updated);
+    return updated;
+  }
+
+  // Mirrors the ON DELETE CASCADE on parent_id and the slot clearing in DatabaseStorage
+  async deleteStorageLocation(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getStorageLocation(userId, id))) return false;
+
+    const ids = locationSubtreeIds(Array.from(this.storageLocations.values()), id);
+    for (const card of Array.from(this.cards.values())) {
+      if (card.locationId != null && ids.includes(card.locationId)) {
+        this.cards.set(card.id, { ...card, locationId: null, locationSlot: null });
+      }
+    }
+    for (const locationId of ids) this.storageLocations.delete(locationId);
+    return true;
+  }
+
+  async getLocationCards(userId: number, locationId: number): Promise<Card[]> {
+    const slot = (card: Card) => card.locationSlot ?? Number.POSITIVE_INFINITY;
+    return this.withTags(
+      this.userCards(userId)
+        .filter((card) => card.locationId === locationId)
+        .sort((a, b) => slot(a) - slot(b) || a.id - b.id),
+    );
+  }
+
+  async moveCards(userId: number, move: MoveCards): Promise<number> {
+    const { cardIds, locationId, startSlot } = move;
+    const slots = this.userCards(userId)
+      .filter((card) => locationId !== null && card.locationId === locationId)
+      .map((card) => card.locationSlot ?? 0);
+    let nextSlot = startSlot ?? Math.max(0, ...slots) + 1;
+    let moved = 0;
+
+    if (locationId !== null && startSlot !== undefined) {
+      // Make room: cards from startSlot on that aren't moving go up past the moved ones
+      const moving = Array.from(new Set(cardIds)).filter((id) => this.ownedCard(userId, id)).length;
+      for (const card of this.userCards(userId)) {
+        if (card.locationId === locationId && card.locationSlot != null && card.locationSlot >= startSlot && !cardIds.includes(card.id)) {
+          this.cards.set(card.id, { ...card, locationSlot: card.locationSlot + moving });
+        }
+      }
+    }
+
+    for (const id of cardIds) {
+      const card = this.ownedCard(userId, id);
+      if (!card) continue;
+      moved++;
+      if (locationId !== null && startSlot === undefined && card.locationId === locationId) continue;
+
+      this.cards.set(id, { ...card, locationId, locationSlot: locationId === null ? null : nextSlot++ });
+    }
+
+    return moved;
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter((search) => search.userId === userId)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : a.id - b.id));
+  }
+
+  async getSavedSearch(userId: number, id: number): Promise<SavedSearch | undefined> {
+    const search = this.savedSearches.get(id);
+    return search && search.userId === userId ? search : undefined;
+  }
+
+  async createSavedSearch(search: InsertSavedSearch & { userId: number }): Promise<SavedSearch> {
+    const id = this.currentSavedSearchId++;
+    const created: SavedSearch = {
+      id,
+      userId: search.userId,
+      name: search.name,
+      filters: search.filters,
+      createdAt: new Date(),
+    };
+    this.savedSearches.set(id, created);
+    return created;
+  }
+
+  async updateSavedSearch(userId: number, id: number, search: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const existing = await this.getSavedSearch(userId, id);
+    if (!existing) return undefined;
+
+    const updated: SavedSearch = { ...existing, ...search };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedSearch(userId: number, id: number): Promise<boolean> {
+    if (!(await this.getSavedSearch(userId, id))) return false;
+    return this.savedSearches.delete(id);
+  }
+}
+
+// A card's position in a sort order, mirroring cardSortExpression
+function cardSortKey(card: Card, params: CardFilterParams): CardCursor {
+  const { sort, tokens } = resolveCardSort(params);
+
+  const values: Record<CardSortField, () => string | number> = {
+    createdAt: () => (card.createdAt ? card.createdAt.getTime() : 0),
+    playerName: () => card.playerName,
+    currentValue: () => card.currentValue ?? 0,
+    year: () => card.year,
+    relevance: () => rankSearchText(card.searchText, tokens),
+  };
+
+  return { sort: cardSortName(params), value: sort ? values[sort.field]() : card.id, id: card.id };
+}
+
+function compareSortKeys(a: CardCursor, b: CardCursor, direction: 'asc' | 'desc'): number {
+  const byValue = typeof a.value === 'string' && typeof b.value === 'string'
+    ? a.value.localeCompare(b.value)
+    : Number(a.value) - Number(b.value);
+  const result = byValue || a.id - b.id;
+  return direction === 'desc' ? -result : result;
+}
+
+// Comparator matching the ORDER BY clauses in DatabaseStorage.getFilteredCards
+function compareCards(params: CardFilterParams): (a: Card, b: Card) => number {
+  const direction = resolveCardSort(params).sort?.direction ?? 'desc';
+  return (a, b) => compareSortKeys(cardSortKey(a, params), cardSortKey(b, params), direction);
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// Use Postgres when it's configured, otherwise keep everything in memory
+export const storage: IStorage = hasDatabase ? new DatabaseStorage() : new MemStorage();
@@ -0,0 +1,50 @@
+import type { Card, CardFieldChange } from "./schema";
+
+// What the edit log records about changes to a card's details
+
+// Fields an edit is logged for, with how the card page labels them
+export const cardEditFieldLabels = {
+  playerName: "Player",
+  sport: "Sport",
+  year: "Year",
+  brand: "Brand",
+  cardSet: "Set",
+  cardNumber: "Card number",
+  condition: "Condition",
+  purchasePrice: "Purchase price",
+  purchaseFees: "Purchase fees",
+  purchaseShipping: "Purchase shipping",
+  purchaseTax: "Purchase tax",
+  purchaseDate: "Purchase date",
+  purchaseSource: "Bought from",
+  purchaseSeller: "Seller",
+  notes: "Notes",
+  tags: "Tags",
+} as const;
+
+type EditedField = keyof typeof cardEditFieldLabels;
+type EditableCard = Pick<Card, Exclude<EditedField, "tags">> & { tags?: string[] };
+
+function fieldValue(card: Partial<EditableCard>, field: EditedField): string | number | null {
+  if (field === "tags") {
+    return [...(card.tags ?? [])].sort((a, b) => a.localeCompare(b)).join(", ") || null;
+  }
+  const value = card[field];
+  // Blank and missing mean the same thing on optional fields
+  return value === undefined || value === "" ? null : value;
+}
+
+/**
+ * The logged fields that differ between a card and the same card after an
+ * update. Fields the update leaves out aren't compared.
+ */
+export function diffCardEdits(before: EditableCard, update: Partial<EditableCard>): CardFieldChange[] {
+  const changes: CardFieldChange[] = [];
+  for (const field of Object.keys(cardEditFieldLabels) as EditedField[]) {
+    if (update[field] === undefined) continue;
+    const from = fieldValue(before, field);
+    const to = fieldValue(update, field);
+    if (from !== to) changes.push({ field, from, to });
+  }
+  return changes;
+}
@@ -1,6 +1,18 @@
-// Database of card image URLs
-export const cardImages: string[] = [
-  // Front images
+import type { CardImageInput, ImageRole } from "./schema";
+
+// Card photos: uploaded ones are served from /api/images/<hash>, others are
+// links, e.g. from an imported listing
+
+export const imageRoleLabels: Record<ImageRole, string> = {
+  front: "Front",
+  back: "Back",
+  slab: "Slab label",
+  detail: "Close-up",
+};
+
+// Stock scans that older versions of the card form filled in for cards
+// without a photo. They show someone else's card, so they count as no photo.
+const legacyStockScans = new Set([
   "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-4_0005_Layer%201.jpg",
   "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-4_0001_Layer%205.jpg",
   "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-4_0000_Layer%206.jpg",
@@ -33,28 +45,57 @@ export const cardImages: string[] = [
   "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-3_0005_Layer%203.jpg",
   "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/card%20matcher/Untitled-1_0045_Layer%203.jpg",
   "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-9_0008_Layer%2084.jpg",
-  "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-11_0006_Layer%2099.jpg"
-];
+  "https://sportscards.standard.us-east-1.oortstorages.com/new%20card%20scans%202/Untitled-11_0006_Layer%2099.jpg",
+]);
+
+export function imageUrl(hash: string): string {
+  return `/api/images/${hash}`;
+}
 
-// Default image if no card image is available
-export const defaultCardImageUrl = "https://images.unsplash.com/photo-1600679472829-3044539ce8ed?q=80&w=1000&auto=format&fit=crop&ixlib=rb-4.0.3";
+export function imageThumbnailUrl(hash: string): string {
+  return `/api/images/${hash}/thumbnail`;
+}
+
+/**
+ * The hash of an uploaded photo from its URL, or null for other URLs
+ */
+export function uploadedImageHash(url: string): string | null {
+  const match = /^\/api\/images\/([0-9a-f]{64})$/.exec(url);
+  return match ? match[1] : null;
+}
 
 /**
- * Get a random card image from the available images
+ * A small version of a photo for lists and grids: the thumbnail for uploaded
+ * photos, the URL itself otherwise
  */
-export function getRandomCardImage(): string {
-  if (cardImages.length === 0) {
-    return defaultCardImageUrl;
-  }
-  
-  const randomIndex = Math.floor(Math.random() * cardImages.length);
-  return cardImages[randomIndex];
+export function thumbnailFor(url: string): string {
+  const hash = uploadedImageHash(url);
+  return hash ? imageThumbnailUrl(hash) : url;
 }
 
 /**
- * Get a sport-specific placeholder image
+ * Whether a URL is a real photo of the card rather than blank or a stock scan
  */
-export function getSportSpecificImage(sport: string): string {
-  // Use an actual card image instead of a placeholder
-  return getRandomCardImage();
-}
\ No newline at end of file
+export function isCardPhoto(url: string | null | undefined): url is string {
+  return !!url && !legacyStockScans.has(url);
+}
+
+/**
+ * Photos from a "|"-separated list of URLs, as imports and older cards have
+ * them: the first is the front and the rest are close-ups. Stock scans are
+ * dropped.
+ */
+export function imagesFromUrlList(value: string | null | undefined): CardImageInput[] {
+  return (value ?? "")
+    .split("|")
+    .map((url) => url.trim())
+    .filter(isCardPhoto)
+    .map((url, index) => ({ url, role: index === 0 ? "front" : "detail" }));
+}
+
+/**
+ * The photo to show for a card in lists: its first front, else its first photo
+ */
+export function coverImageUrl(images: Pick<CardImageInput, "url" | "role">[]): string {
+  return (images.find((image) => image.role === "front") ?? images[0])?.url ?? "";
+}
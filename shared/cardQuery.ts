@@ -0,0 +1,213 @@
+// Structured search syntax for the collection, e.g.
+//   sport:soccer year:2018..2021 condition:psa10 value>50 brand:"Topps Chrome" -notes:reprint
+// Parsed on the client for inline errors and on the server to build filters.
+
+export const cardQueryTextFields = {
+  player: "playerName",
+  sport: "sport",
+  brand: "brand",
+  set: "cardSet",
+  number: "cardNumber",
+  condition: "condition",
+  notes: "notes",
+} as const;
+
+export const cardQueryNumberFields = {
+  year: "year",
+  value: "currentValue",
+  cost: "purchasePrice",
+} as const;
+
+export type CardQueryTextField = keyof typeof cardQueryTextFields;
+export type CardQueryNumberField = keyof typeof cardQueryNumberFields;
+export type CardQueryOperator = "=" | ">" | ">=" | "<" | "<=";
+
+// Sport and condition are picked from fixed lists, so they match whole values;
+// the free-form fields match anywhere in the text
+export const exactTextFields: readonly CardQueryTextField[] = ["sport", "condition"];
+
+export type CardQueryClause =
+  | { kind: "text"; field: CardQueryTextField; value: string; negate: boolean }
+  | { kind: "compare"; field: CardQueryNumberField; operator: CardQueryOperator; value: number; negate: boolean }
+  | { kind: "range"; field: CardQueryNumberField; min: number; max: number; negate: boolean }
+  // Only negated free text ends up here; the rest goes to the ranked search
+  | { kind: "search"; value: string; negate: boolean };
+
+export interface ParsedCardQuery {
+  search: string; // free text for the ranked full-text search
+  clauses: CardQueryClause[];
+}
+
+export interface CardQueryError {
+  message: string;
+  position: number; // offset into the query where the problem starts
+}
+
+export type CardQueryParseResult =
+  | { success: true; query: ParsedCardQuery }
+  | { success: false; error: CardQueryError };
+
+// Examples shown next to the search box
+export const cardQuerySyntaxHints = [
+  { example: "sport:soccer", description: "Field matches a value" },
+  { example: 'brand:"Topps Chrome"', description: "Quote values with spaces" },
+  { example: "year:2018..2021", description: "Inclusive range; 2018.. or ..2021 leave an end open" },
+  { example: "value>50", description: "Compare value or cost with >, >=, <, <= or =" },
+  { example: "-notes:reprint", description: "Leading - excludes matches" },
+];
+
+// Anything but a letter or digit, in any script
+const NON_ALPHANUMERIC = new RegExp("[^\\p{L}\\p{N}]", "gu");
+
+const fieldNames = [...Object.keys(cardQueryTextFields), ...Object.keys(cardQueryNumberFields)];
+
+/**
+ * Lowercase and drop everything but letters and digits, so "PSA 10" and
+ * "psa10" compare equal
+ */
+export function normalizeQueryText(text: string): string {
+  return text.toLowerCase().replace(NON_ALPHANUMERIC, "");
+}
+
+function isTextField(field: string): field is CardQueryTextField {
+  return Object.prototype.hasOwnProperty.call(cardQueryTextFields, field);
+}
+
+function isNumberField(field: string): field is CardQueryNumberField {
+  return Object.prototype.hasOwnProperty.call(cardQueryNumberFields, field);
+}
+
+class QueryParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+// Accepts "50", "$1,000" and "12.5"
+function parseNumber(text: string, field: string, position: number): number {
+  const value = Number(text.replace(/[$,]/g, ""));
+  if (text === "" || !Number.isFinite(value)) {
+    throw new QueryParseError(`Expected a number for "${field}", got "${text}"`, position);
+  }
+  return value;
+}
+
+/**
+ * Parse a search box query. Terms are separated by spaces and combined with
+ * AND; anything that isn't field syntax is free text.
+ */
+export function parseCardQuery(input: string): CardQueryParseResult {
+  try {
+    return { success: true, query: parseTerms(input) };
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      return { success: false, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+}
+
+function parseTerms(input: string): ParsedCardQuery {
+  const words: string[] = [];
+  const clauses: CardQueryClause[] = [];
+  let pos = 0;
+
+  // A quoted string or a run of non-space characters starting at pos
+  const readValue = (): { text: string; quoted: boolean } => {
+    if (input[pos] === '"') {
+      const end = input.indexOf('"', pos + 1);
+      if (end === -1) throw new QueryParseError("Missing closing quote", pos);
+      const text = input.slice(pos + 1, end);
+      pos = end + 1;
+      return { text, quoted: true };
+    }
+    const start = pos;
+    while (pos < input.length && !/\s/.test(input[pos])) pos++;
+    return { text: input.slice(start, pos), quoted: false };
+  };
+
+  while (pos < input.length) {
+    if (/\s/.test(input[pos])) {
+      pos++;
+      continue;
+    }
+
+    const negate = input[pos] === "-" && pos + 1 < input.length && !/\s/.test(input[pos + 1]);
+    if (negate) pos++;
+
+    const field = /^([a-zA-Z]+)(>=|<=|:|>|<|=)/.exec(input.slice(pos));
+
+    if (!field) {
+      const { text } = readValue();
+      if (negate) {
+        clauses.push({ kind: "search", value: text, negate: true });
+      } else {
+        words.push(text);
+      }
+      continue;
+    }
+
+    const name = field[1].toLowerCase();
+    const operator = field[2];
+    const fieldStart = pos;
+
+    if (!isTextField(name) && !isNumberField(name)) {
+      throw new QueryParseError(
+        `Unknown field "${field[1]}". Use one of ${fieldNames.join(", ")}, or quote the text to search for it`,
+        fieldStart,
+      );
+    }
+
+    pos += field[0].length;
+    const valueStart = pos;
+    const { text, quoted } = readValue();
+
+    if (text === "" && !quoted) {
+      throw new QueryParseError(`Missing value after "${field[0]}"`, valueStart);
+    }
+
+    if (isTextField(name)) {
+      if (operator !== ":") {
+        throw new QueryParseError(`"${name}" is text, so it only supports "${name}:"`, fieldStart);
+      }
+      if (!normalizeQueryText(text)) {
+        throw new QueryParseError(`Missing value after "${field[0]}"`, valueStart);
+      }
+      clauses.push({ kind: "text", field: name, value: text, negate });
+      continue;
+    }
+
+    const range = operator === ":" ? /^(.*?)\.\.(.*)$/.exec(text) : null;
+
+    if (range) {
+      const [, from, to] = range;
+      if (!from && !to) {
+        throw new QueryParseError(`Range for "${name}" needs at least one end`, valueStart);
+      }
+      const min = from ? parseNumber(from, name, valueStart) : undefined;
+      const max = to ? parseNumber(to, name, valueStart + from.length + 2) : undefined;
+
+      if (min !== undefined && max !== undefined) {
+        if (min > max) {
+          throw new QueryParseError(`Range "${text}" for "${name}" is backwards; use ${to}..${from}`, valueStart);
+        }
+        clauses.push({ kind: "range", field: name, min, max, negate });
+      } else if (min !== undefined) {
+        clauses.push({ kind: "compare", field: name, operator: ">=", value: min, negate });
+      } else {
+        clauses.push({ kind: "compare", field: name, operator: "<=", value: max!, negate });
+      }
+      continue;
+    }
+
+    clauses.push({
+      kind: "compare",
+      field: name,
+      operator: operator === ":" ? "=" : (operator as CardQueryOperator),
+      value: parseNumber(text, name, valueStart),
+      negate,
+    });
+  }
+
+  return { search: words.join(" "), clauses };
+}
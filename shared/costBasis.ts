@@ -0,0 +1,81 @@
+import type { AcquisitionLot, AcquisitionSource, Card, LotCostShare } from "./schema";
+
+// What cards cost to acquire, and splitting a group purchase between its cards
+
+export const acquisitionSourceLabels: Record<AcquisitionSource, string> = {
+  break: "Break",
+  show: "Card show",
+  ebay: "eBay",
+  lcs: "Local card shop",
+  other: "Other",
+};
+
+type CostFields = Pick<Card, "purchasePrice" | "purchaseFees" | "purchaseShipping" | "purchaseTax">;
+
+/**
+ * The fully loaded cost of a card: its price plus fees, shipping and tax
+ */
+export function cardCostBasis(card: CostFields): number {
+  return (card.purchasePrice ?? 0) + (card.purchaseFees ?? 0) + (card.purchaseShipping ?? 0) + (card.purchaseTax ?? 0);
+}
+
+/**
+ * Split an amount in proportion to the weights, in whole cents that add up to
+ * the amount exactly. Leftover cents go to the largest remainders.
+ */
+export function allocateAmount(amount: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  // Nothing to go on, so split evenly
+  const effective = totalWeight > 0 ? weights : weights.map(() => 1);
+  const effectiveTotal = totalWeight > 0 ? totalWeight : weights.length;
+
+  const cents = Math.round(amount * 100);
+  const exact = effective.map((weight) => (cents * weight) / effectiveTotal);
+  const shares = exact.map(Math.floor);
+
+  let leftover = cents - shares.reduce((sum, share) => sum + share, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    shares[byRemainder[i].index]++;
+  }
+
+  return shares.map((share) => share / 100);
+}
+
+/**
+ * Each held card's share of a lot's price, fees, shipping and tax. Sold cards
+ * keep the costs they were sold with, so only what they don't carry is spread
+ * over the rest. By value, cards share in proportion to their value when they
+ * joined the lot; cards with no value get nothing unless none of them has one.
+ */
+export function allocateLotCosts(
+  lot: Pick<AcquisitionLot, "totalPrice" | "fees" | "shipping" | "tax" | "allocation">,
+  cards: (Pick<Card, "id" | "lotWeight" | "sale"> & CostFields)[]
+): LotCostShare[] {
+  const sold = cards.filter((card) => card.sale);
+  const held = cards.filter((card) => !card.sale);
+  const unallocated = (amount: number, field: keyof CostFields) =>
+    Math.max(amount - sold.reduce((sum, card) => sum + (card[field] ?? 0), 0), 0);
+
+  // Cards allocated before weights were kept fall back to their price share,
+  // which was in proportion to their weight
+  const weights = held.map((card) =>
+    lot.allocation === "even" ? 1 : Math.max(card.lotWeight ?? card.purchasePrice ?? 0, 0)
+  );
+  const prices = allocateAmount(unallocated(lot.totalPrice, "purchasePrice"), weights);
+  const fees = allocateAmount(unallocated(lot.fees, "purchaseFees"), weights);
+  const shipping = allocateAmount(unallocated(lot.shipping, "purchaseShipping"), weights);
+  const tax = allocateAmount(unallocated(lot.tax, "purchaseTax"), weights);
+
+  return held.map((card, index) => ({
+    cardId: card.id,
+    purchasePrice: prices[index],
+    purchaseFees: fees[index],
+    purchaseShipping: shipping[index],
+    purchaseTax: tax[index],
+  }));
+}
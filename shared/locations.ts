@@ -0,0 +1,60 @@
+import { storageLocationKinds, type StorageLocation, type StorageLocationKind } from "./schema";
+
+// Walking up the hierarchy of a user's storage locations
+
+type LocationNode = Pick<StorageLocation, "id" | "parentId">;
+
+/**
+ * Whether a location of `childKind` can sit inside one of `parentKind`:
+ * binders go in boxes or rooms, never the other way around
+ */
+export function canContainLocation(parentKind: string, childKind: string): boolean {
+  const parentLevel = storageLocationKinds.indexOf(parentKind as StorageLocationKind);
+  const childLevel = storageLocationKinds.indexOf(childKind as StorageLocationKind);
+  return parentLevel !== -1 && childLevel > parentLevel;
+}
+
+/**
+ * The location and its ancestors, outermost first. Empty when the id isn't
+ * among `locations`.
+ */
+export function locationPath<T extends LocationNode>(locations: T[], id: number | null | undefined): T[] {
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const path: T[] = [];
+
+  let current = id != null ? byId.get(id) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId != null ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Ids of the location and everything nested inside it
+ */
+export function locationSubtreeIds(locations: LocationNode[], id: number): number[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const location of locations) {
+      if (location.parentId === ids[i] && !ids.includes(location.id)) ids.push(location.id);
+    }
+  }
+  return ids;
+}
+
+// "Office › Box 3 › Binder A · slot 14"
+export function formatLocationPath(path: Pick<StorageLocation, "name">[], slot?: number | null): string {
+  const names = path.map((location) => location.name).join(" › ");
+  return slot != null ? `${names} · slot ${slot}` : names;
+}
+
+/**
+ * Every location labelled with its full path and sorted by it, for pickers
+ */
+export function locationChoices(locations: StorageLocation[]): { id: number; label: string }[] {
+  return locations
+    .map((location) => ({ id: location.id, label: formatLocationPath(locationPath(locations, location.id)) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
@@ -0,0 +1,10 @@
+// The `portfolio` card filter: a portfolio id, "none" for cards outside every
+// portfolio, or "all"
+
+/**
+ * The portfolio id to filter on: null for "none", undefined for every card
+ */
+export function parsePortfolioFilter(value: unknown): number | null | undefined {
+  if (value === "none") return null;
+  return typeof value === "string" && /^\d+$/.test(value) ? Number(value) : undefined;
+}
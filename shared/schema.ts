@@ -0,0 +1,819 @@
+import { pgTable, text, serial, integer, doublePrecision, timestamp, jsonb, date, unique, index, uniqueIndex, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const cards = pgTable("cards", {
+  id: serial("id").primaryKey(),
+  playerName: text("player_name").notNull(),
+  sport: text("sport").notNull(),
+  year: integer("year").notNull(),
+  brand: text("brand").notNull(),
+  cardSet: text("card_set").default(""),
+  condition: text("condition").notNull(),
+  purchasePrice: doublePrecision("purchase_price").default(0),
+  // What else was paid to acquire the card; with the price these make up its cost basis
+  purchaseFees: doublePrecision("purchase_fees").notNull().default(0), // buyer's premium, grading
+  purchaseShipping: doublePrecision("purchase_shipping").notNull().default(0),
+  purchaseTax: doublePrecision("purchase_tax").notNull().default(0),
+  purchaseDate: date("purchase_date"), // YYYY-MM-DD; null when unknown
+  purchaseSource: text("purchase_source"), // one of acquisitionSources; null when unknown
+  purchaseSeller: text("purchase_seller").notNull().default(""),
+  // The group purchase the card's costs were allocated from, if any
+  lotId: integer("lot_id").references(() => acquisitionLots.id, { onDelete: "set null" }),
+  // The card's value when it joined the lot, which by-value allocation weights it by
+  lotWeight: doublePrecision("lot_weight"),
+  currentValue: doublePrecision("current_value").default(0),
+  notes: text("notes").default(""),
+  // The card's cover photo, kept in step with card_images by storage
+  imageUrl: text("image_url").default(""),
+  cardNumber: text("card_number").default(""),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  // Normalized tokens of the searchable fields, maintained by storage
+  searchText: text("search_text").notNull().default(""),
+  // Where the physical card is kept; the slot is its position within that location
+  locationId: integer("location_id").references(() => storageLocations.id, { onDelete: "set null" }),
+  locationSlot: integer("location_slot"),
+  // Null for cards that aren't in any of the user's portfolios
+  portfolioId: integer("portfolio_id").references(() => portfolios.id, { onDelete: "set null" }),
+}, (table) => [
+  index("cards_search_idx").using("gin", sql`to_tsvector('simple', ${table.searchText})`),
+  index("cards_location_idx").on(table.locationId, table.locationSlot),
+  index("cards_portfolio_idx").on(table.portfolioId),
+  index("cards_lot_idx").on(table.lotId),
+]);
+
+// Where cards are bought
+export const acquisitionSources = ["break", "show", "ebay", "lcs", "other"] as const;
+
+// How a lot's costs are split between its cards: in proportion to their
+// value when they joined the lot, or evenly
+export const lotAllocationMethods = ["value", "even"] as const;
+
+// A group purchase, e.g. a box break or a binder bought at a show, whose
+// price and costs are allocated across the cards in it
+export const acquisitionLots = pgTable("acquisition_lots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  purchaseDate: date("purchase_date"),
+  source: text("source"),
+  seller: text("seller").notNull().default(""),
+  totalPrice: doublePrecision("total_price").notNull(),
+  fees: doublePrecision("fees").notNull().default(0),
+  shipping: doublePrecision("shipping").notNull().default(0),
+  tax: doublePrecision("tax").notNull().default(0),
+  allocation: text("allocation").notNull().default("value"), // one of lotAllocationMethods
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A named part of a user's collection, e.g. "PC", "Investments" or "Resale
+// inventory", with its own totals. Names are unique per user, ignoring case.
+export const portfolios = pgTable("portfolios", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("portfolios_user_name_idx").on(table.userId, sql`lower(${table.name})`),
+]);
+
+// The sale of a card. Sold cards leave the active inventory but keep their
+// records, so the sale economics stay available for reports.
+export const cardSales = pgTable("card_sales", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").notNull().unique().references(() => cards.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  salePrice: doublePrecision("sale_price").notNull(),
+  fees: doublePrecision("fees").notNull().default(0), // marketplace and payment fees
+  shippingCost: doublePrecision("shipping_cost").notNull().default(0), // paid by the seller
+  venue: text("venue").notNull().default(""), // e.g. "eBay" or "card show"
+  soldAt: date("sold_at").notNull(), // YYYY-MM-DD
+  notes: text("notes").notNull().default(""),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("card_sales_user_sold_idx").on(table.userId, table.soldAt),
+]);
+
+// Levels of the physical storage hierarchy, outermost first. A location may
+// only sit inside a location of an earlier kind; cards fill the slots.
+export const storageLocationKinds = ["room", "box", "row", "binder", "page"] as const;
+
+// A room, box, binder and so on; deleting one deletes everything inside it
+export const storageLocations = pgTable("storage_locations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => storageLocations.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// User-defined labels such as "PC" or "For sale"; names are unique per user, ignoring case
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("tags_user_name_idx").on(table.userId, sql`lower(${table.name})`),
+]);
+
+export const cardTags = pgTable("card_tags", {
+  cardId: integer("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.cardId, table.tagId] }),
+]);
+
+// Where a recorded card value came from
+export const valuationSources = ["manual", "price-service", "import", "revaluation"] as const;
+
+// Price estimates a PriceAnalysis offers for setting a card's value
+export const priceEstimateOptions = [
+  { label: "Average", value: "averagePrice" },
+  { label: "Median", value: "medianPrice" },
+  { label: "Trimmed Mean", value: "trimmedMeanPrice" },
+  { label: "Average (Outliers Removed)", value: "filteredAveragePrice" },
+  { label: "Recency Weighted", value: "recencyWeightedPrice" },
+] as const;
+
+const priceEstimates = priceEstimateOptions.map(option => option.value) as [PriceEstimate, ...PriceEstimate[]];
+
+// Price research statistics behind a valuation (a snapshot of PriceAnalysis)
+export const valuationStatsSchema = z.object({
+  averagePrice: z.number(),
+  minPrice: z.number(),
+  maxPrice: z.number(),
+  medianPrice: z.number(),
+  totalResults: z.number(),
+  searchQuery: z.string(),
+  estimate: z.enum(priceEstimates).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+export type ValuationStats = z.infer<typeof valuationStatsSchema>;
+
+// Append-only history of a card's currentValue
+export const cardValuations = pgTable("card_valuations", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+  value: doublePrecision("value").notNull(),
+  source: text("source").notNull(),
+  stats: jsonb("stats").$type<ValuationStats>(),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+});
+
+// A field an edit changed; values are as stored, tags as a sorted list
+export interface CardFieldChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// Append-only log of edits to a card's details. Value changes are in
+// card_valuations instead, and moves and lot allocations aren't logged.
+export const cardEdits = pgTable("card_edits", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+  changes: jsonb("changes").$type<CardFieldChange[]>().notNull(),
+  editedAt: timestamp("edited_at").defaultNow().notNull(),
+}, (table) => [
+  index("card_edits_card_idx").on(table.cardId),
+]);
+
+// One row per user per day summarising the whole portfolio
+export const portfolioSnapshots = pgTable("portfolio_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  snapshotDate: date("snapshot_date").notNull(), // YYYY-MM-DD
+  totalCards: integer("total_cards").notNull(),
+  totalCost: doublePrecision("total_cost").notNull(),
+  totalValue: doublePrecision("total_value").notNull(),
+  countsBySport: jsonb("counts_by_sport").$type<Record<string, number>>().notNull(),
+  countsByCondition: jsonb("counts_by_condition").$type<Record<string, number>>().notNull(),
+  countsByBrand: jsonb("counts_by_brand").$type<Record<string, number>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("portfolio_snapshots_user_date").on(table.userId, table.snapshotDate),
+]);
+
+// Sold listings per provider and normalized search query, reused until they expire
+export const priceCache = pgTable("price_cache", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  queryKey: text("query_key").notNull(), // normalized search query
+  searchQuery: text("search_query").notNull(), // query as first requested
+  listings: jsonb("listings").$type<SoldListing[]>().notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+}, (table) => [
+  unique("price_cache_provider_query").on(table.provider, table.queryKey),
+]);
+
+// Which side or part of a card a photo shows; "detail" is a close-up, e.g. of a flaw
+export const imageRoles = ["front", "back", "slab", "detail"] as const;
+
+// Photos a user has uploaded, stored by the image service under the SHA-256
+// of their bytes so the same photo is only kept once
+export const uploadedImages = pgTable("uploaded_images", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  hash: text("hash").notNull(), // hex SHA-256 of the original bytes
+  contentType: text("content_type").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  bytes: integer("bytes").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("uploaded_images_user_hash").on(table.userId, table.hash),
+]);
+
+// A card's photos in display order. Uploaded photos carry their hash and
+// size; photos linked from elsewhere (e.g. imported listings) only a URL.
+export const cardImages = pgTable("card_images", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").notNull().references(() => cards.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // one of imageRoles
+  position: integer("position").notNull(),
+  url: text("url").notNull(),
+  hash: text("hash"),
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("card_images_card_idx").on(table.cardId, table.position),
+]);
+
+// Cards still held, sold ones, or both
+export const cardStatuses = ["active", "sold", "all"] as const;
+
+// Which cards a bulk revaluation covers and how it turns a price analysis into a value
+export const revaluationOptionsSchema = z.object({
+  // Same filters as GET /api/cards; empty means the whole collection
+  filters: z.object({
+    search: z.string().optional(),
+    sport: z.string().optional(),
+    year: z.string().optional(),
+    brand: z.string().optional(),
+    condition: z.string().optional(),
+    cardSet: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    tagMode: z.enum(["any", "all"]).optional(),
+    portfolioId: z.number().int().nullable().optional(), // null for cards in no portfolio
+    status: z.enum(cardStatuses).optional(),
+  }).default({}),
+  estimate: z.enum(priceEstimates).default("filteredAveragePrice"),
+  // Analyses below this confidence leave the card's value alone
+  minConfidence: z.number().min(0).max(1).default(0.5),
+});
+
+export type RevaluationOptions = z.infer<typeof revaluationOptionsSchema>;
+
+export const revaluationJobStatuses = ["queued", "running", "completed", "failed"] as const;
+export const revaluationResultStatuses = ["updated", "unchanged", "skipped", "failed"] as const;
+
+// A bulk revaluation run over a user's cards, with its progress counters
+export const revaluationJobs = pgTable("revaluation_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  trigger: text("trigger").notNull(), // "manual" or "scheduled"
+  status: text("status").notNull().default("queued"),
+  options: jsonb("options").$type<RevaluationOptions>().notNull(),
+  totalCards: integer("total_cards").notNull().default(0),
+  processedCards: integer("processed_cards").notNull().default(0),
+  updatedCards: integer("updated_cards").notNull().default(0),
+  unchangedCards: integer("unchanged_cards").notNull().default(0),
+  skippedCards: integer("skipped_cards").notNull().default(0),
+  failedCards: integer("failed_cards").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Per-card change report for a revaluation job
+export const revaluationResults = pgTable("revaluation_results", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => revaluationJobs.id, { onDelete: "cascade" }),
+  // Kept when the card is later deleted so the report still reads correctly
+  cardId: integer("card_id").references(() => cards.id, { onDelete: "set null" }),
+  playerName: text("player_name").notNull(),
+  searchQuery: text("search_query").notNull(),
+  status: text("status").notNull(),
+  previousValue: doublePrecision("previous_value").notNull(),
+  newValue: doublePrecision("new_value"), // the estimate, even when it wasn't applied
+  confidence: doublePrecision("confidence"),
+  reason: text("reason"), // why the card was skipped or failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Search box, filter and sort state for the card list, as GET /api/cards takes it
+export const cardFiltersSchema = z.object({
+  search: z.string().default(""),
+  sport: z.string().default("all"),
+  year: z.string().default("all"),
+  brand: z.string().default("all"),
+  condition: z.string().default("all"),
+  cardSet: z.string().default("all"),
+  sortBy: z.string().default("recent"),
+  tags: z.string().default(""), // tag names separated by semicolons
+  tagMode: z.string().default("any"), // "any" or "all" of the tags
+  portfolio: z.string().default("all"), // a portfolio id, "none" or "all"
+  status: z.string().default("active"), // "active", "sold" or "all" cards
+});
+
+export type CardFilters = z.infer<typeof cardFiltersSchema>;
+
+// A named set of filters, shown in the sidebar as a smart collection
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<CardFilters>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users)
+  .pick({
+    username: true,
+    password: true,
+  })
+  .extend({
+    username: z.string().trim().min(3, "Username must be at least 3 characters"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+  });
+
+// Commas and semicolons separate tags in CSV files and URLs
+export const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Tag name is required")
+  .max(40, "Tag names can be at most 40 characters")
+  .refine((name) => !/[,;]/.test(name), "Tag names can't contain commas or semicolons");
+
+export const insertTagSchema = z.object({
+  name: tagNameSchema,
+});
+
+export const cardImageInputSchema = z.object({
+  url: z.string().trim().min(1, "Image URL is required").max(2000),
+  role: z.enum(imageRoles).default("front"),
+});
+
+export const insertCardSchema = createInsertSchema(cards)
+  .omit({
+    id: true,
+    createdAt: true,
+    searchText: true,
+    lotId: true, // set through the lot
+    lotWeight: true,
+  })
+  .extend({
+    // Make these fields optional with defaults to handle missing data
+    cardSet: z.string().optional().default(""),
+    currentValue: z.number().optional().default(0),
+    notes: z.string().optional().default(""),
+    // Photo URLs separated by "|", as imports give them; used as the card's
+    // images when `images` isn't given
+    imageUrl: z.string().optional().default(""),
+    // Replaces the card's photos, in display order
+    images: z.array(cardImageInputSchema).max(20, "A card can have at most 20 photos").optional(),
+    cardNumber: z.string().optional().default(""),
+    userId: z.number().optional().nullable(),
+    // Allow fallback values for required fields in case they're missing
+    purchasePrice: z.coerce.number().default(0),
+    purchaseFees: z.coerce.number().min(0, "Purchase fees can't be negative").default(0),
+    purchaseShipping: z.coerce.number().min(0, "Shipping can't be negative").default(0),
+    purchaseTax: z.coerce.number().min(0, "Tax can't be negative").default(0),
+    purchaseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Purchase date must be YYYY-MM-DD").nullable().optional(),
+    purchaseSource: z.enum(acquisitionSources).nullable().optional(),
+    purchaseSeller: z.string().trim().max(100).default(""),
+    // Replaces the card's tags; tags that don't exist yet are created
+    tags: z.array(tagNameSchema).optional(),
+    locationId: z.number().int().nullable().optional(),
+    locationSlot: z.number().int().min(1, "Slot must be at least 1").nullable().optional(),
+    portfolioId: z.number().int().nullable().optional(),
+  });
+
+export const insertCardSaleSchema = createInsertSchema(cardSales)
+  .pick({
+    salePrice: true,
+    soldAt: true,
+  })
+  .extend({
+    salePrice: z.coerce.number().min(0, "Sale price can't be negative"),
+    fees: z.coerce.number().min(0, "Fees can't be negative").default(0),
+    shippingCost: z.coerce.number().min(0, "Shipping cost can't be negative").default(0),
+    venue: z.string().trim().max(100).default(""),
+    soldAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Sale date must be YYYY-MM-DD"),
+    notes: z.string().max(500).default(""),
+  });
+
+export const insertAcquisitionLotSchema = createInsertSchema(acquisitionLots)
+  .pick({
+    name: true,
+    totalPrice: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    purchaseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Purchase date must be YYYY-MM-DD").nullable().optional(),
+    source: z.enum(acquisitionSources).nullable().optional(),
+    seller: z.string().trim().max(100).default(""),
+    totalPrice: z.coerce.number().min(0, "Price can't be negative"),
+    fees: z.coerce.number().min(0, "Fees can't be negative").default(0),
+    shipping: z.coerce.number().min(0, "Shipping can't be negative").default(0),
+    tax: z.coerce.number().min(0, "Tax can't be negative").default(0),
+    allocation: z.enum(lotAllocationMethods).default("value"),
+    // Replaces the cards in the lot
+    cardIds: z.array(z.number().int()).min(1, "A lot needs at least one card").max(1000).optional(),
+  });
+
+export const updateAcquisitionLotSchema = insertAcquisitionLotSchema.partial();
+
+export const insertPortfolioSchema = createInsertSchema(portfolios)
+  .pick({
+    name: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(60),
+  });
+
+// Cards to create at once, e.g. the detections accepted from a multi-card scan
+export const createCardsSchema = z.object({
+  cards: z.array(insertCardSchema).min(1, "Choose at least one card").max(50),
+});
+
+// Where a card sits in a scan, as fractions of the image's width and height
+// measured from its top left corner
+export const detectionBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+});
+
+// Move cards into a portfolio, or out of every portfolio with a null portfolioId.
+// Their valuation history moves with them.
+export const movePortfolioCardsSchema = z.object({
+  cardIds: z.array(z.number().int()).min(1, "Choose at least one card").max(5000),
+  portfolioId: z.number().int().nullable(),
+});
+
+export const insertStorageLocationSchema = createInsertSchema(storageLocations)
+  .pick({
+    parentId: true,
+    name: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    kind: z.enum(storageLocationKinds),
+    parentId: z.number().int().nullable().optional(),
+  });
+
+export const updateStorageLocationSchema = insertStorageLocationSchema.partial();
+
+// Rehouse cards into a location, or take them out of storage with a null locationId
+export const moveCardsSchema = z.object({
+  cardIds: z.array(z.number().int()).min(1, "Choose at least one card").max(1000),
+  locationId: z.number().int().nullable(),
+  // Renumber the cards into consecutive slots from here, in the order given,
+  // moving cards already in those slots or later up to make room. Without it,
+  // cards new to the location go after its last slot in that order, and cards
+  // already there keep theirs.
+  startSlot: z.number().int().min(1).optional(),
+});
+
+export const insertCardValuationSchema = createInsertSchema(cardValuations)
+  .omit({
+    id: true,
+    recordedAt: true,
+  })
+  .extend({
+    source: z.enum(valuationSources),
+    stats: valuationStatsSchema.nullable().optional(),
+  });
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches)
+  .pick({
+    name: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    filters: cardFiltersSchema,
+  });
+
+export const updateSavedSearchSchema = insertSavedSearchSchema.partial();
+
+// Describes why a card's value changed, sent alongside card updates
+export const valuationMetaSchema = z.object({
+  source: z.enum(valuationSources).default("manual"),
+  stats: valuationStatsSchema.nullable().optional(),
+});
+
+export const cardSortOptions = [
+  { label: "Recent", value: "recent" },
+  { label: "Relevance", value: "relevance" }, // best search matches first
+  { label: "Player Name (A-Z)", value: "playerNameAsc" },
+  { label: "Player Name (Z-A)", value: "playerNameDesc" },
+  { label: "Value (High-Low)", value: "valueDesc" },
+  { label: "Value (Low-High)", value: "valueAsc" },
+  { label: "Year (New-Old)", value: "yearDesc" },
+  { label: "Year (Old-New)", value: "yearAsc" },
+] as const;
+
+export const sportOptions = [
+  { label: "All Sports", value: "all" },
+  { label: "Soccer", value: "soccer" },
+  { label: "Baseball", value: "baseball" },
+  { label: "Basketball", value: "basketball" },
+  { label: "Football", value: "football" },
+  { label: "Hockey", value: "hockey" },
+  { label: "Other", value: "other" },
+] as const;
+
+export const conditionOptions = [
+  { label: "All Conditions", value: "all" },
+  { label: "Raw", value: "raw" },
+  { label: "PSA 10", value: "psa10" },
+  { label: "PSA 9", value: "psa9" },
+  { label: "PSA 8", value: "psa8" },
+  { label: "PSA 7", value: "psa7" },
+  { label: "BGS 9.5", value: "bgs95" },
+  { label: "BGS 9", value: "bgs9" },
+  { label: "BGS 8.5", value: "bgs85" },
+] as const;
+
+// A single sold listing returned by a price provider
+export interface SoldListing {
+  title: string;
+  price: number;
+  date: string;
+  link?: string;
+  imageUrl?: string;
+}
+
+// A sold listing after comparable-sales matching against a card
+export interface CompListing extends SoldListing {
+  grade: string | null; // e.g. "PSA 10", null for raw listings
+  included: boolean;
+  reason: string | null; // why the listing was excluded
+}
+
+// Where a price analysis's listings came from
+export interface PriceCacheInfo {
+  hit: boolean; // served from the cache rather than the provider
+  stale: boolean; // past its TTL, served because the provider failed
+  fetchedAt: string; // ISO time the listings were fetched from the provider
+  ageSeconds: number;
+}
+
+// Result of a price lookup, shared by the API and the price research UI
+export interface PriceAnalysis {
+  items: SoldListing[];
+  averagePrice: number;
+  minPrice: number;
+  maxPrice: number;
+  medianPrice: number;
+  trimmedMeanPrice: number; // mean without the top and bottom 10% of prices
+  filteredAveragePrice: number; // mean after IQR outlier rejection
+  recencyWeightedPrice: number; // outliers removed, recent sales weigh more
+  outlierCount: number; // listings rejected as IQR outliers
+  confidence: number; // 0-1, from sample size and price dispersion
+  totalResults: number;
+  searchQuery: string;
+  provider: string; // name of the price provider that produced the listings
+  simulated: boolean; // true when the listings are generated rather than real sales
+  condition?: string; // card condition the comps were matched against
+  comps?: CompListing[]; // every listing considered, included or not
+  cache?: PriceCacheInfo;
+}
+
+// Totals over every card matching a filter, not just the page being shown
+export interface CardSummary {
+  count: number;
+  totalValue: number;
+  totalCost: number;
+  countsBySport: Record<string, number>;
+}
+
+// Envelope for GET /api/cards when `limit` is given
+export interface CardPage {
+  items: Card[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null; // for offset paging; null on the last page or when paging by cursor
+  nextCursor: string | null; // pass back as `cursor` for the next page; null on the last page
+  summary: CardSummary;
+}
+
+// Fields GET /api/cards/facets counts distinct values for
+export const cardFacetFields = ["sport", "brand", "year", "condition", "cardSet"] as const;
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+// Distinct values of each facet field with their card counts. Each field is
+// counted under every filter except its own, so other values stay selectable.
+export type CardFacets = Record<CardFacetField, FacetValue[]>;
+
+// A revaluation job with its per-card change report, as returned by GET /api/revaluations/:id
+export interface RevaluationReport extends RevaluationJob {
+  results: RevaluationResult[];
+}
+
+// A tag with the number of cards carrying it
+export interface TagWithCount extends Tag {
+  cardCount: number;
+}
+
+// A storage location with the number of cards kept directly in it
+export interface StorageLocationWithCount extends StorageLocation {
+  cardCount: number;
+}
+
+// What GET /api/locations/:id returns: the location, where it sits, and what's inside
+export interface StorageLocationContents {
+  location: StorageLocation;
+  path: StorageLocation[]; // outermost first, ending with the location itself
+  children: StorageLocationWithCount[];
+  cards: Card[]; // in slot order; cards without a slot come last
+}
+
+// A sale with the card it sold and what it made. Net proceeds are the sale
+// price less fees and shipping; the gain is net proceeds less the cost basis.
+export interface RealizedSale extends CardSale {
+  card: Card;
+  costBasis: number;
+  netProceeds: number;
+  realizedGain: number;
+}
+
+export interface RealizedGainsTotals {
+  count: number;
+  salePrice: number;
+  fees: number;
+  shippingCost: number;
+  netProceeds: number;
+  costBasis: number;
+  realizedGain: number;
+}
+
+// What GET /api/sales returns, newest sale first
+export interface RealizedGainsReport {
+  sales: RealizedSale[];
+  totals: RealizedGainsTotals;
+}
+
+// How sales of identical cards are matched to purchases: first in, first
+// out, or the specific card that was marked sold
+export const taxLotMethods = ["fifo", "specific"] as const;
+
+// One sale matched to the purchase it disposes of. Cost basis is fully
+// loaded with purchase fees, shipping and tax; proceeds are net of selling
+// fees and shipping.
+export interface TaxLot {
+  saleId: number;
+  cardId: number; // the card marked sold
+  lotCardId: number; // the card whose purchase the sale used up; differs from cardId only under FIFO
+  description: string;
+  acquiredAt: string; // YYYY-MM-DD
+  soldAt: string;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+  term: "short" | "long"; // long when held more than a year
+  classification: string;
+}
+
+export interface TaxLotReport {
+  year: number;
+  method: TaxLotMethod;
+  years: number[]; // every year with a sale, newest first
+  lots: TaxLot[]; // in sale order
+  totals: {
+    proceeds: number;
+    costBasis: number;
+    shortTermGain: number;
+    longTermGain: number; // taxed as collectibles gain
+    totalGain: number;
+  };
+}
+
+// A lot with the number of cards its costs are spread over
+export interface AcquisitionLotWithCount extends AcquisitionLot {
+  cardCount: number;
+}
+
+// What GET /api/lots/:id returns
+export interface AcquisitionLotContents extends AcquisitionLot {
+  cards: Card[];
+}
+
+// A card's share of a lot's costs
+export interface LotCostShare {
+  cardId: number;
+  purchasePrice: number;
+  purchaseFees: number;
+  purchaseShipping: number;
+  purchaseTax: number;
+}
+
+// An uploaded photo and where to fetch it and its thumbnail
+export interface StoredImage {
+  hash: string;
+  contentType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  url: string;
+  thumbnailUrl: string;
+}
+
+// A card found in a multi-card scan, with its own photo cropped from the scan
+export interface CardDetection {
+  box: DetectionBox;
+  card: Partial<InsertCard>;
+  image: StoredImage | null; // null when the box was too small to crop
+}
+
+// What POST /api/recognize-card/batch returns, detections in reading order
+export interface BatchRecognitionResult {
+  message: string;
+  image: StoredImage; // the whole scan
+  detections: CardDetection[];
+}
+
+// A portfolio with totals over the cards in it
+export interface PortfolioWithTotals extends Portfolio {
+  count: number;
+  totalValue: number;
+  totalCost: number;
+}
+
+// A saved search with live totals over the cards it currently matches
+export interface SmartCollection extends SavedSearch {
+  count: number;
+  totalValue: number;
+}
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type InsertCard = z.infer<typeof insertCardSchema>;
+// Storage fills in `tags` (names, alphabetical) on cards it returns to the API,
+// and `sale` on card listings and single cards
+export type Card = typeof cards.$inferSelect & { tags?: string[]; sale?: CardSale | null; images?: CardImage[] };
+export type CardSale = typeof cardSales.$inferSelect;
+export type InsertCardSale = z.infer<typeof insertCardSaleSchema>;
+export type CardStatus = typeof cardStatuses[number];
+export type TaxLotMethod = typeof taxLotMethods[number];
+export type AcquisitionLot = typeof acquisitionLots.$inferSelect;
+export type InsertAcquisitionLot = z.infer<typeof insertAcquisitionLotSchema>;
+export type AcquisitionSource = typeof acquisitionSources[number];
+export type LotAllocationMethod = typeof lotAllocationMethods[number];
+export type UploadedImage = typeof uploadedImages.$inferSelect;
+export type InsertUploadedImage = Omit<typeof uploadedImages.$inferInsert, "id" | "createdAt">;
+export type ImageRole = typeof imageRoles[number];
+export type CardImage = typeof cardImages.$inferSelect;
+export type CardImageInput = z.infer<typeof cardImageInputSchema>;
+export type DetectionBox = z.infer<typeof detectionBoxSchema>;
+export type CardEdit = typeof cardEdits.$inferSelect;
+export type CardValuation = typeof cardValuations.$inferSelect;
+export type InsertCardValuation = z.infer<typeof insertCardValuationSchema>;
+export type ValuationSource = typeof valuationSources[number];
+export type ValuationMeta = z.infer<typeof valuationMetaSchema>;
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+// Snapshots are only ever computed on the server, so there's no zod schema for them
+export type InsertPortfolioSnapshot = Omit<typeof portfolioSnapshots.$inferInsert, "id" | "createdAt">;
+export type PriceCacheEntry = typeof priceCache.$inferSelect;
+export type InsertPriceCacheEntry = Omit<typeof priceCache.$inferInsert, "id">;
+export type RevaluationJob = typeof revaluationJobs.$inferSelect;
+export type InsertRevaluationJob = Omit<typeof revaluationJobs.$inferInsert, "id" | "createdAt">;
+export type RevaluationResult = typeof revaluationResults.$inferSelect;
+export type InsertRevaluationResult = Omit<typeof revaluationResults.$inferInsert, "id" | "createdAt">;
+export type RevaluationJobStatus = typeof revaluationJobStatuses[number];
+export type RevaluationResultStatus = typeof revaluationResultStatuses[number];
+export type Tag = typeof tags.$inferSelect;
+export type Portfolio = typeof portfolios.$inferSelect;
+export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
+export type StorageLocation = typeof storageLocations.$inferSelect;
+export type InsertStorageLocation = z.infer<typeof insertStorageLocationSchema>;
+export type StorageLocationKind = typeof storageLocationKinds[number];
+export type MoveCards = z.infer<typeof moveCardsSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type CardFacetField = typeof cardFacetFields[number];
+export type CardSort = typeof cardSortOptions[number]["value"];
+export type Sport = typeof sportOptions[number]["value"];
+export type Condition = typeof conditionOptions[number]["value"];
+export type PriceEstimate = typeof priceEstimateOptions[number]["value"];
+
@@ -0,0 +1,29 @@
+// Tag lists as they appear in CSV cells and the `tags` query parameter
+
+/**
+ * Trim tag names and drop blanks and case-insensitive duplicates, keeping the
+ * first spelling
+ */
+export function uniqueTagNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+
+  for (const raw of names) {
+    const name = raw.trim();
+    if (name && !seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      unique.push(name);
+    }
+  }
+
+  return unique;
+}
+
+// "PC; For sale, Trade bait" -> ["PC", "For sale", "Trade bait"]
+export function parseTagList(text: string): string[] {
+  return uniqueTagNames(text.split(/[,;]/));
+}
+
+export function formatTagList(names: string[]): string {
+  return names.join("; ");
+}